@@ -0,0 +1,289 @@
+"use client";
+
+import {
+	faFile,
+	faFileLines,
+	faFilePdf,
+	faImage,
+	faSpinner,
+	faXmark,
+} from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import type { Attachment } from "ai";
+import clsx from "clsx";
+import { useEffect, useRef, useState } from "react";
+
+import type { ModelDef } from "~/app/api/chat/models";
+import {
+	type AttachmentKind,
+	MAX_ATTACHMENT_BYTES,
+	canReadAttachment,
+	formatBytes,
+	getAttachmentKind,
+} from "~/lib/attachments";
+
+const kindIcons: Record<AttachmentKind, typeof faFile> = {
+	image: faImage,
+	document: faFilePdf,
+	text: faFileLines,
+};
+
+export type PendingAttachment = {
+	key: string;
+	name: string;
+	contentType: string;
+	// Object URL of the local file, for image thumbnails before the upload finishes
+	previewUrl?: string;
+	error?: string;
+	// Set once uploaded
+	attachment?: Attachment;
+};
+
+async function upload(file: File): Promise<Attachment> {
+	const form = new FormData();
+	form.append("file", file);
+
+	const response = await fetch("/api/attachments", {
+		method: "POST",
+		body: form,
+	});
+	if (!response.ok) {
+		throw new Error(await response.text());
+	}
+
+	const { name, contentType, url } = (await response.json()) as Attachment;
+	return { name, contentType, url };
+}
+
+function revoke(items: PendingAttachment[]) {
+	for (const item of items) {
+		if (item.previewUrl) {
+			URL.revokeObjectURL(item.previewUrl);
+		}
+	}
+}
+
+/**
+ * Files attached in the composer. Each one is uploaded as soon as it's added; `attachments` are
+ * the uploaded ones, ready to be sent with the message.
+ */
+export function useAttachmentUploads() {
+	const [pending, setPending] = useState<PendingAttachment[]>([]);
+	const nextKey = useRef(0);
+
+	const update = (key: string, changes: Partial<PendingAttachment>) =>
+		setPending((current) =>
+			current.map((item) =>
+				item.key === key ? { ...item, ...changes } : item,
+			),
+		);
+
+	const add = (files: File[]) => {
+		for (const file of files) {
+			const key = String(nextKey.current++);
+			const contentType = file.type || "application/octet-stream";
+			const kind = getAttachmentKind(contentType);
+
+			const error = !kind
+				? "Unsupported file type"
+				: file.size > MAX_ATTACHMENT_BYTES
+					? `Larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}`
+					: undefined;
+
+			setPending((current) => [
+				...current,
+				{
+					key,
+					name: file.name,
+					contentType,
+					previewUrl: kind === "image" ? URL.createObjectURL(file) : undefined,
+					error,
+				},
+			]);
+
+			if (!error) {
+				upload(file).then(
+					(attachment) => update(key, { attachment }),
+					(uploadError: unknown) =>
+						update(key, {
+							error:
+								uploadError instanceof Error
+									? uploadError.message
+									: String(uploadError),
+						}),
+				);
+			}
+		}
+	};
+
+	const remove = (key: string) =>
+		setPending((current) => {
+			revoke(current.filter((item) => item.key === key));
+			return current.filter((item) => item.key !== key);
+		});
+
+	const clear = () =>
+		setPending((current) => {
+			revoke(current);
+			return [];
+		});
+
+	// Release the thumbnails when the composer goes away
+	const pendingRef = useRef(pending);
+	pendingRef.current = pending;
+	useEffect(() => () => revoke(pendingRef.current), []);
+
+	return {
+		pending,
+		attachments: pending.flatMap((item) =>
+			item.attachment && !item.error ? [item.attachment] : [],
+		),
+		uploading: pending.some((item) => !item.attachment && !item.error),
+		add,
+		remove,
+		clear,
+	};
+}
+
+function AttachmentChip({
+	name,
+	contentType,
+	thumbnailUrl,
+	href,
+	error,
+	uploading,
+	onRemove,
+}: {
+	name: string;
+	contentType: string;
+	thumbnailUrl?: string;
+	href?: string;
+	error?: string;
+	uploading?: boolean;
+	onRemove?: () => void;
+}) {
+	const kind = getAttachmentKind(contentType);
+
+	const content = thumbnailUrl ? (
+		<img
+			src={thumbnailUrl}
+			alt={name}
+			className="size-16 rounded-md border border-gray-300 object-cover"
+		/>
+	) : (
+		<span className="flex h-16 max-w-48 flex-row items-center gap-2 rounded-md border border-gray-300 bg-white px-3 text-gray-600 text-xs">
+			<FontAwesomeIcon icon={kind ? kindIcons[kind] : faFile} />
+			<span className="truncate">{name}</span>
+		</span>
+	);
+
+	return (
+		<div
+			title={error ? `${name}: ${error}` : name}
+			className={clsx(
+				"relative",
+				error && "rounded-md outline-2 outline-red-500",
+				uploading && "opacity-50",
+			)}
+		>
+			{href ? (
+				<a href={href} target="_blank" rel="noreferrer">
+					{content}
+				</a>
+			) : (
+				content
+			)}
+			{uploading && (
+				<FontAwesomeIcon
+					icon={faSpinner}
+					spin
+					className="absolute inset-0 m-auto text-gray-600"
+				/>
+			)}
+			{onRemove && (
+				<button
+					type="button"
+					title="Remove"
+					onClick={onRemove}
+					className="-top-2 -right-2 absolute flex size-5 items-center justify-center rounded-full border border-gray-300 bg-white text-gray-500 text-xs hover:text-gray-700"
+				>
+					<FontAwesomeIcon icon={faXmark} />
+				</button>
+			)}
+		</div>
+	);
+}
+
+/**
+ * Thumbnails of the files attached to a sent message, linking to the full file.
+ */
+export function AttachmentPreviews({
+	attachments,
+}: {
+	attachments: Attachment[];
+}) {
+	return (
+		<div className="flex flex-row flex-wrap gap-2">
+			{attachments.map((attachment, index) => {
+				const name = attachment.name ?? "attachment";
+				const contentType = attachment.contentType ?? "";
+				return (
+					<AttachmentChip
+						// Attachments never change once sent
+						// biome-ignore lint/suspicious/noArrayIndexKey: see above
+						key={index}
+						name={name}
+						contentType={contentType}
+						thumbnailUrl={
+							getAttachmentKind(contentType) === "image"
+								? attachment.url
+								: undefined
+						}
+						href={attachment.url}
+					/>
+				);
+			})}
+		</div>
+	);
+}
+
+/**
+ * The files attached in the composer, flagging the ones the selected model can't read.
+ */
+export function PendingAttachments({
+	pending,
+	modelDef,
+	onRemove,
+}: {
+	pending: PendingAttachment[];
+	modelDef: ModelDef | undefined;
+	onRemove: (key: string) => void;
+}) {
+	if (pending.length === 0) {
+		return null;
+	}
+
+	return (
+		<div className="flex flex-row flex-wrap gap-3 pt-2">
+			{pending.map((item) => {
+				const kind = getAttachmentKind(item.contentType);
+				const unreadable =
+					modelDef && kind && !canReadAttachment(modelDef, kind)
+						? `${modelDef.displayName} can't read this file`
+						: undefined;
+
+				return (
+					<AttachmentChip
+						key={item.key}
+						name={item.name}
+						contentType={item.contentType}
+						thumbnailUrl={item.previewUrl}
+						error={item.error ?? unreadable}
+						uploading={!item.attachment && !item.error}
+						onRemove={() => onRemove(item.key)}
+					/>
+				);
+			})}
+		</div>
+	);
+}
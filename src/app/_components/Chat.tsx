@@ -1,7 +1,7 @@
 "use client";
 
 import { useChat } from "@ai-sdk/react";
-import type { ToolInvocation, UIMessage } from "ai";
+import { type Attachment, generateId, type UIMessage } from "ai";
 import clsx from "clsx";
 
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
@@ -12,137 +12,191 @@ import {
     faRotateLeft,
     faSpinner,
     faStop,
-    faChevronDown,
+    faBrain,
+    faCode,
+    faEye,
+    faWrench,
+    faChevronLeft,
     faChevronRight,
     faHourglass,
+    faPen,
+    faSliders,
+    faFilePdf,
+    faPaperclip,
     } from "@fortawesome/free-solid-svg-icons";
 import { useAutoScroll } from "~/app/util";
-import { forwardRef, useState } from "react";
+import { Fragment, forwardRef, useEffect, useMemo, useRef, useState } from "react";
 
+import {
+    type Compaction,
+    DEFAULT_CONTEXT_STRATEGY,
+    contextStrategyLabels,
+    estimateTextTokens,
+    estimateTokens,
+    getCompaction,
+    getContextBudget,
+} from "~/lib/contextWindow";
+import { DEFAULT_MAX_STEPS, type GenerationSettings } from "~/lib/generationSettings";
+import { getMessageText, getModelAnnotation } from "~/lib/messages";
+import { type PromptTemplate, type TemplateAnnotation, getTemplateAnnotation } from "~/lib/promptTemplates";
+import { getKnowledgeSources } from "~/lib/knowledge";
+import { getStructuredOutput } from "~/lib/structuredOutput";
+import {
+    buildTree,
+    getLatestLeaf,
+    getPath,
+    getSiblings,
+    mergePath,
+} from "~/lib/messageTree";
+import {
+    formatTokens,
+    getMessageUsage,
+    sumUsage,
+} from "~/lib/usage";
 import { api } from "~/trpc/react";
-import type { Model, ModelDefs } from "../api/chat/models";
-import { modelDefs } from "../api/chat/models";
+import type { Model, ModelDef, ModelDefs } from "../api/chat/models";
+import { AttachmentPreviews, PendingAttachments, useAttachmentUploads } from "./Attachments";
+import ChatError from "./ChatError";
+import ComparePicker from "./ComparePicker";
+import CompareView, { type Comparison } from "./CompareView";
+import ExportMenu from "./ExportMenu";
+import { MessagePart, type RespondToTool, UsageSummary } from "./MessageParts";
+import PromptPalette from "./PromptPalette";
+import ReasoningBrowser from "./ReasoningBrowser";
+import { useResume, useStreamCancel } from "./resumable";
+import SettingsPanel from "./SettingsPanel";
+import StructuredOutputView from "./StructuredOutput";
+import ToolPicker from "./ToolPicker";
+import KnowledgeBase, { KnowledgeSources } from "./KnowledgeBase";
+
+type Branch = {
+    index: number;
+    count: number;
+    select: (index: number) => void;
+};
+
+function BranchNav({ branch, disabled }: { branch: Branch; disabled: boolean }) {
+    if (branch.count < 2) {
+        return null;
+    }
 
-function ToolCall({ invocation }: { invocation: ToolInvocation }) {
     return (
-        <div className="flex flex-col gap-2">
-            <div className="italic">
-                Called tool{" "}
-                <span className="not-italic font-bold">
-                    {invocation.toolName}
-                </span>{" "}
-                with{" "}
-                <span className="not-italic font-bold">
-                    {Object.entries(invocation.args)
-                        .map(
-                            ([key, value]) => `${key}: ${JSON.stringify(value)}`
-                        )
-                        .join(", ")}
-                </span>
-            </div>
-            {invocation.state !== "result" ? (
-                <div className="italic">...</div>
-            ) : (
-                <div className="italic">
-                    Result:{" "}
-                    <span className="not-italic font-bold">
-                        {JSON.stringify(invocation.result)}
-                    </span>
-                </div>
-            )}
+        <div className="flex flex-row items-center gap-1 text-gray-500 text-xs">
+            <button
+                type="button"
+                disabled={disabled || branch.index === 0}
+                onClick={() => branch.select(branch.index - 1)}
+                className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+            >
+                <FontAwesomeIcon icon={faChevronLeft} />
+            </button>
+            {branch.index + 1}/{branch.count}
+            <button
+                type="button"
+                disabled={disabled || branch.index === branch.count - 1}
+                onClick={() => branch.select(branch.index + 1)}
+                className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+            >
+                <FontAwesomeIcon icon={faChevronRight} />
+            </button>
         </div>
     );
 }
 
-type ReasoningUIPart = {
-    type: "reasoning";
-    /**
-     * The reasoning text.
-     */
-    reasoning: string;
-    details: Array<
-        | {
-              type: "text";
-              text: string;
-              signature?: string;
-          }
-        | {
-              type: "redacted";
-              data: string;
-          }
-    >;
-};
-function Reasoning({ details, startExpanded }: Pick<ReasoningUIPart, "details"> & { startExpanded: boolean }) {
-    const [reasoningExpanded, setReasoningExpanded] = useState(false);
-
-    const [userExpanded, setUserExpanded] = useState(false);
-
-    const shouldBeExpanded = userExpanded ? reasoningExpanded : startExpanded;
+function EditMessage({
+    message,
+    onSave,
+    onCancel,
+}: {
+    message: UIMessage;
+    onSave: (text: string) => void;
+    onCancel: () => void;
+}) {
+    const [text, setText] = useState(getMessageText(message));
 
     return (
-        <div className="p-2 italic bg-gray-200 border-2 border-gray-300 rounded-md">
-            {/* biome-ignore lint/a11y/useKeyWithClickEvents: <explanation> */}
-            <div
-                className="flex flex-row items-center w-full gap-2 mb-2 text-sm font-bold cursor-pointer"
-                onClick={() => {
-                    setUserExpanded(true);
-                    setReasoningExpanded(!reasoningExpanded);
-                }}
-            >
-                Reasoning
-                {shouldBeExpanded ? (
-                    <FontAwesomeIcon icon={faChevronDown} />
-                ) : (
-                    <FontAwesomeIcon icon={faChevronRight} />
-                )}
+        <form
+            className="flex flex-col gap-2"
+            onSubmit={(e) => {
+                e.preventDefault();
+                if (text.trim()) {
+                    onSave(text);
+                }
+            }}
+        >
+            <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                rows={Math.min(10, text.split("\n").length + 1)}
+                className="w-full p-2 bg-white border-2 border-gray-300 rounded-md"
+            />
+            <div className="flex flex-row justify-end gap-2 text-sm">
+                <button type="button" onClick={onCancel} className="px-3 py-1 border-2 border-gray-300 rounded-md">
+                    Cancel
+                </button>
+                <button type="submit" className="px-3 py-1 bg-gray-200 border-2 border-gray-300 rounded-md">
+                    Send
+                </button>
             </div>
-            {shouldBeExpanded && (
-                <div className="p-2">
-                    {details
-                        .map((detail) =>
-                            detail.type === "text" ? detail.text : detail.data
-                        )
-                        .join("\n")}
-                </div>
-            )}
-        </div>
+        </form>
     );
 }
 
-function MessagePart({ part, numParts }: { part: UIMessage["parts"][number], numParts: number }) {
-    if (part.type === "step-start") {
-        return;
-    }
+function CompactionMarker({ compaction }: { compaction: Compaction }) {
+    const [showSummary, setShowSummary] = useState(false);
+    const { before, after, budget } = compaction.estimatedTokens;
 
-    const partClass = clsx({
-        "msg-part-text": part.type === "text",
-        "msg-part-reasoning": part.type === "reasoning",
-        "msg-part-tool": part.type === "tool-invocation",
-    });
+    const changes = [
+        compaction.droppedMessages > 0 &&
+            `${compaction.droppedMessages} earlier messages ${compaction.summary ? "summarized" : "left out"}`,
+        compaction.droppedDetails > 0 && `${compaction.droppedDetails} reasoning and tool outputs left out`,
+    ].filter(Boolean);
 
     return (
-        <div className={`whitespace-pre-wrap ${partClass}`}>
-            {(() => {
-                switch (part.type) {
-                    case "text":
-                        return part.text;
-                    case "tool-invocation":
-                        return <ToolCall invocation={part.toolInvocation} />;
-                    case "reasoning":
-                        return <Reasoning startExpanded={numParts <= 2} details={part.details} />;
-                    default:
-                        return JSON.stringify(part);
-                }
-            })()}
+        <div className="flex flex-col gap-2 text-gray-400 text-xs">
+            <div className="flex flex-row items-center gap-3">
+                <div className="flex-1 border-t border-gray-300 border-dashed" />
+                <span
+                    title={`About ${formatTokens(before)} tokens cut to ${formatTokens(after)}, to fit ${formatTokens(budget)}`}
+                >
+                    Context compacted above: {changes.join(" · ")}
+                </span>
+                {compaction.summary && (
+                    <button
+                        type="button"
+                        onClick={() => setShowSummary(!showSummary)}
+                        className="hover:text-gray-700"
+                    >
+                        {showSummary ? "Hide summary" : "Show summary"}
+                    </button>
+                )}
+                <div className="flex-1 border-t border-gray-300 border-dashed" />
+            </div>
+            {showSummary && (
+                <div className="p-3 text-gray-600 whitespace-pre-wrap bg-gray-50 border border-gray-200 rounded-md">
+                    {compaction.summary}
+                </div>
+            )}
         </div>
     );
 }
 
 const Message = forwardRef<
     HTMLDivElement,
-    { message: UIMessage; reload: () => void }
->(({ message, reload }, ref) => {
+    {
+        message: UIMessage;
+        branch: Branch;
+        busy: boolean;
+        regenerate: () => void;
+        edit: (text: string) => void;
+        respond: RespondToTool | undefined;
+        // Sends a prompt asking to fix an answer that doesn't match the output schema
+        repair: ((prompt: string) => void) | undefined;
+        focused?: boolean;
+    }
+>(({ message, branch, busy, regenerate, edit, respond, repair, focused }, ref) => {
     const isUser = message.role === "user";
+    const [editing, setEditing] = useState(false);
 
     const roleClass = clsx(
         {
@@ -164,18 +218,30 @@ const Message = forwardRef<
     }, {});
 
     const model = annotations.model;
+    const usage = getMessageUsage(message);
+    const template = getTemplateAnnotation(message);
+    const structuredOutput = getStructuredOutput(message);
+    const knowledgeSources = getKnowledgeSources(message);
 
     return (
         <div>
             <div
                 key={message.id}
-                className="flex flex-col gap-4 p-3 whitespace-pre-wrap bg-gray-100 border border-gray-200 rounded-md"
+                className={clsx(
+                    "flex flex-col gap-4 p-3 whitespace-pre-wrap bg-gray-100 border border-gray-200 rounded-md",
+                    focused && "ring-2 ring-yellow-400"
+                )}
                 ref={ref}
             >
                 <div className={roleClass}>
                     {isUser ? (
                         <>
                             <FontAwesomeIcon icon={faPerson} /> You
+                            {template && (
+                                <div className="float-right rounded-md border-1 border-gray-300 bg-gray-200 p-[5px] text-gray-500 text-xs">
+                                    /{template.name} · v{template.version}
+                                </div>
+                            )}
                         </>
                     ) : (
                         <>
@@ -186,36 +252,80 @@ const Message = forwardRef<
                                         (part) => part.type === "reasoning"
                                     ) && "🧠 "}
                                     {model}
+                                    {usage && (
+                                        <>
+                                            {" · "}
+                                            <UsageSummary usage={usage} />
+                                        </>
+                                    )}
                                 </div>
                             )}
                         </>
                     )}
                 </div>
-                {message.parts.length === 0 ||
-                (message.parts.length === 1 &&
-                    message.parts[0]?.type === "step-start") ? (
-                    <div className="flex flex-row items-center gap-3 italic">
-                        Thinking...
-                        <FontAwesomeIcon icon={faSpinner} spin />
-                    </div>
+                {editing ? (
+                    <EditMessage
+                        message={message}
+                        onCancel={() => setEditing(false)}
+                        onSave={(text) => {
+                            setEditing(false);
+                            edit(text);
+                        }}
+                    />
                 ) : (
-                    message.parts.map((part, index) => {
-                        return (
-                            <MessagePart
-                                key={`${message.id}-${index}`}
-                                part={part}
-                                numParts={message.parts.length}
+                    <>
+                        {message.experimental_attachments?.length ? (
+                            <AttachmentPreviews attachments={message.experimental_attachments} />
+                        ) : null}
+                        {message.parts.length === 0 ||
+                        (message.parts.length === 1 &&
+                            message.parts[0]?.type === "step-start") ? (
+                            <div className="flex flex-row items-center gap-3 italic">
+                                Thinking...
+                                <FontAwesomeIcon icon={faSpinner} spin />
+                            </div>
+                        ) : structuredOutput ? (
+                            <StructuredOutputView
+                                text={getMessageText(message)}
+                                output={structuredOutput}
+                                repair={repair}
                             />
-                        );
-                    })
+                        ) : (
+                            message.parts.map((part, index) => {
+                                return (
+                                    <MessagePart
+                                        key={`${message.id}-${index}`}
+                                        part={part}
+                                        numParts={message.parts.length}
+                                        message={message}
+                                        respond={respond}
+                                    />
+                                );
+                            })
+                        )}
+                        {knowledgeSources.length > 0 && <KnowledgeSources sources={knowledgeSources} />}
+                    </>
                 )}
             </div>
-            <div className="flex flex-row justify-end gap-2 pt-2 pr-1">
-                {!isUser && (
+            <div className="flex flex-row items-center justify-end gap-2 pt-2 pr-1">
+                <BranchNav branch={branch} disabled={busy} />
+                {isUser ? (
                     <button
                         type="button"
-                        onClick={() => reload()}
-                        className="text-gray-400 hover:text-gray-700"
+                        title="Edit and resend"
+                        disabled={busy}
+                        onClick={() => setEditing(true)}
+                        className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    >
+                        <FontAwesomeIcon icon={faPen} />
+                    </button>
+                ) : (
+                    <button
+                        type="button"
+                        title="Regenerate with the selected model"
+                        disabled={busy}
+                        onClick={() => regenerate()}
+                        className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
                     >
                         <FontAwesomeIcon icon={faRotateLeft} />
                     </button>
@@ -225,39 +335,314 @@ const Message = forwardRef<
     );
 });
 
-export default function Chat() {
+export default function Chat({
+    conversationId,
+    focusMessageId,
+}: {
+    conversationId: string;
+    // Shown with its branch, scrolled to and highlighted
+    focusMessageId?: string;
+}) {
     const [models] = api.model.list.useSuspenseQuery();
+    const [conversation] = api.chat.get.useSuspenseQuery({ id: conversationId });
+    const utils = api.useUtils();
 
     if (Object.keys(models).length === 0) {
         return <div>No models found</div>;
     }
 
-    const [model, setModel] = useState<Model>("openai:default");
+    // Every branch of the conversation; `useChat` only holds the path that is currently shown
+    const [tree, setTree] = useState(() => buildTree(conversation?.messages ?? []));
+    const [initialMessages] = useState(() =>
+        getPath(
+            tree,
+            focusMessageId && tree[focusMessageId]
+                ? getLatestLeaf(tree, focusMessageId)
+                : conversation?.activeLeafId ?? getLatestLeaf(tree, null)
+        )
+    );
+
+    const modelList = Object.values(models).flat();
+
+    // Continue with whichever model answered last, if it is still available
+    const [model, setModel] = useState<Model>(() => {
+        const lastModel = initialMessages.map(getModelAnnotation).filter(Boolean).pop();
+        if (modelList.some((def) => def.id === lastModel)) {
+            return lastModel as Model;
+        }
+
+        return modelList[0]?.id ?? "openai:default";
+    });
+
+    const [settings, setSettings] = useState<GenerationSettings>(conversation?.settings ?? {});
+    const [showSettings, setShowSettings] = useState(false);
+    const [showReasoning, setShowReasoning] = useState(false);
+    const updateSettings = api.chat.updateSettings.useMutation();
+
+    // Compare mode is on while two or more models are picked; `comparison` is the prompt being compared
+    const [compareModels, setCompareModels] = useState<Model[]>([]);
+    const [comparison, setComparison] = useState<Comparison>();
+    const pickWinner = api.chat.pickWinner.useMutation();
+    const activeStreamId = conversation?.activeStreamId ?? null;
+    const { onResponse, cancel } = useStreamCancel(activeStreamId);
+
+    const onSaved = () => {
+        void utils.chat.list.invalidate();
+        void utils.chat.get.invalidate({ id: conversationId });
+
+        // A fresh conversation only exists once its first message is saved, so point the URL at it
+        const url = new URL(window.location.href);
+        if (url.searchParams.get("c") !== conversationId) {
+            url.searchParams.set("c", conversationId);
+            window.history.replaceState(null, "", url);
+        }
+    };
 
     const {
         messages,
         input,
+        setInput,
         handleInputChange,
         handleSubmit,
         status,
+        error,
         stop,
         reload,
+        append,
+        setMessages,
+        addToolResult,
+        experimental_resume,
     } = useChat({
-        maxSteps: 10,
+        id: conversationId,
+        initialMessages,
+        maxSteps: settings.maxSteps ?? DEFAULT_MAX_STEPS,
         sendExtraMessageFields: true,
         body: {
             model,
+            settings,
         },
+        onResponse,
+        onFinish: onSaved,
     });
 
+    useResume(activeStreamId, experimental_resume);
+
     const { containerRef, handleScroll } = useAutoScroll();
 
+    const focusRef = useRef<HTMLDivElement>(null);
+    useEffect(() => {
+        focusRef.current?.scrollIntoView({ block: "center" });
+    }, []);
+
+    const selectBranch = api.chat.selectBranch.useMutation();
+
+    // The known branches plus the live state of the one being shown
+    const fullTree = useMemo(() => mergePath(tree, messages), [tree, messages]);
+    const busy = status !== "ready" && status !== "error";
+
+    // The history the latest answer was sent with was compacted up to here
+    const compaction = useMemo(
+        () => messages.map(getCompaction).filter((compaction) => compaction !== undefined).at(-1),
+        [messages]
+    );
+
+    // Every branch was paid for, not just the one shown
+    const totalUsage = useMemo(
+        () =>
+            sumUsage(
+                Object.values(fullTree)
+                    .map(({ message }) => getMessageUsage(message))
+                    .filter((usage) => usage !== undefined)
+            ),
+        [fullTree]
+    );
+
+    // Swap the shown path, keeping the one we leave in the tree
+    const showPath = (path: UIMessage[]) => {
+        setTree(fullTree);
+        setMessages(path);
+    };
+
+    const getBranch = (message: UIMessage): Branch => {
+        const siblings = getSiblings(fullTree, message.id);
+
+        return {
+            index: siblings.findIndex((sibling) => sibling.message.id === message.id),
+            count: siblings.length,
+            select: (index) => {
+                const sibling = siblings[index];
+                if (!sibling) {
+                    return;
+                }
+
+                const leafId = getLatestLeaf(fullTree, sibling.message.id);
+                showPath(getPath(fullTree, leafId));
+                if (leafId) {
+                    selectBranch.mutate({ id: conversationId, leafId });
+                }
+            },
+        };
+    };
+
+    // From the reasoning view: the branch with the answer, back in the chat
+    const showAnswer = (answerId: string) => {
+        const leafId = getLatestLeaf(fullTree, answerId);
+        showPath(getPath(fullTree, leafId));
+        if (leafId) {
+            selectBranch.mutate({ id: conversationId, leafId });
+        }
+        setShowReasoning(false);
+    };
+
+    // Both create a sibling of the message rather than replacing it: the new message gets its own id
+    // and the same parent
+    const regenerate = (index: number) => {
+        showPath(messages.slice(0, index));
+        void reload();
+    };
+
+    const edit = (index: number, text: string) => {
+        showPath(messages.slice(0, index));
+        // The edited prompt keeps the original's attachments
+        void append({
+            role: "user",
+            content: text,
+            experimental_attachments: messages[index]?.experimental_attachments,
+        });
+    };
+
+    const compare = (text: string, attachments: Attachment[]) => {
+        setComparison({
+            history: messages,
+            prompt: {
+                id: generateId(),
+                createdAt: new Date(),
+                role: "user",
+                content: text,
+                parts: text ? [{ type: "text", text }] : [],
+                experimental_attachments: attachments.length > 0 ? attachments : undefined,
+            },
+            models: compareModels,
+        });
+        setInput("");
+    };
+
+    // Every answer stays in the tree as a branch of the prompt
+    const endComparison = (shown: UIMessage[], paths: UIMessage[][]) => {
+        setTree(paths.reduce(mergePath, fullTree));
+        setMessages(shown);
+        setComparison(undefined);
+        // Each model saved the settings it supports; keep the conversation's own
+        updateSettings.mutate({ id: conversationId, settings });
+        onSaved();
+    };
+
+    const pick = (winner: UIMessage[], paths: UIMessage[][]) => {
+        const answer = winner.at(-1);
+        const winnerId = answer?.id;
+        const winnerModel = answer && getModelAnnotation(answer);
+        const promptId = comparison?.prompt.id;
+        const candidateIds = paths.flatMap((path) => {
+            const last = path.at(-1);
+            return last?.role === "assistant" ? [last.id] : [];
+        });
+
+        endComparison(winner, paths);
+        if (modelList.some((def) => def.id === winnerModel)) {
+            setModel(winnerModel as Model);
+        }
+        if (winnerId && promptId && candidateIds.length >= 2) {
+            pickWinner.mutate({ id: conversationId, promptId, winnerId, candidateIds });
+        } else if (winnerId) {
+            selectBranch.mutate({ id: conversationId, leafId: winnerId });
+        }
+    };
+
+    const cancelComparison = (paths: UIMessage[][]) => {
+        endComparison(messages, paths);
+        const leafId = messages.at(-1)?.id;
+        if (leafId) {
+            selectBranch.mutate({ id: conversationId, leafId });
+        }
+    };
+
+    // A template's model and settings, if it has them, apply from its prompt on
+    const applyTemplate = (template: PromptTemplate) => {
+        if (modelList.some((def) => def.id === template.model)) {
+            setModel(template.model as Model);
+        }
+        if (template.settings) {
+            setSettings({ ...settings, ...template.settings });
+        }
+    };
+
+    const setTools = (tools: string[]) => {
+        const updated = { ...settings, tools };
+        setSettings(updated);
+        updateSettings.mutate({ id: conversationId, settings: updated });
+    };
+
+    const setKnowledgeBase = (knowledgeBase: boolean) => {
+        const updated = { ...settings, knowledgeBase };
+        setSettings(updated);
+        updateSettings.mutate({ id: conversationId, settings: updated });
+    };
+
     return (
         <div id="chatbox" className="flex flex-col w-full h-full m-auto">
-            <h2 className="p-3 text-2xl font-bold text-center text-gray-600 bg-gray-200">
+            <h2 className="relative p-3 text-2xl font-bold text-center text-gray-600 bg-gray-200">
                 Chatbot
+                {totalUsage.promptTokens + totalUsage.completionTokens > 0 && (
+                    <span className="absolute left-4 font-normal text-gray-500 text-sm top-5">
+                        Total: <UsageSummary usage={totalUsage} />
+                    </span>
+                )}
+                <button
+                    type="button"
+                    title="Reasoning"
+                    onClick={() => setShowReasoning(!showReasoning)}
+                    className={clsx(
+                        "absolute right-20 text-lg hover:text-gray-700",
+                        showReasoning ? "text-gray-700" : "text-gray-400"
+                    )}
+                >
+                    <FontAwesomeIcon icon={faBrain} />
+                </button>
+                <ExportMenu
+                    conversationId={conversationId}
+                    disabled={messages.length === 0 || busy || !!comparison}
+                    className="absolute right-12 top-3"
+                />
+                <button
+                    type="button"
+                    title="Generation settings"
+                    onClick={() => setShowSettings(!showSettings)}
+                    className={clsx(
+                        "absolute right-4 text-lg hover:text-gray-700",
+                        showSettings ? "text-gray-700" : "text-gray-400"
+                    )}
+                >
+                    <FontAwesomeIcon icon={faSliders} />
+                </button>
             </h2>
-            <div className="flex flex-col flex-1 w-full min-h-0">
+            {showSettings && (
+                <SettingsPanel
+                    settings={settings}
+                    modelDef={modelList.find((def) => def.id === model)}
+                    onChange={setSettings}
+                    onSave={() => updateSettings.mutate({ id: conversationId, settings })}
+                />
+            )}
+            {showReasoning && (
+                <ReasoningBrowser
+                    conversationId={conversationId}
+                    name={conversation?.name ?? null}
+                    nodes={Object.values(fullTree)}
+                    show={busy || comparison ? undefined : showAnswer}
+                    onClose={() => setShowReasoning(false)}
+                />
+            )}
+            <div className={clsx("flex flex-col flex-1 w-full min-h-0", showReasoning && "hidden")}>
                 <div
                     id="messages"
                     className="flex-1 min-h-0 py-4 overflow-y-auto"
@@ -265,31 +650,152 @@ export default function Chat() {
                     onScroll={handleScroll}
                 >
                     <div className="flex flex-col gap-4 pt-2 m-auto max-w-1/2 min-w-1/4">
-                        {messages.map((message) => (
-                            <Message
-                                key={message.id}
-                                message={message}
-                                reload={reload}
-                            />
+                        {messages.map((message, index) => (
+                            <Fragment key={message.id}>
+                                <Message
+                                    ref={message.id === focusMessageId ? focusRef : undefined}
+                                    focused={message.id === focusMessageId}
+                                    message={message}
+                                    branch={getBranch(message)}
+                                    busy={busy || !!comparison}
+                                    regenerate={() => regenerate(index)}
+                                    edit={(text) => edit(index, text)}
+                                    respond={
+                                        // Only the latest answer can still be continued
+                                        !busy && !comparison && index === messages.length - 1
+                                            ? (toolCallId, result) => addToolResult({ toolCallId, result })
+                                            : undefined
+                                    }
+                                    repair={
+                                        !busy && !comparison && index === messages.length - 1
+                                            ? (prompt) => void append({ role: "user", content: prompt })
+                                            : undefined
+                                    }
+                                />
+                                {compaction?.throughMessageId === message.id && (
+                                    <CompactionMarker compaction={compaction} />
+                                )}
+                            </Fragment>
                         ))}
                         {status === "submitted" && (
                             <div className="flex flex-row justify-center gap-2 pt-2 pr-1">
                                 <FontAwesomeIcon icon={faSpinner} spin />
                             </div>
                         )}
+                        {status === "error" && error && <ChatError error={error} retry={() => void reload()} />}
+                        {comparison && (
+                            <Message
+                                message={comparison.prompt}
+                                branch={{ index: 0, count: 1, select: () => {} }}
+                                busy
+                                regenerate={() => {}}
+                                edit={() => {}}
+                                respond={undefined}
+                                repair={undefined}
+                            />
+                        )}
                     </div>
+                    {comparison && (
+                        <CompareView
+                            conversationId={conversationId}
+                            comparison={comparison}
+                            models={modelList}
+                            settings={settings}
+                            onPick={pick}
+                            onCancel={cancelComparison}
+                        />
+                    )}
                 </div>
-                <ChatInput
-                    model={model}
-                    setModel={setModel}
-                    models={models}
-                    input={input}
-                    handleInputChange={handleInputChange}
-                    handleSubmit={handleSubmit}
-                    status={status}
-                    stop={stop}
+                {!comparison && (
+                    <ChatInput
+                        model={model}
+                        setModel={setModel}
+                        models={models}
+                        tools={settings.tools}
+                        setTools={setTools}
+                        setKnowledgeBase={setKnowledgeBase}
+                        input={input}
+                        setInput={setInput}
+                        handleInputChange={handleInputChange}
+                        handleSubmit={handleSubmit}
+                        append={append}
+                        applyTemplate={applyTemplate}
+                        status={status}
+                        stop={() => {
+                            cancel();
+                            stop();
+                        }}
+                        compareModels={compareModels}
+                        setCompareModels={setCompareModels}
+                        compare={compare}
+                        messages={messages}
+                        settings={settings}
+                    />
+                )}
+            </div>
+        </div>
+    );
+}
+
+const capabilityIcons = {
+    reasoning: { icon: faBrain, label: "Reasoning" },
+    tools: { icon: faWrench, label: "Tool use" },
+    vision: { icon: faEye, label: "Image input" },
+    documents: { icon: faFilePdf, label: "PDF input" },
+    structuredOutput: { icon: faCode, label: "Structured output" },
+};
+
+function ModelCapabilities({ def }: { def: ModelDef }) {
+    return (
+        <div className="flex flex-row items-center self-center gap-3 mr-2 text-gray-500 text-xs">
+            {Object.entries(capabilityIcons).map(([capability, { icon, label }]) => (
+                <span
+                    key={capability}
+                    title={label}
+                    className={clsx(!def.capabilities[capability as keyof typeof capabilityIcons] && "opacity-20")}
+                >
+                    <FontAwesomeIcon icon={icon} />
+                </span>
+            ))}
+            <span title="Context window / max output tokens">
+                {formatTokens(def.contextWindow)} ctx · {formatTokens(def.maxOutputTokens)} out
+            </span>
+        </div>
+    );
+}
+
+function ContextMeter({
+    messages,
+    input,
+    def,
+    settings,
+}: {
+    messages: UIMessage[];
+    input: string;
+    def: ModelDef;
+    settings: GenerationSettings;
+}) {
+    const history = useMemo(() => estimateTokens(messages), [messages]);
+    const used = history + estimateTextTokens(input);
+    const budget = getContextBudget(def, settings);
+    const share = budget > 0 ? used / budget : 1;
+    const strategy = settings.contextStrategy ?? DEFAULT_CONTEXT_STRATEGY;
+
+    return (
+        <div
+            title={`About ${formatTokens(used)} of the ${formatTokens(budget)} tokens the chat may send to ${def.displayName}. Beyond that: ${contextStrategyLabels[strategy].toLowerCase()}`}
+            className="flex flex-row items-center self-center gap-2 mr-2 text-gray-500 text-xs"
+        >
+            <div className="w-16 h-2 overflow-hidden bg-gray-200 rounded-full">
+                <div
+                    className={clsx(
+                        "h-full",
+                        share >= 1 ? "bg-red-400" : share >= 0.8 ? "bg-yellow-400" : "bg-gray-400"
+                    )}
+                    style={{ width: `${Math.min(share, 1) * 100}%` }}
                 />
             </div>
+            {Math.round(share * 100)}%
         </div>
     );
 }
@@ -298,54 +804,211 @@ function ChatInput({
     models,
     model,
     setModel,
+    tools,
+    setTools,
+    setKnowledgeBase,
     input,
+    setInput,
     handleInputChange,
     handleSubmit,
+    append,
+    applyTemplate,
     status,
     stop,
+    compareModels,
+    setCompareModels,
+    compare,
+    messages,
+    settings,
 }: {
     models: ModelDefs;
     model: Model;
     setModel: (model: Model) => void;
+    tools: string[] | undefined;
+    setTools: (tools: string[]) => void;
+    setKnowledgeBase: (knowledgeBase: boolean) => void;
     input: string;
+    setInput: (input: string) => void;
     handleInputChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
-    handleSubmit: (e: React.FormEvent<HTMLFormElement>) => void;
+    handleSubmit: ReturnType<typeof useChat>["handleSubmit"];
+    append: ReturnType<typeof useChat>["append"];
+    applyTemplate: (template: PromptTemplate) => void;
     status: string;
     stop: () => void;
+    compareModels: Model[];
+    setCompareModels: (models: Model[]) => void;
+    compare: (text: string, attachments: Attachment[]) => void;
+    messages: UIMessage[];
+    settings: GenerationSettings;
 }) {
+    const comparing = compareModels.length >= 2;
+    const selectedDef = Object.values(models).flat().find((def) => def.id === model);
+    const uploads = useAttachmentUploads();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [dragging, setDragging] = useState(false);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    // `/` in an empty composer opens the prompt library; the prompt then records the template it
+    // came from
+    const [paletteOpen, setPaletteOpen] = useState(false);
+    const [template, setTemplate] = useState<TemplateAnnotation["template"]>();
+
+    const insertTemplate = (text: string, picked: PromptTemplate) => {
+        setInput(text);
+        setTemplate({ id: picked.id, name: picked.name, version: picked.version });
+        applyTemplate(picked);
+        setPaletteOpen(false);
+        inputRef.current?.focus();
+    };
+
+    const submit = (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (uploads.uploading) {
+            return;
+        }
+        setTemplate(undefined);
+
+        if (comparing) {
+            if (input.trim() || uploads.attachments.length > 0) {
+                compare(input, uploads.attachments);
+                uploads.clear();
+            }
+            return;
+        }
+
+        if (template && input.trim()) {
+            void append({
+                role: "user",
+                content: input,
+                annotations: [{ template }],
+                experimental_attachments: uploads.attachments.length > 0 ? uploads.attachments : undefined,
+            });
+            setInput("");
+        } else {
+            handleSubmit(e, {
+                experimental_attachments: uploads.attachments,
+                allowEmptySubmit: uploads.attachments.length > 0,
+            });
+        }
+        uploads.clear();
+    };
+
     return (
-        <form onSubmit={handleSubmit} className="flex flex-col flex-shrink-0 gap-2 p-2">
+        <form
+            onSubmit={submit}
+            onDragOver={(e) => {
+                if (e.dataTransfer.types.includes("Files")) {
+                    e.preventDefault();
+                    setDragging(true);
+                }
+            }}
+            onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+                    setDragging(false);
+                }
+            }}
+            onDrop={(e) => {
+                e.preventDefault();
+                setDragging(false);
+                uploads.add(Array.from(e.dataTransfer.files));
+            }}
+            className={clsx(
+                "relative flex flex-col flex-shrink-0 gap-2 p-2",
+                dragging && "outline-2 outline-dashed outline-gray-400 bg-gray-50"
+            )}
+        >
+            {paletteOpen && (
+                <PromptPalette
+                    model={model}
+                    settings={settings}
+                    onInsert={insertTemplate}
+                    onClose={() => setPaletteOpen(false)}
+                />
+            )}
+            <PendingAttachments pending={uploads.pending} modelDef={selectedDef} onRemove={uploads.remove} />
             <input
+                ref={inputRef}
                 value={input}
-                onChange={handleInputChange}
-                placeholder="sup?"
+                onChange={(e) => {
+                    if (!input && e.target.value === "/") {
+                        setPaletteOpen(true);
+                        return;
+                    }
+                    if (!e.target.value) {
+                        setTemplate(undefined);
+                    }
+                    handleInputChange(e);
+                }}
+                onPaste={(e) => {
+                    const files = Array.from(e.clipboardData.files);
+                    if (files.length > 0) {
+                        e.preventDefault();
+                        uploads.add(files);
+                    }
+                }}
+                placeholder="sup? (/ for saved prompts)"
                 className="flex-1 w-full p-2 border-2 border-gray-300 rounded-md"
             />
             <div className="flex flex-row items-end justify-end gap-2">
-                <select
-                    className="h-full p-2 border-2 border-gray-300 rounded-md"
-                    value={model}
-                    onChange={(e) => setModel(e.target.value as Model)}
+                {comparing ? (
+                    <span className="self-center mr-2 text-gray-500 text-sm">
+                        Comparing {compareModels.length} models
+                    </span>
+                ) : (
+                    <>
+                        {selectedDef && (
+                            <ContextMeter messages={messages} input={input} def={selectedDef} settings={settings} />
+                        )}
+                        {selectedDef && <ModelCapabilities def={selectedDef} />}
+                        <select
+                            className="h-full p-2 border-2 border-gray-300 rounded-md"
+                            value={model}
+                            onChange={(e) => setModel(e.target.value as Model)}
+                        >
+                            {Object.entries(models).map(([provider, defs]) => (
+                                <optgroup key={provider} label={provider}>
+                                    {defs.map((def) => (
+                                        <option key={def.id} value={def.id}>
+                                            {def.displayName}
+                                            {def.capabilities.reasoning && " 🧠"}
+                                        </option>
+                                    ))}
+                                </optgroup>
+                            ))}
+                        </select>
+                    </>
+                )}
+                <ComparePicker models={models} selected={compareModels} onChange={setCompareModels} />
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    hidden
+                    onChange={(e) => {
+                        uploads.add(Array.from(e.target.files ?? []));
+                        e.target.value = "";
+                    }}
+                />
+                <button
+                    type="button"
+                    title="Attach files"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="p-2 border-2 border-gray-300 rounded-md size-12"
                 >
-                    {Object.entries(models).map(([provider, modelMap]) => (
-                        <optgroup key={provider} label={provider}>
-                            {Object.entries(modelMap).map(([modelClass, name]) => {
-                                const providerDef = modelDefs[provider as keyof typeof modelDefs];
-                                const modelDef = providerDef?.models[modelClass as keyof typeof providerDef.models];
-                                const hasReasoning = modelDef?.reasoning;
-                                return (
-                                    <option key={modelClass} value={`${provider}:${modelClass}`}>
-                                        {provider}: {modelClass}{hasReasoning && " 🧠"}
-                                    </option>
-                                );
-                            })}
-                        </optgroup>
-                    ))}
-                </select>
+                    <FontAwesomeIcon icon={faPaperclip} />
+                </button>
+                <ToolPicker
+                    enabled={tools}
+                    disabled={!selectedDef?.capabilities.tools}
+                    onChange={setTools}
+                />
+                <KnowledgeBase enabled={!!settings.knowledgeBase} onChange={setKnowledgeBase} />
                 {status === "ready" ? (
                     <button
                         type="submit"
-                        className="p-2 border-2 border-gray-300 rounded-md size-12"
+                        title={uploads.uploading ? "Waiting for uploads" : undefined}
+                        disabled={uploads.uploading}
+                        className="p-2 border-2 border-gray-300 rounded-md size-12 disabled:opacity-30"
                     >
                         <FontAwesomeIcon icon={faPaperPlane} />
                     </button>
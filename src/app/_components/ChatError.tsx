@@ -0,0 +1,91 @@
+"use client";
+
+import {
+	faClock,
+	faRotateRight,
+	faTriangleExclamation,
+} from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { useEffect, useState } from "react";
+
+import { formatDuration, parseRateLimitError } from "~/lib/rateLimits";
+
+function useNow(intervalMs: number) {
+	const [now, setNow] = useState(() => Date.now());
+
+	useEffect(() => {
+		const interval = setInterval(() => setNow(Date.now()), intervalMs);
+		return () => clearInterval(interval);
+	}, [intervalMs]);
+
+	return now;
+}
+
+function RateLimitNotice({
+	message,
+	resetsAt,
+	retry,
+}: {
+	message: string;
+	resetsAt: string;
+	retry: () => void;
+}) {
+	const remaining = Date.parse(resetsAt) - useNow(1000);
+
+	return (
+		<div className="flex flex-row items-center gap-3 rounded-md border-2 border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800">
+			<FontAwesomeIcon icon={faClock} />
+			<span className="flex-1">
+				{message}.{" "}
+				{remaining > 0
+					? `Resets in ${formatDuration(remaining)}.`
+					: "You can send again."}
+			</span>
+			{remaining <= 0 && (
+				<button
+					type="button"
+					onClick={retry}
+					className="flex flex-row items-center gap-1 hover:text-yellow-950"
+				>
+					<FontAwesomeIcon icon={faRotateRight} /> Retry
+				</button>
+			)}
+		</div>
+	);
+}
+
+/**
+ * Why the last request failed. Rate limits count down to when the request can be sent again.
+ */
+export default function ChatError({
+	error,
+	retry,
+}: {
+	error: Error;
+	retry: () => void;
+}) {
+	const rateLimit = parseRateLimitError(error);
+	if (rateLimit) {
+		return (
+			<RateLimitNotice
+				message={rateLimit.message}
+				resetsAt={rateLimit.resetsAt}
+				retry={retry}
+			/>
+		);
+	}
+
+	return (
+		<div className="flex flex-row items-center gap-3 rounded-md border-2 border-red-300 bg-red-50 p-3 text-red-700 text-sm">
+			<FontAwesomeIcon icon={faTriangleExclamation} />
+			<span className="flex-1 break-words">{error.message}</span>
+			<button
+				type="button"
+				onClick={retry}
+				className="flex flex-row items-center gap-1 hover:text-red-900"
+			>
+				<FontAwesomeIcon icon={faRotateRight} /> Retry
+			</button>
+		</div>
+	);
+}
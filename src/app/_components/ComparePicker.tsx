@@ -0,0 +1,100 @@
+"use client";
+
+import { faTableColumns } from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import clsx from "clsx";
+import { useState } from "react";
+
+import type { Model, ModelDefs } from "~/app/api/chat/models";
+
+export const MAX_COMPARED_MODELS = 4;
+
+/**
+ * Chooses the models a prompt is sent to side by side. Compare mode is on while at least two are
+ * selected.
+ */
+export default function ComparePicker({
+	models,
+	selected,
+	onChange,
+}: {
+	models: ModelDefs;
+	selected: Model[];
+	onChange: (models: Model[]) => void;
+}) {
+	const [open, setOpen] = useState(false);
+	const active = selected.length >= 2;
+
+	const toggle = (model: Model) =>
+		onChange(
+			selected.includes(model)
+				? selected.filter((selectedModel) => selectedModel !== model)
+				: [...selected, model],
+		);
+
+	return (
+		<div
+			className="relative"
+			onBlur={(e) => {
+				if (!e.currentTarget.contains(e.relatedTarget)) {
+					setOpen(false);
+				}
+			}}
+		>
+			<button
+				type="button"
+				title="Compare models side by side"
+				onClick={() => setOpen(!open)}
+				className={clsx(
+					"flex size-12 items-center justify-center gap-1 rounded-md border-2 p-2",
+					active ? "border-blue-400 text-blue-600" : "border-gray-300",
+				)}
+			>
+				<FontAwesomeIcon icon={faTableColumns} />
+				{active && <span className="text-xs">{selected.length}</span>}
+			</button>
+			{open && (
+				<div className="absolute right-0 bottom-14 z-10 flex w-72 flex-col gap-3 rounded-md border-2 border-gray-300 bg-white p-3 text-sm">
+					<span className="text-gray-500 text-xs">
+						Send the next prompt to {MAX_COMPARED_MODELS} models at most, then
+						continue with the best answer.
+					</span>
+					{Object.entries(models).map(([provider, defs]) => (
+						<div key={provider} className="flex flex-col gap-1">
+							<span className="font-bold text-gray-500 text-xs uppercase">
+								{provider}
+							</span>
+							{defs.map((def) => (
+								<label
+									key={def.id}
+									className="flex flex-row items-center gap-2"
+								>
+									<input
+										type="checkbox"
+										checked={selected.includes(def.id)}
+										disabled={
+											!selected.includes(def.id) &&
+											selected.length >= MAX_COMPARED_MODELS
+										}
+										onChange={() => toggle(def.id)}
+									/>
+									{def.displayName}
+									{def.capabilities.reasoning && " 🧠"}
+								</label>
+							))}
+						</div>
+					))}
+					{selected.length > 0 && (
+						<button
+							type="button"
+							onClick={() => onChange([])}
+							className="self-end text-gray-500 text-xs hover:text-gray-700"
+						>
+							Stop comparing
+						</button>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import { useChat } from "@ai-sdk/react";
+import {
+	faRobot,
+	faSpinner,
+	faStop,
+	faTrophy,
+} from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import type { UIMessage } from "ai";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { Model, ModelDef } from "~/app/api/chat/models";
+import {
+	DEFAULT_MAX_STEPS,
+	type GenerationSettings,
+	supportedSettings,
+} from "~/lib/generationSettings";
+import { getMessageText, getModelAnnotation } from "~/lib/messages";
+import { getStructuredOutput } from "~/lib/structuredOutput";
+import { getMessageUsage } from "~/lib/usage";
+import ChatError from "./ChatError";
+import { MessagePart, UsageSummary } from "./MessageParts";
+import StructuredOutputView from "./StructuredOutput";
+import { useStreamCancel } from "./resumable";
+
+export type Comparison = {
+	// The conversation up to the prompt, as shown when it was sent
+	history: UIMessage[];
+	prompt: UIMessage;
+	models: Model[];
+};
+
+type CompareResult = {
+	// The column's path: the history, the prompt and its answer
+	messages: UIMessage[];
+	done: boolean;
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+function CompareColumn({
+	conversationId,
+	comparison,
+	def,
+	settings,
+	canPick,
+	pick,
+	report,
+}: {
+	conversationId: string;
+	comparison: Comparison;
+	def: ModelDef;
+	settings: GenerationSettings;
+	canPick: boolean;
+	pick: () => void;
+	report: (model: Model, result: CompareResult) => void;
+}) {
+	const [timing, setTiming] = useState<{
+		start?: number;
+		firstToken?: number;
+		end?: number;
+	}>({});
+	const { onResponse, cancel } = useStreamCancel();
+
+	const { messages, status, error, reload, stop, addToolResult } = useChat({
+		id: `${conversationId}:compare:${comparison.prompt.id}:${def.id}`,
+		initialMessages: [...comparison.history, comparison.prompt],
+		maxSteps: settings.maxSteps ?? DEFAULT_MAX_STEPS,
+		sendExtraMessageFields: true,
+		// Every column answers in the conversation itself, as a sibling of the others
+		body: {
+			id: conversationId,
+			model: def.id,
+			settings: supportedSettings(def, settings),
+		},
+		onResponse,
+		onFinish: () => setTiming((timing) => ({ ...timing, end: Date.now() })),
+	});
+
+	// Send the prompt once, when the column appears
+	const sent = useRef(false);
+	useEffect(() => {
+		if (!sent.current) {
+			sent.current = true;
+			setTiming({ start: Date.now() });
+			void reload();
+		}
+	}, [reload]);
+
+	const answer =
+		messages.at(-1)?.role === "assistant" ? messages.at(-1) : undefined;
+	const hasContent = !!answer?.parts.some((part) => part.type !== "step-start");
+	const structuredOutput = answer && getStructuredOutput(answer);
+	useEffect(() => {
+		if (hasContent) {
+			setTiming((timing) =>
+				timing.firstToken ? timing : { ...timing, firstToken: Date.now() },
+			);
+		}
+	}, [hasContent]);
+
+	const done = status === "ready" || status === "error";
+	useEffect(() => {
+		report(def.id, { messages, done });
+	}, [report, def.id, messages, done]);
+
+	const usage = answer && getMessageUsage(answer);
+	const answeredBy = answer && getModelAnnotation(answer);
+
+	return (
+		<div className="flex min-w-0 flex-col gap-3 whitespace-pre-wrap rounded-md border border-gray-200 bg-gray-100 p-3">
+			<div className="flex flex-row items-center justify-between gap-2 font-bold text-gray-600 text-sm">
+				<span className="truncate">
+					<FontAwesomeIcon icon={faRobot} /> {def.displayName}
+				</span>
+				{done ? (
+					<button
+						type="button"
+						disabled={!canPick || !answer}
+						title={
+							canPick ? "Continue with this answer" : "Wait for every answer"
+						}
+						onClick={pick}
+						className="rounded-md border-2 border-gray-300 bg-gray-200 px-3 py-1 font-normal disabled:opacity-30"
+					>
+						<FontAwesomeIcon icon={faTrophy} /> Pick
+					</button>
+				) : (
+					<button
+						type="button"
+						title="Stop"
+						onClick={() => {
+							cancel();
+							stop();
+						}}
+						className="text-gray-400 hover:text-gray-700"
+					>
+						<FontAwesomeIcon icon={faStop} />
+					</button>
+				)}
+			</div>
+			<div className="flex flex-row flex-wrap gap-x-3 text-gray-500 text-xs">
+				{timing.start && timing.firstToken && (
+					<span title="Time to first token">
+						TTFT {formatSeconds(timing.firstToken - timing.start)}
+					</span>
+				)}
+				{timing.start && timing.end && (
+					<span>Total {formatSeconds(timing.end - timing.start)}</span>
+				)}
+				{usage && <UsageSummary usage={usage} />}
+				{answeredBy && answeredBy !== def.id && (
+					<span>Answered by {answeredBy}</span>
+				)}
+			</div>
+			{hasContent && answer && structuredOutput ? (
+				<StructuredOutputView
+					text={getMessageText(answer)}
+					output={structuredOutput}
+					repair={undefined}
+				/>
+			) : hasContent && answer ? (
+				answer.parts.map((part, index) => (
+					<MessagePart
+						key={`${answer.id}-${index}`}
+						part={part}
+						numParts={answer.parts.length}
+						message={answer}
+						respond={
+							done
+								? (toolCallId, result) => addToolResult({ toolCallId, result })
+								: undefined
+						}
+					/>
+				))
+			) : (
+				!done && (
+					<div className="flex flex-row items-center gap-3 italic">
+						Thinking...
+						<FontAwesomeIcon icon={faSpinner} spin />
+					</div>
+				)
+			)}
+			{status === "error" && error && (
+				<ChatError error={error} retry={() => void reload()} />
+			)}
+		</div>
+	);
+}
+
+/**
+ * One prompt answered by several models side by side. Each answer is saved as a sibling branch of
+ * the conversation; picking one continues the conversation from it.
+ */
+export default function CompareView({
+	conversationId,
+	comparison,
+	models,
+	settings,
+	onPick,
+	onCancel,
+}: {
+	conversationId: string;
+	comparison: Comparison;
+	models: ModelDef[];
+	settings: GenerationSettings;
+	onPick: (winner: UIMessage[], paths: UIMessage[][]) => void;
+	onCancel: (paths: UIMessage[][]) => void;
+}) {
+	const [results, setResults] = useState<Partial<Record<Model, CompareResult>>>(
+		{},
+	);
+	const report = useCallback(
+		(model: Model, result: CompareResult) =>
+			setResults((results) => ({ ...results, [model]: result })),
+		[],
+	);
+
+	const defs = comparison.models
+		.map((model) => models.find((def) => def.id === model))
+		.filter((def) => def !== undefined);
+	const paths = Object.values(results)
+		.filter((result) => result !== undefined)
+		.map((result) => result.messages);
+	const allDone = defs.every((def) => results[def.id]?.done);
+
+	return (
+		<div className="flex flex-col gap-4 px-4 pt-4">
+			<div
+				className="grid gap-4"
+				style={{
+					gridTemplateColumns: `repeat(${defs.length}, minmax(0, 1fr))`,
+				}}
+			>
+				{defs.map((def) => (
+					<CompareColumn
+						key={def.id}
+						conversationId={conversationId}
+						comparison={comparison}
+						def={def}
+						settings={settings}
+						canPick={allDone}
+						pick={() => onPick(results[def.id]?.messages ?? [], paths)}
+						report={report}
+					/>
+				))}
+			</div>
+			<div className="flex flex-row items-center justify-center gap-3 text-gray-500 text-sm">
+				{allDone
+					? "Pick the answer to continue with"
+					: "Waiting for every answer..."}
+				<button
+					type="button"
+					disabled={!allDone}
+					title="Keep the answers as branches without picking one"
+					onClick={() => onCancel(paths)}
+					className="rounded-md border-2 border-gray-300 px-3 py-1 disabled:opacity-30"
+				>
+					Cancel
+				</button>
+			</div>
+		</div>
+	);
+}
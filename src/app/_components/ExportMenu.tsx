@@ -0,0 +1,114 @@
+"use client";
+
+import { faDownload, faSpinner } from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import clsx from "clsx";
+import { useState } from "react";
+
+import type { ExportFormat } from "~/lib/conversationExport";
+import { api } from "~/trpc/react";
+
+const formatLabels: Record<ExportFormat, string> = {
+	markdown: "Markdown",
+	json: "JSON (all branches, lossless)",
+	"openai-chat": "OpenAI chat completions payload",
+	"openai-responses": "OpenAI responses payload",
+	anthropic: "Anthropic messages payload",
+	reasoning: "Reasoning traces (all branches, provider-neutral)",
+};
+
+/**
+ * Saves `content` as a file, through the browser's download.
+ */
+export function download(
+	filename: string,
+	contentType: string,
+	content: string,
+) {
+	const url = URL.createObjectURL(new Blob([content], { type: contentType }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = filename;
+	link.click();
+	URL.revokeObjectURL(url);
+}
+
+/**
+ * Downloads the conversation in one of the export formats.
+ */
+export default function ExportMenu({
+	conversationId,
+	disabled,
+	className,
+}: {
+	conversationId: string;
+	disabled?: boolean;
+	className?: string;
+}) {
+	const utils = api.useUtils();
+	const [open, setOpen] = useState(false);
+	const [pending, setPending] = useState<ExportFormat>();
+	const [error, setError] = useState<string>();
+
+	const exportAs = async (format: ExportFormat) => {
+		setPending(format);
+		setError(undefined);
+		try {
+			const file = await utils.chat.export.fetch({
+				id: conversationId,
+				format,
+			});
+			download(file.filename, file.contentType, file.content);
+			setOpen(false);
+		} catch (exportError) {
+			setError(
+				exportError instanceof Error
+					? exportError.message
+					: String(exportError),
+			);
+		} finally {
+			setPending(undefined);
+		}
+	};
+
+	return (
+		<div
+			className={clsx("text-left font-normal text-base", className)}
+			onBlur={(e) => {
+				if (!e.currentTarget.contains(e.relatedTarget)) {
+					setOpen(false);
+				}
+			}}
+		>
+			<button
+				type="button"
+				title={disabled ? "Send a message first" : "Export"}
+				disabled={disabled}
+				onClick={() => setOpen(!open)}
+				className={clsx(
+					"text-lg hover:text-gray-700 disabled:opacity-30",
+					open ? "text-gray-700" : "text-gray-400",
+				)}
+			>
+				<FontAwesomeIcon icon={faDownload} />
+			</button>
+			{open && !disabled && (
+				<div className="absolute top-10 right-0 z-10 flex w-72 flex-col gap-1 rounded-md border-2 border-gray-300 bg-white p-2 text-gray-600 text-sm">
+					{Object.entries(formatLabels).map(([format, label]) => (
+						<button
+							key={format}
+							type="button"
+							disabled={pending !== undefined}
+							onClick={() => exportAs(format as ExportFormat)}
+							className="flex flex-row items-center justify-between rounded-md p-2 text-left hover:bg-gray-100 disabled:opacity-50"
+						>
+							{label}
+							{pending === format && <FontAwesomeIcon icon={faSpinner} spin />}
+						</button>
+					))}
+					{error && <span className="p-2 text-red-600 text-xs">{error}</span>}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import {
+	faArrowsRotate,
+	faBook,
+	faSpinner,
+	faTrash,
+	faUpload,
+} from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import clsx from "clsx";
+import { useRef, useState } from "react";
+
+import {
+	KNOWLEDGE_FILE_EXTENSIONS,
+	type KnowledgeSource,
+} from "~/lib/knowledge";
+import type { KnowledgeDocument, SyncResult } from "~/server/knowledge";
+import { api } from "~/trpc/react";
+
+async function upload(file: File): Promise<KnowledgeDocument> {
+	const form = new FormData();
+	form.append("file", file);
+
+	const response = await fetch("/api/knowledge", {
+		method: "POST",
+		body: form,
+	});
+	if (!response.ok) {
+		throw new Error(await response.text());
+	}
+	return (await response.json()) as KnowledgeDocument;
+}
+
+const syncSummary = (result: SyncResult) =>
+	[
+		`${result.added} added`,
+		`${result.updated} updated`,
+		`${result.removed} removed`,
+		result.reembedded > 0 && `${result.reembedded} passages re-embedded`,
+	]
+		.filter(Boolean)
+		.join(", ");
+
+/**
+ * Whether answers in this conversation draw on the knowledge base, and the documents in it: the
+ * user's uploads and the shared files of the knowledge directories.
+ */
+export default function KnowledgeBase({
+	enabled,
+	onChange,
+}: {
+	enabled: boolean;
+	onChange: (enabled: boolean) => void;
+}) {
+	const [open, setOpen] = useState(false);
+	const list = api.knowledge.list.useQuery(undefined, { enabled: open });
+	const utils = api.useUtils();
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const [uploading, setUploading] = useState(false);
+	const [error, setError] = useState<string>();
+
+	const remove = api.knowledge.delete.useMutation({
+		onSuccess: () => utils.knowledge.list.invalidate(),
+	});
+	const sync = api.knowledge.sync.useMutation({
+		onSuccess: () => utils.knowledge.list.invalidate(),
+	});
+
+	const add = async (files: File[]) => {
+		setUploading(true);
+		setError(undefined);
+		const failed: string[] = [];
+		for (const file of files) {
+			try {
+				await upload(file);
+			} catch (uploadError) {
+				failed.push(
+					`${file.name}: ${uploadError instanceof Error ? uploadError.message : String(uploadError)}`,
+				);
+			}
+		}
+		setError(failed.length > 0 ? failed.join("\n") : undefined);
+		setUploading(false);
+		await utils.knowledge.list.invalidate();
+	};
+
+	return (
+		<div
+			className="relative"
+			onBlur={(e) => {
+				if (!e.currentTarget.contains(e.relatedTarget)) {
+					setOpen(false);
+				}
+			}}
+		>
+			<button
+				type="button"
+				title="Knowledge base"
+				onClick={() => setOpen(!open)}
+				className={clsx(
+					"flex size-12 items-center justify-center rounded-md border-2 p-2",
+					enabled ? "border-blue-400 text-blue-600" : "border-gray-300",
+				)}
+			>
+				<FontAwesomeIcon icon={faBook} />
+			</button>
+			{open && (
+				<div className="absolute right-0 bottom-14 z-10 flex w-80 flex-col gap-3 rounded-md border-2 border-gray-300 bg-white p-3 text-sm">
+					<label className="flex flex-row items-center gap-2">
+						<input
+							type="checkbox"
+							checked={enabled}
+							onChange={() => onChange(!enabled)}
+						/>
+						Answer from the knowledge base
+					</label>
+					<div className="flex flex-col gap-1">
+						<span className="font-bold text-gray-500 text-xs uppercase">
+							Documents
+						</span>
+						{list.isPending ? (
+							<FontAwesomeIcon icon={faSpinner} spin />
+						) : list.data?.documents.length ? (
+							<ul className="flex max-h-60 flex-col gap-1 overflow-y-auto">
+								{list.data.documents.map((document) => (
+									<li
+										key={document.id}
+										className="flex flex-row items-center gap-2"
+									>
+										<a
+											href={document.url}
+											target="_blank"
+											rel="noreferrer"
+											className="flex-1 truncate hover:underline"
+										>
+											{document.name}
+										</a>
+										{document.shared && (
+											<span className="rounded-md bg-gray-200 px-1 text-gray-500 text-xs">
+												shared
+											</span>
+										)}
+										<span title="Passages" className="text-gray-400 text-xs">
+											{document.chunks}
+										</span>
+										{!document.shared && (
+											<button
+												type="button"
+												title="Remove from the knowledge base"
+												disabled={remove.isPending}
+												onClick={() => remove.mutate({ id: document.id })}
+												className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+											>
+												<FontAwesomeIcon icon={faTrash} />
+											</button>
+										)}
+									</li>
+								))}
+							</ul>
+						) : (
+							<span className="text-gray-400 italic">No documents yet</span>
+						)}
+					</div>
+					<input
+						ref={fileInputRef}
+						type="file"
+						multiple
+						hidden
+						accept={KNOWLEDGE_FILE_EXTENSIONS.join(",")}
+						onChange={(e) => {
+							void add(Array.from(e.target.files ?? []));
+							e.target.value = "";
+						}}
+					/>
+					<div className="flex flex-row gap-2">
+						<button
+							type="button"
+							disabled={uploading}
+							onClick={() => fileInputRef.current?.click()}
+							className="rounded-md border-2 border-gray-300 px-2 py-1 disabled:opacity-30"
+						>
+							<FontAwesomeIcon
+								icon={uploading ? faSpinner : faUpload}
+								spin={uploading}
+							/>{" "}
+							Add files
+						</button>
+						{list.data?.canSync && (
+							<button
+								type="button"
+								title="Index the knowledge directories again"
+								disabled={sync.isPending}
+								onClick={() => sync.mutate()}
+								className="rounded-md border-2 border-gray-300 px-2 py-1 disabled:opacity-30"
+							>
+								<FontAwesomeIcon icon={faArrowsRotate} spin={sync.isPending} />{" "}
+								Sync
+							</button>
+						)}
+					</div>
+					<span className="text-gray-400 text-xs">
+						Markdown, text and PDF files
+					</span>
+					{sync.data && (
+						<div className="text-gray-500 text-xs">
+							{syncSummary(sync.data)}
+							{sync.data.errors.map((syncError) => (
+								<div key={syncError.path} className="text-red-600">
+									{syncError.path}: {syncError.error}
+								</div>
+							))}
+						</div>
+					)}
+					{(error ?? sync.error ?? remove.error) && (
+						<div className="whitespace-pre-wrap text-red-600 text-xs">
+							{error ?? sync.error?.message ?? remove.error?.message}
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
+
+/**
+ * The passages an answer was given with, by the numbers it cites them by. Each opens to the
+ * passage itself.
+ */
+export function KnowledgeSources({ sources }: { sources: KnowledgeSource[] }) {
+	const [shown, setShown] = useState<number>();
+	const source = sources.find((source) => source.number === shown);
+
+	return (
+		<div className="flex flex-col gap-2 whitespace-normal text-sm">
+			<div className="flex flex-row flex-wrap gap-2">
+				{sources.map((source) => (
+					<button
+						key={source.number}
+						type="button"
+						title={`${Math.round(source.score * 100)}% similar to the prompt`}
+						onClick={() =>
+							setShown(shown === source.number ? undefined : source.number)
+						}
+						className={clsx(
+							"max-w-full truncate rounded-md border-1 px-2 py-1 text-left text-xs",
+							shown === source.number
+								? "border-blue-400 bg-blue-50"
+								: "border-gray-300 bg-gray-200 text-gray-600 hover:border-gray-400",
+						)}
+					>
+						[{source.number}]{" "}
+						{[source.documentName, source.heading].filter(Boolean).join(" › ")}
+					</button>
+				))}
+			</div>
+			{source && (
+				<div className="flex flex-col gap-1 rounded-md border-2 border-gray-200 bg-white p-2 text-xs">
+					<div className="whitespace-pre-wrap">{source.content}</div>
+					{source.url && (
+						<a
+							href={source.url}
+							target="_blank"
+							rel="noreferrer"
+							className="self-start text-blue-600 hover:underline"
+						>
+							Open document
+						</a>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
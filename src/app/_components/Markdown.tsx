@@ -0,0 +1,101 @@
+"use client";
+
+import "highlight.js/styles/github.css";
+import "katex/dist/katex.min.css";
+
+import { faCheck, faCopy } from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import clsx from "clsx";
+import { memo, useMemo, useRef, useState } from "react";
+import ReactMarkdown, { type Components, type Options } from "react-markdown";
+import rehypeHighlight from "rehype-highlight";
+import rehypeKatex from "rehype-katex";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+
+import { normalizeMathDelimiters, splitMarkdownBlocks } from "~/lib/markdown";
+
+function CodeBlock({
+	node: _node,
+	children,
+	...props
+}: React.ComponentProps<"pre"> & { node?: unknown }) {
+	const ref = useRef<HTMLPreElement>(null);
+	const [copied, setCopied] = useState(false);
+
+	const copy = async () => {
+		await navigator.clipboard.writeText(ref.current?.innerText ?? "");
+		setCopied(true);
+		setTimeout(() => setCopied(false), 1500);
+	};
+
+	return (
+		<div className="group relative">
+			<pre ref={ref} {...props}>
+				{children}
+			</pre>
+			<button
+				type="button"
+				title="Copy"
+				onClick={copy}
+				className="absolute top-2 right-2 rounded-md border border-gray-300 bg-white px-2 py-1 text-gray-500 text-xs opacity-0 transition-opacity hover:text-gray-700 group-hover:opacity-100"
+			>
+				<FontAwesomeIcon icon={copied ? faCheck : faCopy} />
+			</button>
+		</div>
+	);
+}
+
+const components: Components = {
+	pre: CodeBlock,
+	a: ({ node: _node, ...props }) => (
+		<a {...props} target="_blank" rel="noreferrer" />
+	),
+};
+
+const remarkPlugins: Options["remarkPlugins"] = [
+	remarkGfm,
+	[remarkMath, { singleDollarTextMath: false }],
+];
+
+const rehypePlugins: Options["rehypePlugins"] = [
+	// Half-typed formulas mid-stream shouldn't blow up the message
+	[rehypeKatex, { throwOnError: false, errorColor: "#6b7280" }],
+	rehypeHighlight,
+];
+
+const MarkdownBlock = memo(function MarkdownBlock({ text }: { text: string }) {
+	return (
+		<ReactMarkdown
+			remarkPlugins={remarkPlugins}
+			rehypePlugins={rehypePlugins}
+			components={components}
+		>
+			{normalizeMathDelimiters(text)}
+		</ReactMarkdown>
+	);
+});
+
+/**
+ * Renders model output as GitHub-flavored Markdown with highlighted code and KaTeX math. The text
+ * is rendered block by block, so while an answer streams in only its last block is re-parsed.
+ */
+export default function Markdown({
+	text,
+	className,
+}: {
+	text: string;
+	className?: string;
+}) {
+	const blocks = useMemo(() => splitMarkdownBlocks(text), [text]);
+
+	return (
+		<div className={clsx("markdown", className)}>
+			{blocks.map((block, index) => (
+				// Blocks only ever grow at the end, so their index is stable
+				// biome-ignore lint/suspicious/noArrayIndexKey: see above
+				<MarkdownBlock key={index} text={block} />
+			))}
+		</div>
+	);
+}
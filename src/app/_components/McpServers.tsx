@@ -0,0 +1,90 @@
+"use client";
+
+import { faRotateRight } from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import clsx from "clsx";
+
+import type { McpServerStatus } from "~/app/api/chat/mcp";
+import { api } from "~/trpc/react";
+
+const stateColors: Record<McpServerStatus["state"], string> = {
+	disabled: "bg-gray-300",
+	connecting: "bg-yellow-400",
+	connected: "bg-green-500",
+	failed: "bg-red-500",
+};
+
+/**
+ * Status of the configured MCP servers, with the tools and resources each one offers.
+ */
+export default function McpServers() {
+	const status = api.mcp.status.useQuery();
+	const utils = api.useUtils();
+	const reconnect = api.mcp.reconnect.useMutation({
+		onSettled: () => {
+			void utils.mcp.status.invalidate();
+			void utils.tool.list.invalidate();
+		},
+	});
+
+	if (!status.data) {
+		return null;
+	}
+
+	const { servers, configError } = status.data;
+	if (servers.length === 0 && !configError) {
+		return null;
+	}
+
+	return (
+		<div className="flex flex-col gap-2 border-gray-200 border-t pt-2">
+			<span className="font-bold text-gray-500 text-xs uppercase">
+				MCP servers
+			</span>
+			{configError && (
+				<span className="text-red-600 text-xs">{configError}</span>
+			)}
+			{servers.map((server) => (
+				<div key={server.name} className="flex flex-col gap-1 text-xs">
+					<div className="flex flex-row items-center gap-2">
+						<span
+							title={server.state}
+							className={clsx("size-2 rounded-full", stateColors[server.state])}
+						/>
+						<span className="flex-1 font-mono">{server.name}</span>
+						<span className="text-gray-400">{server.transport}</span>
+						{server.state !== "disabled" && (
+							<button
+								type="button"
+								title="Reconnect"
+								disabled={reconnect.isPending}
+								onClick={() => reconnect.mutate({ name: server.name })}
+								className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+							>
+								<FontAwesomeIcon
+									icon={faRotateRight}
+									spin={
+										reconnect.isPending &&
+										reconnect.variables?.name === server.name
+									}
+								/>
+							</button>
+						)}
+					</div>
+					{server.error && <span className="text-red-600">{server.error}</span>}
+					{server.state === "connected" && (
+						<span
+							className="text-gray-400"
+							title={[
+								...server.tools.map((tool) => tool.name),
+								...server.resources.map((resource) => resource.uri),
+							].join("\n")}
+						>
+							{server.tools.length} tools · {server.resources.length} resources
+						</span>
+					)}
+				</div>
+			))}
+		</div>
+	);
+}
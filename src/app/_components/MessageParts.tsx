@@ -0,0 +1,305 @@
+"use client";
+
+import {
+	faCheck,
+	faChevronDown,
+	faChevronRight,
+	faLock,
+	faPen,
+	faXmark,
+} from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import type { ToolInvocation, UIMessage } from "ai";
+import clsx from "clsx";
+import { useState } from "react";
+
+import {
+	type ToolApproval,
+	type ToolApprovalDecision,
+	getToolApproval,
+	isToolApprovalDecision,
+} from "~/lib/toolApproval";
+import { type MessageUsage, formatCost, formatTokens } from "~/lib/usage";
+import { api } from "~/trpc/react";
+import Markdown from "./Markdown";
+
+export type RespondToTool = (
+	toolCallId: string,
+	decision: ToolApprovalDecision,
+) => void;
+
+function ToolApprovalControls({
+	invocation,
+	respond,
+}: {
+	invocation: ToolInvocation;
+	respond: RespondToTool;
+}) {
+	const [editing, setEditing] = useState(false);
+	const [argsText, setArgsText] = useState(() =>
+		JSON.stringify(invocation.args, null, 2),
+	);
+	const [error, setError] = useState<string>();
+
+	const approveEdited = () => {
+		try {
+			respond(invocation.toolCallId, {
+				toolApproval: "approved",
+				args: JSON.parse(argsText),
+			});
+		} catch {
+			setError("The arguments must be valid JSON");
+		}
+	};
+
+	return (
+		<div className="flex flex-col gap-2 not-italic">
+			{editing && (
+				<>
+					<textarea
+						value={argsText}
+						onChange={(e) => {
+							setArgsText(e.target.value);
+							setError(undefined);
+						}}
+						rows={Math.min(10, argsText.split("\n").length + 1)}
+						className="w-full rounded-md border-2 border-gray-300 bg-white p-2 font-mono text-sm"
+					/>
+					{error && <span className="text-red-600 text-xs">{error}</span>}
+				</>
+			)}
+			<div className="flex flex-row gap-2 text-sm">
+				<button
+					type="button"
+					onClick={() =>
+						editing
+							? approveEdited()
+							: respond(invocation.toolCallId, { toolApproval: "approved" })
+					}
+					className="rounded-md border-2 border-gray-300 bg-gray-200 px-3 py-1"
+				>
+					<FontAwesomeIcon icon={faCheck} /> Approve
+				</button>
+				<button
+					type="button"
+					onClick={() =>
+						respond(invocation.toolCallId, { toolApproval: "denied" })
+					}
+					className="rounded-md border-2 border-gray-300 px-3 py-1"
+				>
+					<FontAwesomeIcon icon={faXmark} /> Deny
+				</button>
+				{!editing && (
+					<button
+						type="button"
+						onClick={() => setEditing(true)}
+						className="rounded-md border-2 border-gray-300 px-3 py-1"
+					>
+						<FontAwesomeIcon icon={faPen} /> Edit arguments
+					</button>
+				)}
+			</div>
+		</div>
+	);
+}
+
+function ToolCall({
+	invocation,
+	approval,
+	respond,
+}: {
+	invocation: ToolInvocation;
+	approval: ToolApproval | undefined;
+	// Only set while the call can still be decided on
+	respond: RespondToTool | undefined;
+}) {
+	const [tools] = api.tool.list.useSuspenseQuery();
+	const needsApproval = tools.some(
+		(tool) => tool.name === invocation.toolName && tool.requiresConfirmation,
+	);
+
+	return (
+		<div className="flex flex-col gap-2">
+			<div className="italic">
+				{invocation.state === "result" || !needsApproval
+					? "Called"
+					: "Wants to call"}{" "}
+				tool <span className="font-bold not-italic">{invocation.toolName}</span>{" "}
+				with{" "}
+				<span className="font-bold not-italic">
+					{Object.entries(invocation.args ?? {})
+						.map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+						.join(", ")}
+				</span>
+			</div>
+			{approval && (
+				<div
+					className={clsx(
+						"text-xs",
+						approval.approved ? "text-green-700" : "text-red-600",
+					)}
+				>
+					<FontAwesomeIcon icon={approval.approved ? faCheck : faXmark} />{" "}
+					{approval.approved ? "Approved" : "Denied"}
+					{approval.args !== undefined && " with edited arguments"}
+				</div>
+			)}
+			{invocation.state !== "result" ? (
+				needsApproval ? (
+					respond ? (
+						<ToolApprovalControls invocation={invocation} respond={respond} />
+					) : (
+						<div className="italic">Awaiting approval</div>
+					)
+				) : (
+					<div className="italic">...</div>
+				)
+			) : isToolApprovalDecision(invocation.result) ? (
+				<div className="italic">
+					{invocation.result.toolApproval === "approved"
+						? "Running..."
+						: "Denied"}
+				</div>
+			) : (
+				<div className="italic">
+					Result:{" "}
+					<span className="font-bold not-italic">
+						{JSON.stringify(invocation.result)}
+					</span>
+				</div>
+			)}
+		</div>
+	);
+}
+
+export function UsageSummary({ usage }: { usage: MessageUsage }) {
+	const details = [
+		`${usage.promptTokens} prompt tokens (${usage.cachedPromptTokens} cached)`,
+		`${usage.completionTokens} completion tokens (${usage.reasoningTokens} reasoning)`,
+		`${formatCost(usage.cost)}`,
+	];
+
+	return (
+		<span title={details.join("\n")}>
+			{formatTokens(usage.promptTokens + usage.completionTokens)} tokens ·{" "}
+			{formatCost(usage.cost)}
+		</span>
+	);
+}
+
+type ReasoningUIPart = {
+	type: "reasoning";
+	/**
+	 * The reasoning text.
+	 */
+	reasoning: string;
+	details: Array<
+		| {
+				type: "text";
+				text: string;
+				signature?: string;
+		  }
+		| {
+				type: "redacted";
+				data: string;
+		  }
+	>;
+};
+function Reasoning({
+	details,
+	startExpanded,
+}: Pick<ReasoningUIPart, "details"> & { startExpanded: boolean }) {
+	const [reasoningExpanded, setReasoningExpanded] = useState(false);
+
+	const [userExpanded, setUserExpanded] = useState(false);
+
+	const shouldBeExpanded = userExpanded ? reasoningExpanded : startExpanded;
+
+	return (
+		<div className="rounded-md border-2 border-gray-300 bg-gray-200 p-2 italic">
+			{/* biome-ignore lint/a11y/useKeyWithClickEvents: <explanation> */}
+			<div
+				className="mb-2 flex w-full cursor-pointer flex-row items-center gap-2 font-bold text-sm"
+				onClick={() => {
+					setUserExpanded(true);
+					setReasoningExpanded(!reasoningExpanded);
+				}}
+			>
+				Reasoning
+				{shouldBeExpanded ? (
+					<FontAwesomeIcon icon={faChevronDown} />
+				) : (
+					<FontAwesomeIcon icon={faChevronRight} />
+				)}
+			</div>
+			{shouldBeExpanded &&
+				details.map((detail, index) =>
+					detail.type === "text" ? (
+						// biome-ignore lint/suspicious/noArrayIndexKey: details only ever grow at the end
+						<Markdown key={index} className="p-2" text={detail.text} />
+					) : (
+						// Encrypted by the provider, which is all there is to show
+						// biome-ignore lint/suspicious/noArrayIndexKey: details only ever grow at the end
+						<div key={index} className="p-2 text-gray-500 text-sm">
+							<FontAwesomeIcon icon={faLock} /> Redacted by the provider
+						</div>
+					),
+				)}
+		</div>
+	);
+}
+
+export function MessagePart({
+	part,
+	numParts,
+	message,
+	respond,
+}: {
+	part: UIMessage["parts"][number];
+	numParts: number;
+	message: UIMessage;
+	respond: RespondToTool | undefined;
+}) {
+	if (part.type === "step-start") {
+		return;
+	}
+
+	const partClass = clsx({
+		"msg-part-text": part.type === "text",
+		"msg-part-reasoning": part.type === "reasoning",
+		"msg-part-tool": part.type === "tool-invocation",
+	});
+
+	return (
+		<div className={`whitespace-pre-wrap ${partClass}`}>
+			{(() => {
+				switch (part.type) {
+					case "text":
+						// What the user typed is shown as typed
+						return message.role === "user" ? (
+							part.text
+						) : (
+							<Markdown text={part.text} />
+						);
+					case "tool-invocation":
+						return (
+							<ToolCall
+								invocation={part.toolInvocation}
+								approval={getToolApproval(
+									message,
+									part.toolInvocation.toolCallId,
+								)}
+								respond={respond}
+							/>
+						);
+					case "reasoning":
+						return (
+							<Reasoning startExpanded={numParts <= 2} details={part.details} />
+						);
+					default:
+						return JSON.stringify(part);
+				}
+			})()}
+		</div>
+	);
+}
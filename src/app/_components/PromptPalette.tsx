@@ -0,0 +1,435 @@
+"use client";
+
+import {
+	faPen,
+	faPlus,
+	faShareNodes,
+	faTrash,
+} from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import clsx from "clsx";
+import { useState } from "react";
+
+import type { GenerationSettings } from "~/lib/generationSettings";
+import {
+	MAX_TEMPLATE_LENGTH,
+	type PromptTemplate,
+	getTemplateVariables,
+	renderTemplate,
+} from "~/lib/promptTemplates";
+import { api } from "~/trpc/react";
+
+const inputClass = "w-full rounded-md border-2 border-gray-300 bg-white p-2";
+
+const matches = (template: PromptTemplate, query: string) =>
+	`${template.name} ${template.description ?? ""}`
+		.toLowerCase()
+		.includes(query.trim().toLowerCase());
+
+/**
+ * Asks for the values of a template's variables, then hands over the filled in prompt.
+ */
+function VariablesForm({
+	template,
+	variables,
+	onInsert,
+	onBack,
+}: {
+	template: PromptTemplate;
+	variables: string[];
+	onInsert: (text: string) => void;
+	onBack: () => void;
+}) {
+	const [values, setValues] = useState<Record<string, string>>({});
+
+	return (
+		<form
+			className="flex flex-col gap-2"
+			onSubmit={(e) => {
+				e.preventDefault();
+				onInsert(renderTemplate(template.body, values));
+			}}
+			onKeyDown={(e) => {
+				if (e.key === "Escape") {
+					onBack();
+				}
+			}}
+		>
+			<span className="font-bold text-gray-600">{template.name}</span>
+			{variables.map((variable, index) => (
+				<label key={variable} className="flex flex-col gap-1 text-gray-600">
+					<span className="font-mono text-xs">{variable}</span>
+					<input
+						// biome-ignore lint/a11y/noAutofocus: the palette was just opened from the keyboard
+						autoFocus={index === 0}
+						value={values[variable] ?? ""}
+						onChange={(e) =>
+							setValues({ ...values, [variable]: e.target.value })
+						}
+						className={inputClass}
+					/>
+				</label>
+			))}
+			<div className="flex flex-row justify-end gap-2">
+				<button
+					type="button"
+					onClick={onBack}
+					className="px-3 py-1 text-gray-500 hover:text-gray-700"
+				>
+					Back
+				</button>
+				<button
+					type="submit"
+					className="rounded-md border-2 border-gray-300 px-3 py-1"
+				>
+					Insert
+				</button>
+			</div>
+		</form>
+	);
+}
+
+/**
+ * Creates a template, or edits one: a change to its text, model or settings saves a new version,
+ * and older ones can be restored from the history.
+ */
+function TemplateEditor({
+	template,
+	model,
+	settings,
+	onDone,
+}: {
+	// Edited, or a new one when undefined
+	template: PromptTemplate | undefined;
+	// The conversation's, offered as the template's defaults
+	model: string;
+	settings: GenerationSettings;
+	onDone: () => void;
+}) {
+	const utils = api.useUtils();
+	const [name, setName] = useState(template?.name ?? "");
+	const [description, setDescription] = useState(template?.description ?? "");
+	const [body, setBody] = useState(template?.body ?? "");
+	const [shared, setShared] = useState(template?.shared ?? false);
+	const [defaults, setDefaults] = useState<{
+		model: string | null;
+		settings: GenerationSettings | null;
+	}>({
+		model: template?.model ?? null,
+		settings: template?.settings ?? null,
+	});
+
+	const versions = api.prompt.versions.useQuery(
+		{ id: template?.id ?? "" },
+		{ enabled: !!template },
+	);
+	const onSuccess = () => {
+		void utils.prompt.list.invalidate();
+		void utils.prompt.versions.invalidate();
+		onDone();
+	};
+	const create = api.prompt.create.useMutation({ onSuccess });
+	const update = api.prompt.update.useMutation({ onSuccess });
+	const error = create.error ?? update.error;
+
+	const save = () => {
+		const input = {
+			name,
+			description: description.trim() || null,
+			body,
+			shared,
+			...defaults,
+		};
+		if (template) {
+			update.mutate({ id: template.id, ...input });
+		} else {
+			create.mutate(input);
+		}
+	};
+
+	return (
+		<form
+			className="flex flex-col gap-2 text-gray-600"
+			onSubmit={(e) => {
+				e.preventDefault();
+				save();
+			}}
+		>
+			<div className="flex flex-row items-center justify-between gap-2">
+				<span className="font-bold">
+					{template ? `Edit ${template.name}` : "New template"}
+				</span>
+				{template && versions.data && versions.data.length > 1 && (
+					<select
+						value=""
+						title="Load the text of an older version; saving makes it the latest"
+						onChange={(e) => {
+							const version = versions.data.find(
+								(version) => version.version === Number(e.target.value),
+							);
+							if (version) {
+								setBody(version.body);
+								setDefaults({
+									model: version.model,
+									settings: version.settings,
+								});
+							}
+						}}
+						className="rounded-md border-2 border-gray-300 p-1 text-xs"
+					>
+						<option value="">Version {template.version}</option>
+						{versions.data.map((version) => (
+							<option key={version.version} value={version.version}>
+								v{version.version} · {version.createdAt.toLocaleString()}
+							</option>
+						))}
+					</select>
+				)}
+			</div>
+			<input
+				value={name}
+				maxLength={128}
+				placeholder="Name"
+				onChange={(e) => setName(e.target.value)}
+				className={inputClass}
+			/>
+			<input
+				value={description}
+				maxLength={512}
+				placeholder="Description (optional)"
+				onChange={(e) => setDescription(e.target.value)}
+				className={inputClass}
+			/>
+			<textarea
+				value={body}
+				rows={6}
+				maxLength={MAX_TEMPLATE_LENGTH}
+				placeholder="Review this code for bugs:&#10;&#10;{{code}}"
+				onChange={(e) => setBody(e.target.value)}
+				className={`${inputClass} font-mono text-xs`}
+			/>
+			<span className="text-gray-400 text-xs">
+				Variables:{" "}
+				{getTemplateVariables(body)
+					.map((variable) => `{{${variable}}}`)
+					.join(", ") || "none"}
+			</span>
+			<label className="flex flex-row items-center gap-2">
+				<input
+					type="checkbox"
+					checked={defaults.model !== null}
+					onChange={(e) =>
+						setDefaults(
+							e.target.checked
+								? { model, settings }
+								: { model: null, settings: null },
+						)
+					}
+				/>
+				Send with {defaults.model ?? model} and{" "}
+				{defaults.model ? "the saved" : "the current"} settings
+			</label>
+			<label className="flex flex-row items-center gap-2">
+				<input
+					type="checkbox"
+					checked={shared}
+					onChange={(e) => setShared(e.target.checked)}
+				/>
+				Share with everyone
+			</label>
+			{error && <span className="text-red-600 text-xs">{error.message}</span>}
+			<div className="flex flex-row justify-end gap-2">
+				<button
+					type="button"
+					onClick={onDone}
+					className="px-3 py-1 text-gray-500 hover:text-gray-700"
+				>
+					Cancel
+				</button>
+				<button
+					type="submit"
+					disabled={!name.trim() || !body.trim()}
+					className="rounded-md border-2 border-gray-300 px-3 py-1 disabled:opacity-30"
+				>
+					Save
+				</button>
+			</div>
+		</form>
+	);
+}
+
+type View =
+	| { type: "list" }
+	| { type: "fill"; template: PromptTemplate; variables: string[] }
+	| { type: "edit"; template?: PromptTemplate };
+
+/**
+ * The prompt library, opened by typing `/` in an empty composer. Picking a template asks for its
+ * variables, if it has any, and inserts the prompt.
+ */
+export default function PromptPalette({
+	model,
+	settings,
+	onInsert,
+	onClose,
+}: {
+	model: string;
+	settings: GenerationSettings;
+	onInsert: (text: string, template: PromptTemplate) => void;
+	onClose: () => void;
+}) {
+	const utils = api.useUtils();
+	const templates = api.prompt.list.useQuery();
+	const remove = api.prompt.delete.useMutation({
+		onSuccess: () => utils.prompt.list.invalidate(),
+	});
+
+	const [view, setView] = useState<View>({ type: "list" });
+	const [query, setQuery] = useState("");
+	const [highlighted, setHighlighted] = useState(0);
+
+	const found = (templates.data ?? []).filter((template) =>
+		matches(template, query),
+	);
+
+	const pick = (template: PromptTemplate) => {
+		const variables = getTemplateVariables(template.body);
+		if (variables.length > 0) {
+			setView({ type: "fill", template, variables });
+		} else {
+			onInsert(template.body, template);
+		}
+	};
+
+	return (
+		<div
+			className="absolute right-0 bottom-full left-0 z-10 mb-2 flex max-h-96 flex-col gap-2 overflow-y-auto rounded-md border-2 border-gray-300 bg-white p-3 text-sm"
+			onBlur={(e) => {
+				if (!e.currentTarget.contains(e.relatedTarget)) {
+					onClose();
+				}
+			}}
+		>
+			{view.type === "fill" && (
+				<VariablesForm
+					template={view.template}
+					variables={view.variables}
+					onInsert={(text) => onInsert(text, view.template)}
+					onBack={() => setView({ type: "list" })}
+				/>
+			)}
+			{view.type === "edit" && (
+				<TemplateEditor
+					template={view.template}
+					model={model}
+					settings={settings}
+					onDone={() => setView({ type: "list" })}
+				/>
+			)}
+			{view.type === "list" && (
+				<>
+					<input
+						// biome-ignore lint/a11y/noAutofocus: the palette was just opened from the keyboard
+						autoFocus
+						value={query}
+						placeholder="Search prompts"
+						onChange={(e) => {
+							setQuery(e.target.value);
+							setHighlighted(0);
+						}}
+						onKeyDown={(e) => {
+							if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+								e.preventDefault();
+								const step = e.key === "ArrowDown" ? 1 : -1;
+								setHighlighted(
+									(highlighted + step + found.length) %
+										Math.max(found.length, 1),
+								);
+							} else if (e.key === "Enter") {
+								e.preventDefault();
+								const template = found[highlighted];
+								if (template) {
+									pick(template);
+								}
+							} else if (e.key === "Escape") {
+								onClose();
+							}
+						}}
+						className={inputClass}
+					/>
+					{templates.isLoading && (
+						<span className="text-gray-400">Loading...</span>
+					)}
+					{templates.data && found.length === 0 && (
+						<span className="text-gray-400">
+							{templates.data.length === 0
+								? "No templates yet"
+								: "No matching templates"}
+						</span>
+					)}
+					{found.map((template, index) => (
+						<div
+							key={template.id}
+							className={clsx(
+								"flex flex-row items-center gap-2 rounded-md p-2",
+								index === highlighted && "bg-gray-100",
+							)}
+						>
+							<button
+								type="button"
+								onClick={() => pick(template)}
+								className="flex min-w-0 flex-1 flex-col items-start text-left"
+							>
+								<span className="truncate font-bold text-gray-700">
+									{template.name}
+									<span className="ml-2 font-normal text-gray-400 text-xs">
+										v{template.version}
+									</span>
+									{template.shared && (
+										<FontAwesomeIcon
+											icon={faShareNodes}
+											title="Shared"
+											className="ml-2 text-gray-400 text-xs"
+										/>
+									)}
+								</span>
+								{template.description && (
+									<span className="truncate text-gray-500 text-xs">
+										{template.description}
+									</span>
+								)}
+							</button>
+							{template.owned && (
+								<>
+									<button
+										type="button"
+										title="Edit"
+										onClick={() => setView({ type: "edit", template })}
+										className="text-gray-400 hover:text-gray-700"
+									>
+										<FontAwesomeIcon icon={faPen} />
+									</button>
+									<button
+										type="button"
+										title="Delete"
+										onClick={() => remove.mutate({ id: template.id })}
+										className="text-gray-400 hover:text-gray-700"
+									>
+										<FontAwesomeIcon icon={faTrash} />
+									</button>
+								</>
+							)}
+						</div>
+					))}
+					<button
+						type="button"
+						onClick={() => setView({ type: "edit" })}
+						className="self-start text-gray-500 text-xs hover:text-gray-700"
+					>
+						<FontAwesomeIcon icon={faPlus} /> New template
+					</button>
+				</>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,328 @@
+"use client";
+
+import {
+	faArrowRight,
+	faDownload,
+	faLock,
+	faXmark,
+} from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import clsx from "clsx";
+import { useMemo, useState } from "react";
+
+import type { MessageNode } from "~/lib/messageTree";
+import {
+	type ReasoningStatus,
+	type ReasoningStep,
+	getReasoningStatuses,
+	getReasoningSteps,
+	getReasoningText,
+	toReasoningExport,
+} from "~/lib/reasoning";
+import { formatTokens } from "~/lib/usage";
+import { download } from "./ExportMenu";
+
+const inputClass = "rounded-md border-2 border-gray-300 bg-white p-2";
+
+const statusLabels: Record<ReasoningStatus, string> = {
+	signed: "Signed",
+	unsigned: "Unsigned",
+	redacted: "Redacted",
+	hidden: "Hidden",
+};
+
+const statusHints: Record<ReasoningStatus, string> = {
+	signed:
+		"Carries the provider's signature, which it checks when the reasoning is sent back",
+	unsigned: "Shown without a signature, e.g. OpenAI's reasoning summaries",
+	redacted: "Encrypted by the provider; only it can read the blocks",
+	hidden: "Not shown by the provider; only its tokens are reported",
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const escapeRegExp = (text: string) =>
+	text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// `text` with every occurrence of `query` marked
+function Highlight({ text, query }: { text: string; query: string }) {
+	if (!query) {
+		return text;
+	}
+
+	return text
+		.split(new RegExp(`(${escapeRegExp(query)})`, "gi"))
+		.map((piece, index) =>
+			index % 2 === 1 ? (
+				// biome-ignore lint/suspicious/noArrayIndexKey: the pieces of one string, in order
+				<mark key={index}>{piece}</mark>
+			) : (
+				piece
+			),
+		);
+}
+
+function StepCard({
+	step,
+	query,
+	show,
+}: {
+	step: ReasoningStep;
+	query: string;
+	show: ((answerId: string) => void) | undefined;
+}) {
+	const statuses = getReasoningStatuses(step);
+
+	return (
+		<div className="flex min-w-0 flex-col gap-2 rounded-md border border-gray-200 bg-gray-100 p-3 text-sm">
+			<div className="flex flex-row flex-wrap items-center gap-2 text-gray-500 text-xs">
+				<span className="rounded-md border-1 border-gray-300 bg-gray-200 p-[5px] font-bold text-gray-600">
+					{step.model ?? "Unknown model"}
+				</span>
+				{step.step > 0 && <span>Step {step.step + 1}</span>}
+				{statuses.map((status) => (
+					<span
+						key={status}
+						title={statusHints[status]}
+						className={clsx(
+							"rounded-md px-1",
+							status === "signed" && "bg-green-100 text-green-700",
+							status === "unsigned" && "bg-gray-200",
+							status === "redacted" && "bg-yellow-100 text-yellow-700",
+							status === "hidden" && "bg-gray-200 italic",
+						)}
+					>
+						{statusLabels[status]}
+					</span>
+				))}
+				<span
+					title={
+						step.estimatedTokens
+							? "Estimated from the text; the provider doesn't report reasoning tokens"
+							: "Reasoning tokens, as reported by the provider"
+					}
+				>
+					{step.estimatedTokens && "~"}
+					{formatTokens(step.reasoningTokens)} tokens
+				</span>
+				{step.timing && (
+					<span
+						title={`Started ${new Date(step.timing.startedAt).toLocaleString()}; time until the answer began, out of the whole step`}
+					>
+						{formatSeconds(step.timing.reasoningMs)} of{" "}
+						{formatSeconds(step.timing.durationMs)}
+					</span>
+				)}
+				{show && (
+					<button
+						type="button"
+						title="Show this answer in the chat"
+						onClick={() => show(step.answerId)}
+						className="ml-auto hover:text-gray-700"
+					>
+						<FontAwesomeIcon icon={faArrowRight} />
+					</button>
+				)}
+			</div>
+			{step.blocks.length === 0 ? (
+				<span className="text-gray-400 italic">
+					The provider doesn't show this reasoning
+				</span>
+			) : (
+				<details open={!!query}>
+					<summary className="cursor-pointer text-gray-500 text-xs">
+						{step.blocks.length} block{step.blocks.length === 1 ? "" : "s"}
+					</summary>
+					<div className="mt-2 flex flex-col gap-2">
+						{step.blocks.map((block, index) =>
+							block.type === "text" ? (
+								// biome-ignore lint/suspicious/noArrayIndexKey: blocks are stored in order and never change
+								<div key={index} className="flex flex-col gap-1">
+									<div className="whitespace-pre-wrap">
+										<Highlight text={block.text.trim()} query={query} />
+									</div>
+									{block.signature && (
+										<span
+											title={block.signature}
+											className="truncate font-mono text-gray-400 text-xs"
+										>
+											<FontAwesomeIcon icon={faLock} /> {block.signature}
+										</span>
+									)}
+								</div>
+							) : (
+								<span
+									// biome-ignore lint/suspicious/noArrayIndexKey: blocks are stored in order and never change
+									key={index}
+									className="text-gray-400 text-xs italic"
+								>
+									<FontAwesomeIcon icon={faLock} /> Redacted by the provider (
+									{block.data.length} characters of encrypted data)
+								</span>
+							),
+						)}
+					</div>
+				</details>
+			)}
+		</div>
+	);
+}
+
+/**
+ * The reasoning in every branch of a conversation, grouped by prompt, so that answers of different
+ * models to the same prompt can be compared. Steps can be searched and filtered, and those shown
+ * exported in the provider-neutral format of `docs/reasoning-trace-format.md`. `show` switches
+ * the chat to an answer.
+ */
+export default function ReasoningBrowser({
+	conversationId,
+	name,
+	nodes,
+	show,
+	onClose,
+}: {
+	conversationId: string;
+	name: string | null;
+	nodes: MessageNode[];
+	show: ((answerId: string) => void) | undefined;
+	onClose: () => void;
+}) {
+	const steps = useMemo(() => getReasoningSteps(nodes), [nodes]);
+	const [query, setQuery] = useState("");
+	const [provider, setProvider] = useState("");
+	const [status, setStatus] = useState<ReasoningStatus | "">("");
+
+	const providers = [
+		...new Set(steps.map((step) => step.provider).filter(Boolean)),
+	];
+	const term = query.trim();
+	const search = term.toLowerCase();
+	const shown = steps.filter(
+		(step) =>
+			(!provider || step.provider === provider) &&
+			(!status || getReasoningStatuses(step).includes(status)) &&
+			(!search ||
+				[step.prompt, step.model ?? "", getReasoningText(step.blocks)].some(
+					(text) => text.toLowerCase().includes(search),
+				)),
+	);
+
+	const prompts = Object.values(
+		shown.reduce<Record<string, { prompt: string; steps: ReasoningStep[] }>>(
+			(groups, step) => {
+				const key = step.promptId ?? "";
+				groups[key] ??= { prompt: step.prompt, steps: [] };
+				groups[key].steps.push(step);
+				return groups;
+			},
+			{},
+		),
+	);
+
+	const exportShown = () =>
+		download(
+			`${conversationId}.reasoning.json`,
+			"application/json",
+			JSON.stringify(
+				toReasoningExport({ id: conversationId, name }, shown),
+				null,
+				2,
+			),
+		);
+
+	return (
+		<div className="flex min-h-0 flex-1 flex-col gap-3 p-3">
+			<div className="m-auto flex w-full max-w-5xl flex-row flex-wrap items-center gap-2 text-sm">
+				<input
+					type="search"
+					placeholder="Search reasoning and prompts"
+					value={query}
+					onChange={(e) => setQuery(e.target.value)}
+					className={clsx(inputClass, "flex-1")}
+				/>
+				<select
+					value={provider}
+					onChange={(e) => setProvider(e.target.value)}
+					className={inputClass}
+				>
+					<option value="">All providers</option>
+					{providers.map((value) => (
+						<option key={value} value={value ?? ""}>
+							{value}
+						</option>
+					))}
+				</select>
+				<select
+					value={status}
+					onChange={(e) => setStatus(e.target.value as ReasoningStatus | "")}
+					className={inputClass}
+				>
+					<option value="">Any status</option>
+					{Object.entries(statusLabels).map(([value, label]) => (
+						<option key={value} value={value}>
+							{label}
+						</option>
+					))}
+				</select>
+				<button
+					type="button"
+					title="Export the steps shown as provider-neutral JSON"
+					disabled={shown.length === 0}
+					onClick={exportShown}
+					className="rounded-md border-2 border-gray-300 p-2 disabled:opacity-30"
+				>
+					<FontAwesomeIcon icon={faDownload} /> Export
+				</button>
+				<button
+					type="button"
+					title="Back to the chat"
+					onClick={onClose}
+					className="p-2 text-gray-400 hover:text-gray-700"
+				>
+					<FontAwesomeIcon icon={faXmark} />
+				</button>
+			</div>
+			<div className="m-auto w-full max-w-5xl text-gray-500 text-xs">
+				{shown.length} of {steps.length} steps ·{" "}
+				{formatTokens(
+					shown.reduce((sum, step) => sum + step.reasoningTokens, 0),
+				)}{" "}
+				reasoning tokens
+			</div>
+			<div className="min-h-0 flex-1 overflow-y-auto">
+				<div className="m-auto flex w-full max-w-5xl flex-col gap-4">
+					{steps.length === 0 ? (
+						<span className="text-gray-400 italic">
+							No reasoning in this conversation yet. Pick a reasoning model to
+							see how it works through a prompt.
+						</span>
+					) : (
+						prompts.map((group) => (
+							<section
+								key={group.steps[0]?.promptId ?? ""}
+								className="flex flex-col gap-2"
+							>
+								<h3 className="line-clamp-2 font-bold text-gray-600 text-sm">
+									<Highlight
+										text={group.prompt || "(No prompt)"}
+										query={term}
+									/>
+								</h3>
+								<div className="grid grid-cols-[repeat(auto-fit,minmax(20rem,1fr))] gap-2">
+									{group.steps.map((step) => (
+										<StepCard
+											key={step.id}
+											step={step}
+											query={term}
+											show={show}
+										/>
+									))}
+								</div>
+							</section>
+						))
+					)}
+				</div>
+			</div>
+		</div>
+	);
+}
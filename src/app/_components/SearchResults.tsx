@@ -0,0 +1,213 @@
+"use client";
+
+import { faSliders, faSpinner } from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { keepPreviousData } from "@tanstack/react-query";
+import clsx from "clsx";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+import type { Provider } from "~/app/api/chat/models";
+import { splitHighlights } from "~/lib/search";
+import { api } from "~/trpc/react";
+
+type Filters = {
+	model?: string;
+	provider?: Provider;
+	role?: "user" | "assistant";
+	from?: string;
+	to?: string;
+	includeReasoning: boolean;
+	includeToolResults: boolean;
+};
+
+function useDebounced<T>(value: T, delayMs: number): T {
+	const [debounced, setDebounced] = useState(value);
+
+	useEffect(() => {
+		const timeout = setTimeout(() => setDebounced(value), delayMs);
+		return () => clearTimeout(timeout);
+	}, [value, delayMs]);
+
+	return debounced;
+}
+
+function Snippet({ snippet }: { snippet: string }) {
+	return (
+		<span className="line-clamp-3 text-gray-600 text-xs">
+			{splitHighlights(snippet).map((run, index) =>
+				run.highlighted ? (
+					// biome-ignore lint/suspicious/noArrayIndexKey: runs have no identity of their own
+					<mark key={index} className="rounded-sm bg-yellow-200 px-0.5">
+						{run.text}
+					</mark>
+				) : (
+					run.text
+				),
+			)}
+		</span>
+	);
+}
+
+function SearchFilters({
+	filters,
+	onChange,
+}: {
+	filters: Filters;
+	onChange: (filters: Filters) => void;
+}) {
+	const [models] = api.model.list.useSuspenseQuery();
+	const set = (changes: Partial<Filters>) =>
+		onChange({ ...filters, ...changes });
+	const inputClass = "rounded-md border-2 border-gray-300 bg-white p-1";
+
+	return (
+		<div className="flex flex-col gap-2 text-left text-xs">
+			<div className="flex flex-row gap-2">
+				<select
+					value={filters.role ?? ""}
+					onChange={(e) =>
+						set({ role: (e.target.value || undefined) as Filters["role"] })
+					}
+					className={clsx(inputClass, "flex-1")}
+				>
+					<option value="">Anyone</option>
+					<option value="user">You</option>
+					<option value="assistant">AI</option>
+				</select>
+				<select
+					value={filters.model ?? filters.provider ?? ""}
+					onChange={(e) => {
+						const value = e.target.value;
+						// Providers are listed as themselves, models as `provider:model`
+						set(
+							value.includes(":")
+								? { model: value, provider: undefined }
+								: {
+										model: undefined,
+										provider: (value || undefined) as Provider | undefined,
+									},
+						);
+					}}
+					className={clsx(inputClass, "flex-1")}
+				>
+					<option value="">Any model</option>
+					{Object.entries(models).map(([provider, defs]) => (
+						<optgroup key={provider} label={provider}>
+							<option value={provider}>Any {provider} model</option>
+							{defs.map((def) => (
+								<option key={def.id} value={def.id}>
+									{def.displayName}
+								</option>
+							))}
+						</optgroup>
+					))}
+				</select>
+			</div>
+			<div className="flex flex-row items-center gap-2">
+				<input
+					type="date"
+					title="From"
+					value={filters.from ?? ""}
+					onChange={(e) => set({ from: e.target.value || undefined })}
+					className={clsx(inputClass, "min-w-0 flex-1")}
+				/>
+				–
+				<input
+					type="date"
+					title="To"
+					value={filters.to ?? ""}
+					onChange={(e) => set({ to: e.target.value || undefined })}
+					className={clsx(inputClass, "min-w-0 flex-1")}
+				/>
+			</div>
+			<label className="flex flex-row items-center gap-2">
+				<input
+					type="checkbox"
+					checked={filters.includeReasoning}
+					onChange={(e) => set({ includeReasoning: e.target.checked })}
+				/>
+				Search reasoning
+			</label>
+			<label className="flex flex-row items-center gap-2">
+				<input
+					type="checkbox"
+					checked={filters.includeToolResults}
+					onChange={(e) => set({ includeToolResults: e.target.checked })}
+				/>
+				Search tool results
+			</label>
+		</div>
+	);
+}
+
+/**
+ * Messages matching `query` across every conversation. Each result opens its conversation at the
+ * message.
+ */
+export default function SearchResults({ query }: { query: string }) {
+	const [showFilters, setShowFilters] = useState(false);
+	const [filters, setFilters] = useState<Filters>({
+		includeReasoning: false,
+		includeToolResults: false,
+	});
+	const debouncedQuery = useDebounced(query.trim(), 250);
+
+	const results = api.chat.search.useQuery(
+		{
+			...filters,
+			query: debouncedQuery,
+			from: filters.from ? new Date(filters.from) : undefined,
+			// The whole of the last day
+			to: filters.to
+				? new Date(new Date(filters.to).getTime() + 24 * 60 * 60 * 1000 - 1)
+				: undefined,
+		},
+		{ enabled: debouncedQuery.length > 0, placeholderData: keepPreviousData },
+	);
+
+	return (
+		<div className="flex flex-col gap-3">
+			<div className="flex flex-row items-center justify-between text-gray-500 text-xs">
+				<span>
+					{results.isFetching ? (
+						<FontAwesomeIcon icon={faSpinner} spin />
+					) : (
+						`${results.data?.length ?? 0} results`
+					)}
+				</span>
+				<button
+					type="button"
+					title="Filters"
+					onClick={() => setShowFilters(!showFilters)}
+					className={clsx(
+						"hover:text-gray-700",
+						showFilters ? "text-gray-700" : "text-gray-400",
+					)}
+				>
+					<FontAwesomeIcon icon={faSliders} />
+				</button>
+			</div>
+			{showFilters && <SearchFilters filters={filters} onChange={setFilters} />}
+			{results.error && (
+				<span className="text-red-600 text-xs">{results.error.message}</span>
+			)}
+			{results.data?.map((result) => (
+				<Link
+					key={result.messageId}
+					href={`/?c=${result.conversationId}&m=${result.messageId}`}
+					className="flex flex-col gap-1 rounded-md bg-gray-200 p-3 text-left hover:bg-gray-300"
+				>
+					<span className="truncate font-bold text-gray-600 text-sm">
+						{result.conversationName ?? "Untitled chat"}
+					</span>
+					<span className="text-gray-400 text-xs">
+						{result.role === "user" ? "You" : (result.model ?? "AI")} ·{" "}
+						{result.createdAt.toLocaleDateString()}
+					</span>
+					<Snippet snippet={result.snippet} />
+				</Link>
+			))}
+		</div>
+	);
+}
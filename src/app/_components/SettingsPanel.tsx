@@ -0,0 +1,315 @@
+"use client";
+
+import { useState } from "react";
+
+import type { ModelDef } from "~/app/api/chat/models";
+import {
+	type ContextStrategy,
+	DEFAULT_CONTEXT_STRATEGY,
+	contextStrategies,
+	contextStrategyLabels,
+} from "~/lib/contextWindow";
+import {
+	DEFAULT_MAX_STEPS,
+	type GenerationSettings,
+	getReasoningControl,
+	settingsSchemaFor,
+} from "~/lib/generationSettings";
+import type { JsonSchema } from "~/lib/structuredOutput";
+
+const inputClass = "w-full rounded-md border-2 border-gray-300 bg-white p-2";
+
+function Field({
+	label,
+	hint,
+	error,
+	children,
+}: {
+	label: string;
+	hint?: string;
+	error?: string;
+	children: React.ReactNode;
+}) {
+	return (
+		// biome-ignore lint/a11y/noLabelWithoutControl: the control is passed in as children
+		<label className="flex flex-col gap-1 text-gray-600 text-sm">
+			<span className="font-bold">{label}</span>
+			{children}
+			{error ? (
+				<span className="text-red-600 text-xs">{error}</span>
+			) : (
+				hint && <span className="text-gray-400 text-xs">{hint}</span>
+			)}
+		</label>
+	);
+}
+
+// Empty inputs mean "use the model's default"
+const parseNumber = (value: string) =>
+	value.trim() === "" ? undefined : Number(value);
+
+function NumberInput({
+	value,
+	onChange,
+	disabled,
+	step,
+	placeholder,
+}: {
+	value: number | undefined;
+	onChange: (value: number | undefined) => void;
+	disabled?: boolean;
+	step?: number;
+	placeholder?: string;
+}) {
+	return (
+		<input
+			type="number"
+			step={step}
+			value={value ?? ""}
+			placeholder={placeholder ?? "default"}
+			disabled={disabled}
+			onChange={(e) => onChange(parseNumber(e.target.value))}
+			className={`${inputClass} disabled:opacity-40`}
+		/>
+	);
+}
+
+const formatSchema = (schema: JsonSchema | undefined) =>
+	schema ? JSON.stringify(schema, null, 2) : "";
+
+/**
+ * Edits a JSON Schema as text. The settings only take text that parses; until it does, the last
+ * schema that did stays in place.
+ */
+function SchemaField({
+	value,
+	error,
+	onChange,
+}: {
+	value: JsonSchema | undefined;
+	error: string | undefined;
+	onChange: (value: JsonSchema | undefined) => void;
+}) {
+	const [text, setText] = useState(() => formatSchema(value));
+	const [parseError, setParseError] = useState<string>();
+	// Follows changes made elsewhere, e.g. by a template's settings
+	const [shown, setShown] = useState(value);
+	if (value !== shown) {
+		setShown(value);
+		setText(formatSchema(value));
+		setParseError(undefined);
+	}
+
+	return (
+		<Field
+			label="Output schema"
+			hint="JSON Schema of an object the answer has to match; empty for plain text"
+			error={parseError ?? error}
+		>
+			<textarea
+				rows={6}
+				value={text}
+				placeholder={'{ "type": "object", "properties": { ... } }'}
+				onChange={(e) => {
+					setText(e.target.value);
+					let schema: JsonSchema | undefined;
+					try {
+						schema = e.target.value.trim()
+							? (JSON.parse(e.target.value) as JsonSchema)
+							: undefined;
+					} catch (error) {
+						setParseError(
+							`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+						);
+						return;
+					}
+					setParseError(undefined);
+					setShown(schema);
+					onChange(schema);
+				}}
+				className={`${inputClass} font-mono text-xs`}
+			/>
+		</Field>
+	);
+}
+
+/**
+ * Generation settings of the current conversation. Changes apply to the next request right away
+ * and are saved when focus leaves the panel.
+ */
+export default function SettingsPanel({
+	settings,
+	modelDef,
+	onChange,
+	onSave,
+}: {
+	settings: GenerationSettings;
+	modelDef: ModelDef | undefined;
+	onChange: (settings: GenerationSettings) => void;
+	onSave: () => void;
+}) {
+	const set = <K extends keyof GenerationSettings>(
+		key: K,
+		value: GenerationSettings[K],
+	) => onChange({ ...settings, [key]: value });
+
+	const result = modelDef
+		? settingsSchemaFor(modelDef).safeParse(settings)
+		: undefined;
+	const errors = result?.success ? {} : result?.error.flatten().fieldErrors;
+	const error = (key: keyof GenerationSettings) => errors?.[key]?.[0];
+
+	const reasoningControl = modelDef ? getReasoningControl(modelDef) : undefined;
+	const isReasoning = !!modelDef?.capabilities.reasoning;
+
+	return (
+		<div
+			className="grid grid-cols-3 gap-4 border-gray-300 border-b-2 bg-gray-100 p-4"
+			onBlur={(e) => {
+				if (e.currentTarget.contains(e.relatedTarget)) {
+					return;
+				}
+				if (result?.success) {
+					onSave();
+				}
+			}}
+		>
+			<div className="col-span-3">
+				<Field
+					label="System prompt"
+					hint="Sent ahead of the conversation on every request"
+				>
+					<textarea
+						rows={3}
+						value={settings.systemPrompt ?? ""}
+						placeholder="You are a helpful assistant."
+						onChange={(e) => set("systemPrompt", e.target.value || undefined)}
+						className={inputClass}
+					/>
+				</Field>
+			</div>
+			<Field
+				label="Temperature"
+				hint={isReasoning ? "Fixed by reasoning models" : "0 to 2"}
+				error={error("temperature")}
+			>
+				<NumberInput
+					step={0.1}
+					value={settings.temperature}
+					disabled={isReasoning && settings.temperature === undefined}
+					onChange={(value) => set("temperature", value)}
+				/>
+			</Field>
+			<Field
+				label="Top P"
+				hint={isReasoning ? "Fixed by reasoning models" : "0 to 1"}
+				error={error("topP")}
+			>
+				<NumberInput
+					step={0.05}
+					value={settings.topP}
+					disabled={isReasoning && settings.topP === undefined}
+					onChange={(value) => set("topP", value)}
+				/>
+			</Field>
+			<Field
+				label="Max output tokens"
+				hint={modelDef && `Up to ${modelDef.maxOutputTokens}`}
+				error={error("maxOutputTokens")}
+			>
+				<NumberInput
+					value={settings.maxOutputTokens}
+					onChange={(value) => set("maxOutputTokens", value)}
+				/>
+			</Field>
+			{reasoningControl === "effort" || settings.reasoningEffort ? (
+				<Field
+					label="Reasoning effort"
+					hint="How long the model thinks before answering"
+					error={error("reasoningEffort")}
+				>
+					<select
+						value={settings.reasoningEffort ?? ""}
+						onChange={(e) =>
+							set(
+								"reasoningEffort",
+								(e.target.value ||
+									undefined) as GenerationSettings["reasoningEffort"],
+							)
+						}
+						className={inputClass}
+					>
+						<option value="">default</option>
+						<option value="low">low</option>
+						<option value="medium">medium</option>
+						<option value="high">high</option>
+					</select>
+				</Field>
+			) : null}
+			{reasoningControl === "budget" || settings.thinkingBudget ? (
+				<Field
+					label="Thinking budget"
+					hint="Tokens the model may spend thinking, at least 1024"
+					error={error("thinkingBudget")}
+				>
+					<NumberInput
+						step={1024}
+						value={settings.thinkingBudget}
+						onChange={(value) => set("thinkingBudget", value)}
+					/>
+				</Field>
+			) : null}
+			<Field
+				label="Max steps"
+				hint="Model calls per message when using tools"
+				error={error("maxSteps")}
+			>
+				<NumberInput
+					value={settings.maxSteps}
+					placeholder={`${DEFAULT_MAX_STEPS}`}
+					onChange={(value) => set("maxSteps", value)}
+				/>
+			</Field>
+			<Field
+				label="Max context tokens"
+				hint={
+					modelDef &&
+					`Up to ${modelDef.contextWindow}; lower spends less on long chats`
+				}
+				error={error("maxContextTokens")}
+			>
+				<NumberInput
+					step={1000}
+					value={settings.maxContextTokens}
+					onChange={(value) => set("maxContextTokens", value)}
+				/>
+			</Field>
+			<Field
+				label="When the context is full"
+				hint="Only the request is shortened; the chat keeps every message"
+				error={error("contextStrategy")}
+			>
+				<select
+					value={settings.contextStrategy ?? DEFAULT_CONTEXT_STRATEGY}
+					onChange={(e) =>
+						set("contextStrategy", e.target.value as ContextStrategy)
+					}
+					className={inputClass}
+				>
+					{contextStrategies.map((strategy) => (
+						<option key={strategy} value={strategy}>
+							{contextStrategyLabels[strategy]}
+						</option>
+					))}
+				</select>
+			</Field>
+			<div className="col-span-3">
+				<SchemaField
+					value={settings.outputSchema}
+					error={error("outputSchema")}
+					onChange={(value) => set("outputSchema", value)}
+				/>
+			</div>
+		</div>
+	);
+}
@@ -1,45 +1,215 @@
-import type { UIMessage } from "ai";
+"use client";
+
+import {
+	faFileImport,
+	faMagnifyingGlass,
+	faPen,
+	faPlus,
+	faRightFromBracket,
+	faTrash,
+} from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import clsx from "clsx";
+import type { Session } from "next-auth";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useRef, useState } from "react";
+
+import { type RouterOutputs, api } from "~/trpc/react";
+import SearchResults from "./SearchResults";
+
+type Chat = RouterOutputs["chat"]["list"][number];
+
+// New conversations are named in the background, shortly after their first answer
+const TITLE_WAIT_MS = 30_000;
+const TITLE_POLL_MS = 3000;
+
+const awaitsTitle = (chat: Chat) =>
+	!chat.name &&
+	Date.now() - (chat.updatedAt ?? chat.createdAt).getTime() < TITLE_WAIT_MS;
+
+const ChatItem = ({ chat, active }: { chat: Chat; active: boolean }) => {
+	const router = useRouter();
+	const utils = api.useUtils();
+
+	const [editing, setEditing] = useState(false);
+	const [name, setName] = useState(chat.name ?? "");
+
+	const rename = api.chat.rename.useMutation({
+		onSuccess: () => utils.chat.list.invalidate(),
+	});
+	const remove = api.chat.delete.useMutation({
+		onSuccess: async () => {
+			await utils.chat.list.invalidate();
+			if (active) {
+				router.push("/");
+			}
+		},
+	});
+
+	if (editing) {
+		return (
+			<form
+				onSubmit={(e) => {
+					e.preventDefault();
+					setEditing(false);
+					if (name.trim() && name !== chat.name) {
+						rename.mutate({ id: chat.id, name: name.trim() });
+					}
+				}}
+			>
+				<input
+					// biome-ignore lint/a11y/noAutofocus: the input only appears after clicking rename
+					autoFocus
+					value={name}
+					onChange={(e) => setName(e.target.value)}
+					onBlur={() => setEditing(false)}
+					className="w-full rounded-md border-2 border-gray-300 bg-white p-4"
+				/>
+			</form>
+		);
+	}
 
-const ChatItem = ({ chat }: { chat: Chat }) => {
 	return (
-		<div className="cursor-pointer rounded-md bg-gray-200 p-5 hover:bg-gray-300">
-			{chat.name}
+		<div
+			className={clsx(
+				"group relative flex flex-row items-center gap-2 rounded-md p-5 hover:bg-gray-300",
+				active ? "bg-gray-300" : "bg-gray-200",
+			)}
+		>
+			<Link href={`/?c=${chat.id}`} className="flex-1 truncate">
+				{chat.name ?? "Untitled chat"}
+			</Link>
+			<div className="hidden flex-row gap-2 text-gray-400 group-hover:flex">
+				<button
+					type="button"
+					title="Rename"
+					onClick={() => setEditing(true)}
+					className="hover:text-gray-700"
+				>
+					<FontAwesomeIcon icon={faPen} />
+				</button>
+				<button
+					type="button"
+					title="Delete"
+					onClick={() => remove.mutate({ id: chat.id })}
+					className="hover:text-gray-700"
+				>
+					<FontAwesomeIcon icon={faTrash} />
+				</button>
+			</div>
+			{chat.summary && (
+				<div className="pointer-events-none absolute top-full right-0 left-0 z-10 mt-1 hidden rounded-md border-2 border-gray-300 bg-white p-3 text-left text-gray-600 text-xs group-hover:line-clamp-6">
+					{chat.summary}
+				</div>
+			)}
 		</div>
 	);
 };
 
-type Chat = {
-	id: string;
-	name: string;
-	messages: UIMessage[];
-};
+export default function Sidebar({ user }: { user: Session["user"] }) {
+	const [chats] = api.chat.list.useSuspenseQuery(undefined, {
+		refetchInterval: (query) =>
+			query.state.data?.some(awaitsTitle) ? TITLE_POLL_MS : false,
+	});
+	const activeId = useSearchParams().get("c");
+	const [query, setQuery] = useState("");
+
+	const router = useRouter();
+	const utils = api.useUtils();
+	const create = api.chat.create.useMutation({
+		onSuccess: async (chat) => {
+			await utils.chat.list.invalidate();
+			if (chat) {
+				router.push(`/?c=${chat.id}`);
+			}
+		},
+	});
+
+	// Our JSON export, or an OpenAI or Anthropic message array
+	const fileInputRef = useRef<HTMLInputElement>(null);
+	const importChat = api.chat.import.useMutation({
+		onSuccess: async ({ id }) => {
+			await utils.chat.list.invalidate();
+			router.push(`/?c=${id}`);
+		},
+	});
 
-const chats = [
-	{
-		id: "1",
-		name: "Chat1",
-		messages: [],
-	},
-	{
-		id: "2",
-		name: "Chat2",
-		messages: [],
-	},
-	{
-		id: "3",
-		name: "Chat3",
-		messages: [],
-	},
-];
-
-export default function Sidebar() {
 	return (
-		<div className="flex h-full w-full flex-col gap-10 border-gray-300 border-r-2 bg-gray-100 p-5">
+		<div className="flex h-full w-full flex-col gap-10 overflow-y-auto border-gray-300 border-r-2 bg-gray-100 p-5">
 			<h2 className="text-center font-bold text-2xl text-gray-600">Chats</h2>
+			<div className="flex flex-col gap-2">
+				<button
+					type="button"
+					onClick={() => create.mutate()}
+					disabled={create.isPending}
+					className="flex flex-row items-center justify-center gap-2 rounded-md border-2 border-gray-300 p-3 text-gray-600 hover:bg-gray-200"
+				>
+					<FontAwesomeIcon icon={faPlus} /> New chat
+				</button>
+				<input
+					ref={fileInputRef}
+					type="file"
+					accept=".json,application/json"
+					hidden
+					onChange={async (e) => {
+						const file = e.target.files?.[0];
+						e.target.value = "";
+						if (file) {
+							importChat.mutate({ content: await file.text() });
+						}
+					}}
+				/>
+				<button
+					type="button"
+					title="Import a JSON export, or an OpenAI or Anthropic message array"
+					onClick={() => fileInputRef.current?.click()}
+					disabled={importChat.isPending}
+					className="flex flex-row items-center justify-center gap-2 rounded-md border-2 border-gray-300 p-3 text-gray-600 hover:bg-gray-200"
+				>
+					<FontAwesomeIcon icon={faFileImport} /> Import
+				</button>
+				{importChat.error && (
+					<span className="text-center text-red-600 text-xs">
+						{importChat.error.message}
+					</span>
+				)}
+			</div>
 			<div className="flex flex-col gap-3 text-center">
-				{chats.map((chat) => (
-					<ChatItem key={chat.id} chat={chat} />
-				))}
+				<label className="flex flex-row items-center gap-2 rounded-md border-2 border-gray-300 bg-white p-2 text-gray-400">
+					<FontAwesomeIcon icon={faMagnifyingGlass} />
+					<input
+						type="search"
+						value={query}
+						onChange={(e) => setQuery(e.target.value)}
+						placeholder="Search messages"
+						className="min-w-0 flex-1 text-gray-700 outline-none"
+					/>
+				</label>
+				{query.trim() ? (
+					<SearchResults query={query} />
+				) : (
+					chats.map((chat) => (
+						<ChatItem key={chat.id} chat={chat} active={chat.id === activeId} />
+					))
+				)}
+			</div>
+			<div className="mt-auto flex flex-row items-center gap-2 border-gray-300 border-t-2 pt-5 text-gray-600 text-sm">
+				<span className="flex-1 truncate" title={user.email ?? undefined}>
+					{user.name ?? user.email}
+				</span>
+				{user.role === "admin" && (
+					<span className="rounded-md bg-gray-300 px-2 py-0.5 text-xs">
+						Admin
+					</span>
+				)}
+				<a
+					href="/api/auth/signout"
+					title="Sign out"
+					className="text-gray-400 hover:text-gray-700"
+				>
+					<FontAwesomeIcon icon={faRightFromBracket} />
+				</a>
 			</div>
 		</div>
 	);
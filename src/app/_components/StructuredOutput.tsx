@@ -0,0 +1,203 @@
+"use client";
+
+import {
+	faCheck,
+	faCode,
+	faSpinner,
+	faWrench,
+	faXmark,
+} from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import clsx from "clsx";
+import { useMemo, useState } from "react";
+
+import {
+	type StructuredOutput,
+	parsePartialJson,
+	repairPrompt,
+} from "~/lib/structuredOutput";
+
+// Trees this deep start expanded
+const EXPANDED_DEPTH = 2;
+
+type Row = Record<string, unknown>;
+
+const isRow = (value: unknown): value is Row =>
+	value !== null &&
+	typeof value === "object" &&
+	!Array.isArray(value) &&
+	Object.values(value).every(
+		(field) => field === null || typeof field !== "object",
+	);
+
+// Rows of a list, e.g. line items, read best as a table
+const isTable = (value: unknown): value is Row[] =>
+	Array.isArray(value) && value.length > 0 && value.every(isRow);
+
+function Scalar({ value }: { value: unknown }) {
+	return (
+		<span
+			className={clsx("font-mono", {
+				"text-green-700": typeof value === "string",
+				"text-blue-700": typeof value === "number",
+				"text-purple-700": typeof value === "boolean",
+				"text-gray-400": value === null,
+			})}
+		>
+			{JSON.stringify(value)}
+		</span>
+	);
+}
+
+function Table({ rows }: { rows: Row[] }) {
+	const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+
+	return (
+		<table className="border-collapse text-xs">
+			<thead>
+				<tr>
+					{columns.map((column) => (
+						<th
+							key={column}
+							className="border border-gray-300 bg-gray-200 px-2 py-1 text-left"
+						>
+							{column}
+						</th>
+					))}
+				</tr>
+			</thead>
+			<tbody>
+				{rows.map((row, index) => (
+					// biome-ignore lint/suspicious/noArrayIndexKey: rows have no identity of their own, and are only ever appended to
+					<tr key={index}>
+						{columns.map((column) => (
+							<td key={column} className="border border-gray-300 px-2 py-1">
+								{column in row && <Scalar value={row[column]} />}
+							</td>
+						))}
+					</tr>
+				))}
+			</tbody>
+		</table>
+	);
+}
+
+function JsonNode({
+	name,
+	value,
+	depth,
+}: {
+	name?: string;
+	value: unknown;
+	depth: number;
+}) {
+	const label = name !== undefined && (
+		<span className="font-mono text-gray-600">{name}: </span>
+	);
+	if (value === null || typeof value !== "object") {
+		return (
+			<div>
+				{label}
+				<Scalar value={value} />
+			</div>
+		);
+	}
+
+	const entries = Object.entries(value);
+	return (
+		<details open={depth < EXPANDED_DEPTH}>
+			<summary className="cursor-pointer">
+				{label}
+				<span className="text-gray-400 text-xs">
+					{Array.isArray(value)
+						? `[${entries.length} items]`
+						: `{${entries.length} fields}`}
+				</span>
+			</summary>
+			<div className="ml-4 flex flex-col gap-1 border-gray-300 border-l pl-2">
+				{isTable(value) ? (
+					<Table rows={value} />
+				) : (
+					entries.map(([key, item]) => (
+						<JsonNode key={key} name={key} value={item} depth={depth + 1} />
+					))
+				)}
+			</div>
+		</details>
+	);
+}
+
+/**
+ * An answer in structured output mode: the object as it streams in, then whether it matches the
+ * schema. `repair`, when given, asks the model to fix an answer that doesn't.
+ */
+export default function StructuredOutputView({
+	text,
+	output,
+	repair,
+}: {
+	text: string;
+	output: StructuredOutput;
+	repair: ((prompt: string) => void) | undefined;
+}) {
+	const [raw, setRaw] = useState(false);
+	const value = useMemo(() => parsePartialJson(text), [text]);
+
+	return (
+		<div className="flex flex-col gap-2 whitespace-normal text-sm">
+			<div className="flex flex-row items-center gap-2 text-gray-500 text-xs">
+				{output.state === "streaming" && (
+					<>
+						<FontAwesomeIcon icon={faSpinner} spin /> Streaming object
+					</>
+				)}
+				{output.state === "valid" && (
+					<>
+						<FontAwesomeIcon icon={faCheck} className="text-green-700" />{" "}
+						Matches the schema
+					</>
+				)}
+				{output.state === "invalid" && (
+					<>
+						<FontAwesomeIcon icon={faXmark} className="text-red-600" /> Doesn't
+						match the schema
+					</>
+				)}
+				<button
+					type="button"
+					onClick={() => setRaw(!raw)}
+					className="ml-auto hover:text-gray-700"
+				>
+					<FontAwesomeIcon icon={faCode} /> {raw ? "Tree" : "Raw JSON"}
+				</button>
+			</div>
+			{raw ? (
+				<pre className="overflow-x-auto whitespace-pre-wrap font-mono text-xs">
+					{text}
+				</pre>
+			) : value === undefined ? (
+				<span className="text-gray-400 italic">Waiting for the object...</span>
+			) : (
+				<JsonNode value={value} depth={0} />
+			)}
+			{output.state === "invalid" && (
+				<div className="flex flex-col gap-1 rounded-md border-2 border-red-200 bg-red-50 p-2 text-red-700 text-xs">
+					<ul className="list-disc pl-4 font-mono">
+						{output.errors.map((error) => (
+							<li key={error}>{error}</li>
+						))}
+					</ul>
+					{repair && (
+						<button
+							type="button"
+							onClick={() => repair(repairPrompt(output.errors))}
+							className="self-start rounded-md border-2 border-red-200 bg-white px-2 py-1 hover:border-red-300"
+						>
+							<FontAwesomeIcon icon={faWrench} /> Repair
+						</button>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
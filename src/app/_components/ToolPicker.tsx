@@ -0,0 +1,109 @@
+"use client";
+
+import { faWrench } from "@fortawesome/free-solid-svg-icons";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import clsx from "clsx";
+import { useState } from "react";
+
+import type { SideEffect, ToolInfo } from "~/app/api/chat/tools";
+import { api } from "~/trpc/react";
+import McpServers from "./McpServers";
+
+const sideEffectLabels: Record<SideEffect, string> = {
+	none: "pure",
+	read: "reads",
+	write: "writes",
+};
+
+/**
+ * Chooses which registered tools the model may call in this conversation. `enabled` is undefined
+ * until the user picks, meaning the registry's defaults.
+ */
+export default function ToolPicker({
+	enabled,
+	disabled,
+	onChange,
+}: {
+	enabled: string[] | undefined;
+	disabled?: boolean;
+	onChange: (tools: string[]) => void;
+}) {
+	const [tools] = api.tool.list.useSuspenseQuery();
+	const [open, setOpen] = useState(false);
+
+	const enabledNames =
+		enabled ??
+		tools.filter((tool) => tool.enabledByDefault).map((tool) => tool.name);
+
+	const categories = Object.entries(
+		tools.reduce<Record<string, ToolInfo[]>>((groups, tool) => {
+			groups[tool.category] = [...(groups[tool.category] ?? []), tool];
+			return groups;
+		}, {}),
+	);
+
+	const toggle = (name: string) =>
+		onChange(
+			enabledNames.includes(name)
+				? enabledNames.filter((enabledName) => enabledName !== name)
+				: [...enabledNames, name],
+		);
+
+	return (
+		<div
+			className="relative"
+			onBlur={(e) => {
+				if (!e.currentTarget.contains(e.relatedTarget)) {
+					setOpen(false);
+				}
+			}}
+		>
+			<button
+				type="button"
+				title={disabled ? "The selected model can't use tools" : "Tools"}
+				disabled={disabled}
+				onClick={() => setOpen(!open)}
+				className="flex size-12 items-center justify-center gap-1 rounded-md border-2 border-gray-300 p-2 disabled:opacity-30"
+			>
+				<FontAwesomeIcon icon={faWrench} />
+				<span className="text-xs">{enabledNames.length}</span>
+			</button>
+			{open && !disabled && (
+				<div className="absolute right-0 bottom-14 z-10 flex w-72 flex-col gap-3 rounded-md border-2 border-gray-300 bg-white p-3 text-sm">
+					{categories.map(([category, categoryTools]) => (
+						<div key={category} className="flex flex-col gap-1">
+							<span className="font-bold text-gray-500 text-xs uppercase">
+								{category}
+							</span>
+							{categoryTools.map((tool) => (
+								<label
+									key={tool.name}
+									title={tool.description}
+									className="flex flex-row items-center gap-2"
+								>
+									<input
+										type="checkbox"
+										checked={enabledNames.includes(tool.name)}
+										onChange={() => toggle(tool.name)}
+									/>
+									<span className="flex-1 font-mono">{tool.name}</span>
+									<span
+										className={clsx(
+											"text-xs",
+											tool.sideEffect === "write"
+												? "text-red-600"
+												: "text-gray-400",
+										)}
+									>
+										{sideEffectLabels[tool.sideEffect]}
+									</span>
+								</label>
+							))}
+						</div>
+					))}
+					<McpServers />
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { api } from "~/trpc/react";
+
+/**
+ * The server goes on generating when the client goes away, so stopping an answer has to cancel it
+ * there too. Pass `onResponse` to `useChat`; it picks up the stream each response reads from, a
+ * new answer's or a resumed one's. `streamId` is the stream the page was loaded with, so an answer
+ * can be stopped before its resumed response arrives.
+ */
+export function useStreamCancel(streamId: string | null = null) {
+	const current = useRef(streamId);
+	const cancelStream = api.chat.cancelStream.useMutation();
+
+	const onResponse = useCallback((response: Response) => {
+		current.current = response.headers.get("X-Stream-Id");
+	}, []);
+
+	const cancel = () => {
+		if (current.current) {
+			cancelStream.mutate({ streamId: current.current });
+			current.current = null;
+		}
+	};
+
+	return { onResponse, cancel };
+}
+
+/**
+ * Picks up an answer that was still being generated when the page was left, e.g. on a reload.
+ * `streamId` is the stream `chat.get` found for the active branch; `resume` is `useChat`'s
+ * `experimental_resume`.
+ */
+export function useResume(streamId: string | null, resume: () => void) {
+	const resumed = useRef(false);
+	const [resumable] = useState(() => streamId !== null);
+
+	useEffect(() => {
+		if (resumable && !resumed.current) {
+			resumed.current = true;
+			resume();
+		}
+	}, [resumable, resume]);
+}
@@ -0,0 +1,39 @@
+import { getAttachmentKind } from "~/lib/attachments";
+import { loadAttachment } from "~/server/attachments";
+import { auth } from "~/server/auth";
+
+/**
+ * Serves an uploaded file to its owner, for previews and downloads.
+ */
+export async function GET(
+	_req: Request,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	const session = await auth();
+	if (!session?.user) {
+		return new Response("Sign in to view files", { status: 401 });
+	}
+
+	const { id } = await params;
+	const attachment = await loadAttachment(id, session.user);
+	if (!attachment) {
+		return new Response("Not found", { status: 404 });
+	}
+
+	// Uploaded HTML or scripts must never run on our origin, so text of any kind is served as plain
+	const contentType =
+		getAttachmentKind(attachment.contentType) === "text"
+			? "text/plain; charset=utf-8"
+			: attachment.contentType;
+
+	return new Response(new Uint8Array(attachment.data), {
+		headers: {
+			"Content-Type": contentType,
+			"Content-Length": String(attachment.size),
+			"Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+			// Ids are never reused, so the content can't change
+			"Cache-Control": "private, max-age=31536000, immutable",
+			"X-Content-Type-Options": "nosniff",
+		},
+	});
+}
@@ -0,0 +1,48 @@
+import {
+	MAX_ATTACHMENT_BYTES,
+	formatBytes,
+	getAttachmentKind,
+} from "~/lib/attachments";
+import { saveAttachment } from "~/server/attachments";
+import { auth } from "~/server/auth";
+
+/**
+ * Uploads a file attached in the composer, sent as the `file` field of a multipart form. Responds
+ * with the stored attachment, whose URL messages then reference.
+ */
+export async function POST(req: Request) {
+	const session = await auth();
+	if (!session?.user) {
+		return new Response("Sign in to upload files", { status: 401 });
+	}
+
+	const form = await req.formData().catch(() => undefined);
+	const file = form?.get("file");
+	if (!(file instanceof File)) {
+		return new Response('Expected a multipart form with a "file" field', {
+			status: 400,
+		});
+	}
+
+	const contentType = file.type || "application/octet-stream";
+	if (!getAttachmentKind(contentType)) {
+		return new Response(`Unsupported file type "${contentType}"`, {
+			status: 415,
+		});
+	}
+	if (file.size > MAX_ATTACHMENT_BYTES) {
+		return new Response(
+			`Files can be at most ${formatBytes(MAX_ATTACHMENT_BYTES)}`,
+			{ status: 413 },
+		);
+	}
+
+	const attachment = await saveAttachment({
+		userId: session.user.id,
+		name: file.name || "attachment",
+		contentType,
+		data: new Uint8Array(await file.arrayBuffer()),
+	});
+
+	return Response.json(attachment);
+}
@@ -0,0 +1,190 @@
+import type { Attachment, UIMessage } from "ai";
+
+import {
+	type AttachmentKind,
+	attachmentCapabilities,
+	canReadAttachment,
+	getAttachmentId,
+	getAttachmentKind,
+} from "~/lib/attachments";
+import type { SizedAttachment } from "~/lib/contextWindow";
+import { findAttachment, loadAttachment } from "~/server/attachments";
+import type { SessionUser } from "~/server/auth/access";
+import type { ModelCapability, ModelDef } from "./models";
+
+const kindLabels: Record<AttachmentKind, string> = {
+	image: "images",
+	document: "PDFs",
+	text: "text files",
+};
+
+const toDataUrl = (contentType: string, data: Uint8Array) =>
+	`data:${contentType};base64,${Buffer.from(data).toString("base64")}`;
+
+// A text part the model reads in place of an attachment
+const textAttachment = (name: string, text: string): Attachment => ({
+	name,
+	contentType: "text/plain",
+	url: toDataUrl("text/plain", new TextEncoder().encode(text)),
+});
+
+/**
+ * Checks the attachments of the messages against what the model can read. Images and PDFs go to
+ * the model when it has the matching capability; text files go to any model.
+ *
+ * An attachment the model can't read is an error on the message being sent, so the user can pick
+ * another model. Earlier in the history it is replaced by a note instead, as the conversation may
+ * have started with a model that could read it. Only `user`'s own uploads are found.
+ *
+ * Only the uploads' records are looked at: `inlineAttachments` reads the files, once the history
+ * has been fitted into the context window.
+ */
+export async function resolveAttachments(
+	messages: UIMessage[],
+	def: ModelDef,
+	user: SessionUser,
+): Promise<
+	{ success: true; messages: UIMessage[] } | { success: false; error: string }
+> {
+	const last = messages.at(-1);
+	const isNewMessage = (message: UIMessage) =>
+		message === last && message.role === "user";
+
+	const resolve = async (
+		attachment: Attachment,
+		message: UIMessage,
+	): Promise<SizedAttachment | string> => {
+		const id = getAttachmentId(attachment);
+		const name = attachment.name ?? "attachment";
+		if (!id) {
+			// Only uploads are accepted: the model shouldn't fetch arbitrary URLs on our behalf
+			return isNewMessage(message)
+				? `Attachment "${name}" was not uploaded`
+				: textAttachment(name, `[Attachment "${name}" is not available]`);
+		}
+
+		const stored = await findAttachment(id, user);
+		const kind = stored && getAttachmentKind(stored.contentType);
+		if (!stored || !kind) {
+			return isNewMessage(message)
+				? `Attachment "${name}" was not found`
+				: textAttachment(name, `[Attachment "${name}" is no longer available]`);
+		}
+
+		if (!canReadAttachment(def, kind)) {
+			return isNewMessage(message)
+				? `${def.displayName} can't read ${kindLabels[kind]} ("${stored.name}")`
+				: textAttachment(
+						stored.name,
+						`[Attachment "${stored.name}" omitted: ${def.displayName} can't read ${kindLabels[kind]}]`,
+					);
+		}
+
+		return {
+			name: stored.name,
+			contentType: stored.contentType,
+			url: stored.url,
+			size: stored.size,
+		};
+	};
+
+	const resolved: UIMessage[] = [];
+	for (const message of messages) {
+		if (!message.experimental_attachments?.length) {
+			resolved.push(message);
+			continue;
+		}
+
+		const attachments: Attachment[] = [];
+		for (const attachment of message.experimental_attachments) {
+			const result = await resolve(attachment, message);
+			if (typeof result === "string") {
+				return { success: false, error: result };
+			}
+			attachments.push(result);
+		}
+		resolved.push({ ...message, experimental_attachments: attachments });
+	}
+
+	return { success: true, messages: resolved };
+}
+
+/**
+ * Inlines the uploads the messages from `resolveAttachments` attach, as stored URLs mean nothing
+ * to the provider: images and PDFs as files, text files as text labelled with their name. Run it
+ * on the history that is sent, so the files of messages left out of the context aren't read; a
+ * file attached more than once is read once.
+ */
+export async function inlineAttachments(
+	messages: UIMessage[],
+	user: SessionUser,
+): Promise<UIMessage[]> {
+	const files = new Map<string, Promise<Attachment>>();
+
+	const inline = async (id: string, name: string): Promise<Attachment> => {
+		const stored = await loadAttachment(id, user);
+		if (!stored) {
+			// Removed since it was checked
+			return textAttachment(
+				name,
+				`[Attachment "${name}" is no longer available]`,
+			);
+		}
+
+		if (getAttachmentKind(stored.contentType) === "text") {
+			const text = new TextDecoder().decode(stored.data);
+			return textAttachment(
+				stored.name,
+				`<file name="${stored.name}">\n${text}\n</file>`,
+			);
+		}
+
+		return {
+			name: stored.name,
+			contentType: stored.contentType,
+			url: toDataUrl(stored.contentType, stored.data),
+		};
+	};
+
+	return Promise.all(
+		messages.map(async (message) => {
+			if (!message.experimental_attachments?.length) {
+				return message;
+			}
+
+			const attachments = await Promise.all(
+				message.experimental_attachments.map((attachment) => {
+					// Notes are inline already
+					const id = getAttachmentId(attachment);
+					if (!id) {
+						return attachment;
+					}
+
+					const file =
+						files.get(id) ?? inline(id, attachment.name ?? "attachment");
+					files.set(id, file);
+					return file;
+				}),
+			);
+			return { ...message, experimental_attachments: attachments };
+		}),
+	);
+}
+
+/**
+ * The capabilities a model needs to read the attachments of messages from `resolveAttachments`,
+ * e.g. to tell which fallbacks can take over a request.
+ */
+export function getAttachmentCapabilities(
+	messages: UIMessage[],
+): ModelCapability[] {
+	const capabilities = messages.flatMap((message) =>
+		(message.experimental_attachments ?? []).flatMap((attachment) => {
+			const kind = getAttachmentKind(attachment.contentType ?? "");
+			const capability = kind && attachmentCapabilities[kind];
+			return capability ? [capability] : [];
+		}),
+	);
+
+	return [...new Set(capabilities)];
+}
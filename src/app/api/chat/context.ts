@@ -0,0 +1,153 @@
+import type { UIMessage } from "ai";
+
+import {
+	type Compaction,
+	DEFAULT_CONTEXT_STRATEGY,
+	compactMessages,
+	estimateMessageTokens,
+	estimateTextTokens,
+	estimateTokens,
+	getContextBudget,
+} from "~/lib/contextWindow";
+import type { GenerationSettings } from "~/lib/generationSettings";
+import type { SessionUser } from "~/server/auth/access";
+import type { ModelDef } from "./models";
+import { CONTEXT_SUMMARY_MAX_TOKENS, summarizeForContext } from "./summaries";
+
+// A new summary leaves at most this share of the budget to the newest messages, so the requests
+// that follow can reuse it until the conversation has grown into the rest
+const SUMMARY_KEEP_SHARE = 0.5;
+const MAX_CACHED_SUMMARIES = 1000;
+
+/**
+ * Summaries of dropped history by the id of the last message they cover. Per process, and kept
+ * across HMR updates; a summary that is gone is written again.
+ */
+const globalForSummaries = globalThis as unknown as {
+	contextSummaries: Map<string, string> | undefined;
+};
+
+const summaries =
+	globalForSummaries.contextSummaries ?? new Map<string, string>();
+globalForSummaries.contextSummaries = summaries;
+
+function cacheSummary(messageId: string, summary: string) {
+	summaries.set(messageId, summary);
+	// Maps iterate in insertion order, so the first key is the oldest
+	const oldest = summaries.keys().next().value;
+	if (summaries.size > MAX_CACHED_SUMMARIES && oldest !== undefined) {
+		summaries.delete(oldest);
+	}
+}
+
+const summaryMessage = (
+	throughMessageId: string,
+	summary: string,
+): UIMessage => {
+	const text = `Summary of the earlier conversation, which was left out to fit the context window:\n\n${summary}`;
+	return {
+		id: `summary-${throughMessageId}`,
+		role: "user",
+		content: text,
+		parts: [{ type: "text", text }],
+	};
+};
+
+async function summarize(
+	messages: UIMessage[],
+	budget: number,
+	user: SessionUser,
+): Promise<{ messages: UIMessage[]; compaction?: Compaction }> {
+	const before = estimateTokens(messages);
+	if (before <= budget) {
+		return { messages };
+	}
+
+	// The earliest cut with a summary at hand that leaves the rest within the budget
+	let cut = 0;
+	let summary: string | undefined;
+	let rest = before;
+	for (const [index, message] of messages.slice(0, -1).entries()) {
+		rest -= estimateMessageTokens(message);
+		const cached = summaries.get(message.id);
+		if (
+			cached &&
+			messages[index + 1]?.role === "user" &&
+			rest + estimateTextTokens(cached) <= budget
+		) {
+			cut = index + 1;
+			summary = cached;
+			break;
+		}
+	}
+
+	if (!summary) {
+		const kept = compactMessages(
+			messages,
+			Math.min(
+				budget * SUMMARY_KEEP_SHARE,
+				budget - CONTEXT_SUMMARY_MAX_TOKENS,
+			),
+			"drop-oldest",
+		).messages;
+		cut = messages.length - kept.length;
+		summary =
+			cut > 0
+				? await summarizeForContext(user, messages.slice(0, cut)).catch(
+						(error) => {
+							console.error(
+								"Summarizing the earlier conversation failed:",
+								error,
+							);
+							return undefined;
+						},
+					)
+				: undefined;
+	}
+
+	const through = messages[cut - 1];
+	if (!summary || !through) {
+		// Without a summary model, or with nothing to summarize, the oldest messages just go
+		return compactMessages(messages, budget, "drop-oldest");
+	}
+	cacheSummary(through.id, summary);
+
+	const compacted = [
+		summaryMessage(through.id, summary),
+		...messages.slice(cut),
+	];
+	return {
+		messages: compacted,
+		compaction: {
+			strategy: "summarize",
+			throughMessageId: through.id,
+			droppedMessages: cut,
+			droppedDetails: 0,
+			summary,
+			estimatedTokens: { before, after: estimateTokens(compacted), budget },
+		},
+	};
+}
+
+/**
+ * Shortens the history to fit the context of every model in `chain` (the one picked and its
+ * fallbacks), the way the conversation's settings say. Only the request is affected; the stored
+ * conversation keeps every message.
+ */
+export async function fitContext(
+	messages: UIMessage[],
+	{
+		chain,
+		settings,
+		user,
+	}: { chain: ModelDef[]; settings: GenerationSettings; user: SessionUser },
+): Promise<{ messages: UIMessage[]; compaction?: Compaction }> {
+	const budget = Math.min(
+		...chain.map((def) => getContextBudget(def, settings)),
+	);
+	const strategy = settings.contextStrategy ?? DEFAULT_CONTEXT_STRATEGY;
+
+	return strategy === "summarize"
+		? summarize(messages, budget, user)
+		: compactMessages(messages, budget, strategy);
+}
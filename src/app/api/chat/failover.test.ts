@@ -0,0 +1,118 @@
+import {
+	APICallError,
+	type LanguageModelV1CallOptions,
+	type LanguageModelV1Prompt,
+} from "ai";
+import { MockLanguageModelV1, simulateReadableStream } from "ai/test";
+import { describe, expect, it, vi } from "vitest";
+
+import { FailoverLanguageModel } from "./failover";
+import { type ModelDef, getModelDef } from "./models";
+
+const prompts = vi.hoisted(() => [] as LanguageModelV1Prompt[]);
+
+// Anthropic is overloaded; OpenAI answers and keeps the prompts it was sent
+vi.mock("./models", async (importOriginal) => {
+	const original = await importOriginal<typeof import("./models")>();
+	return {
+		...original,
+		createLanguageModel: (def: ModelDef) =>
+			new MockLanguageModelV1({
+				provider: def.provider,
+				modelId: def.modelId,
+				doStream: async ({ prompt }: LanguageModelV1CallOptions) => {
+					if (def.provider === "anthropic") {
+						throw new APICallError({
+							message: "Overloaded",
+							url: "https://api.anthropic.com/v1/messages",
+							requestBodyValues: {},
+							statusCode: 529,
+							isRetryable: true,
+						});
+					}
+					prompts.push(prompt);
+					return {
+						stream: simulateReadableStream({
+							chunks: [
+								{ type: "text-delta" as const, textDelta: "Done." },
+								{
+									type: "finish" as const,
+									finishReason: "stop" as const,
+									usage: { promptTokens: 1, completionTokens: 1 },
+								},
+							],
+						}),
+						rawCall: { rawPrompt: prompt, rawSettings: {} },
+					};
+				},
+			}),
+	};
+});
+
+const call = (prompt: LanguageModelV1Prompt): LanguageModelV1CallOptions => ({
+	inputFormat: "messages",
+	mode: { type: "regular" },
+	prompt,
+});
+
+describe("FailoverLanguageModel", () => {
+	it("translates each message from the provider that wrote it", async () => {
+		vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+		const languageModel = new FailoverLanguageModel(
+			[
+				getModelDef("anthropic:smart") as ModelDef,
+				getModelDef("openai:smart") as ModelDef,
+			],
+			{},
+		);
+
+		// The history was prepared for Anthropic, the model the user picked
+		const history: LanguageModelV1Prompt = [
+			{ role: "user", content: [{ type: "text", text: "Why?" }] },
+			{
+				role: "assistant",
+				content: [
+					{ type: "reasoning", text: "Signed thinking", signature: "sig" },
+					{ type: "text", text: "Because." },
+				],
+			},
+			{ role: "user", content: [{ type: "text", text: "And then?" }] },
+		];
+		const first = languageModel.doStream(call(history));
+		await vi.runAllTimersAsync();
+		await first;
+		vi.useRealTimers();
+
+		// The next step goes on with OpenAI's answer to the first
+		await languageModel.doStream(
+			call([
+				...history,
+				{
+					role: "assistant",
+					content: [
+						{ type: "reasoning", text: "OpenAI summary" },
+						{ type: "text", text: "Then this." },
+					],
+				},
+			]),
+		);
+
+		expect(languageModel.calls.map(({ id }) => id)).toEqual([
+			"openai:smart",
+			"openai:smart",
+		]);
+		const [, second] = prompts;
+		expect(second?.[1]?.content).toEqual([
+			{
+				type: "text",
+				text: '<previous_reasoning source="anthropic">\nSigned thinking\n</previous_reasoning>',
+			},
+			{ type: "text", text: "Because." },
+		]);
+		// OpenAI's own reasoning goes back to it as it was
+		expect(second?.[3]?.content).toEqual([
+			{ type: "reasoning", text: "OpenAI summary" },
+			{ type: "text", text: "Then this." },
+		]);
+	});
+});
@@ -0,0 +1,402 @@
+import {
+	APICallError,
+	type LanguageModelV1,
+	type LanguageModelV1CallOptions,
+	type LanguageModelV1Prompt,
+	type LanguageModelV1StreamPart,
+} from "ai";
+
+import { translatePrompt } from "~/lib/CanonicalMessage";
+import {
+	type GenerationSettings,
+	getProviderOptions,
+	supportedSettings,
+} from "~/lib/generationSettings";
+import {
+	type ModelCapability,
+	type ModelDef,
+	type Provider,
+	createLanguageModel,
+	getModelDef,
+} from "./models";
+
+// Attempts per model before moving on to its fallback
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+// A provider that failed this many attempts in a row is skipped until the cooldown has passed;
+// the first call after it decides whether it stays skipped. Above the attempts per model, so one
+// overloaded model doesn't take the fallbacks its provider also serves down with it
+const FAILURE_THRESHOLD = 5;
+const COOLDOWN_MS = 60_000;
+
+// Errors providers stream rather than return as a status, e.g. Anthropic's overloaded event
+const RETRYABLE_ERROR_TYPES = [
+	"overloaded_error",
+	"rate_limit_error",
+	"api_error",
+	"server_error",
+];
+
+type Circuit = { failures: number; openUntil: number };
+
+/**
+ * Circuits are per process and shared by every request; keep them across HMR updates.
+ */
+const globalForCircuits = globalThis as unknown as {
+	circuits: Map<Provider, Circuit> | undefined;
+};
+
+const circuits = globalForCircuits.circuits ?? new Map<Provider, Circuit>();
+globalForCircuits.circuits = circuits;
+
+const isCircuitOpen = (provider: Provider) =>
+	(circuits.get(provider)?.openUntil ?? 0) > Date.now();
+
+function recordFailure(provider: Provider) {
+	const failures = (circuits.get(provider)?.failures ?? 0) + 1;
+	circuits.set(provider, {
+		failures,
+		openUntil: failures >= FAILURE_THRESHOLD ? Date.now() + COOLDOWN_MS : 0,
+	});
+}
+
+const recordSuccess = (provider: Provider) => circuits.delete(provider);
+
+/**
+ * Whether trying again (or elsewhere) may help: rate limits, server errors, overloads and network
+ * failures, but not e.g. an invalid request, which would fail the same way on any attempt.
+ */
+function isRetryable(error: unknown): boolean {
+	if (APICallError.isInstance(error)) {
+		return error.isRetryable;
+	}
+
+	return (
+		error !== null &&
+		typeof error === "object" &&
+		RETRYABLE_ERROR_TYPES.includes(String((error as { type?: unknown }).type))
+	);
+}
+
+// Exponential backoff, or as long as the provider asks (within reason)
+function getRetryDelay(error: unknown, attempt: number): number {
+	const retryAfter = APICallError.isInstance(error)
+		? Number(error.responseHeaders?.["retry-after"])
+		: Number.NaN;
+	const delay = Number.isFinite(retryAfter)
+		? retryAfter * 1000
+		: BASE_DELAY_MS * 2 ** attempt;
+
+	return Math.min(delay, MAX_DELAY_MS);
+}
+
+const sleep = (ms: number, signal: AbortSignal | undefined) =>
+	new Promise<void>((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const timeout = setTimeout(resolve, ms);
+		signal?.addEventListener(
+			"abort",
+			() => {
+				clearTimeout(timeout);
+				reject(signal.reason);
+			},
+			{ once: true },
+		);
+	});
+
+/**
+ * Waits for the first part of a stream that isn't metadata. An error before it means nothing has
+ * reached the user yet, so it is thrown and the call can be retried; the parts read so far are
+ * replayed otherwise.
+ */
+async function awaitFirstContent(
+	stream: ReadableStream<LanguageModelV1StreamPart>,
+): Promise<ReadableStream<LanguageModelV1StreamPart>> {
+	const reader = stream.getReader();
+	const buffered: LanguageModelV1StreamPart[] = [];
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		if (value.type === "error") {
+			reader.cancel().catch(() => {});
+			throw value.error;
+		}
+		buffered.push(value);
+		if (value.type !== "response-metadata") {
+			break;
+		}
+	}
+
+	return new ReadableStream({
+		start: (controller) => {
+			for (const part of buffered) {
+				controller.enqueue(part);
+			}
+		},
+		pull: async (controller) => {
+			const { done, value } = await reader.read();
+			if (done) {
+				controller.close();
+			} else {
+				controller.enqueue(value);
+			}
+		},
+		cancel: (reason) => reader.cancel(reason),
+	});
+}
+
+/**
+ * Objects are asked for in JSON mode. Models that produce them through a tool call instead
+ * (Anthropic's) get the schema as a tool they have to call, and their call comes back as the text
+ * of the answer.
+ */
+function asObjectTool(
+	model: LanguageModelV1,
+	options: LanguageModelV1CallOptions,
+): LanguageModelV1CallOptions | undefined {
+	const { mode } = options;
+	if (
+		mode.type !== "object-json" ||
+		model.defaultObjectGenerationMode !== "tool"
+	) {
+		return undefined;
+	}
+
+	return {
+		...options,
+		mode: {
+			type: "object-tool",
+			tool: {
+				type: "function",
+				name: mode.name ?? "json",
+				description: mode.description ?? "Respond with a JSON object.",
+				parameters: mode.schema ?? { type: "object" },
+			},
+		},
+	};
+}
+
+const toolCallAsText = () =>
+	new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+		transform: (part, controller) => {
+			if (part.type === "tool-call-delta") {
+				controller.enqueue({
+					type: "text-delta",
+					textDelta: part.argsTextDelta,
+				});
+			} else if (part.type === "finish") {
+				controller.enqueue({ ...part, finishReason: "stop" });
+			} else if (part.type !== "tool-call") {
+				controller.enqueue(part);
+			}
+		},
+	});
+
+/**
+ * The model the user picked followed by its catalog fallbacks, leaving out fallbacks whose
+ * provider isn't enabled or that lack a capability the request needs, e.g. vision for an image in
+ * the conversation.
+ */
+export function getFallbackChain(
+	def: ModelDef,
+	{
+		enabledProviders,
+		requires,
+	}: { enabledProviders: Provider[]; requires: ModelCapability[] },
+): ModelDef[] {
+	const fallbacks = def.fallbacks
+		.map(getModelDef)
+		.filter(
+			(fallback): fallback is ModelDef =>
+				!!fallback &&
+				fallback.id !== def.id &&
+				enabledProviders.includes(fallback.provider) &&
+				requires.every((capability) => fallback.capabilities[capability]),
+		);
+
+	return [def, ...fallbacks];
+}
+
+type Candidate = {
+	def: ModelDef;
+	model: LanguageModelV1;
+	// The call options that depend on the model: its provider options and the settings it supports
+	callOptions: Pick<
+		LanguageModelV1CallOptions,
+		"providerMetadata" | "temperature" | "topP" | "maxTokens"
+	>;
+};
+
+/**
+ * A `LanguageModelV1` that calls the first model of a fallback chain, retrying errors that may pass
+ * with backoff, and moving on to the next model when they don't. Providers that keep failing are
+ * skipped for a while (a circuit breaker), for every request.
+ *
+ * A call only fails over until the model has streamed something: after that the error is the
+ * answer's. Once a fallback has answered, the remaining steps of the request start with it, so a
+ * tool loop doesn't hop between providers.
+ *
+ * Call with `maxRetries: 0`, as the retries happen here.
+ */
+export class FailoverLanguageModel implements LanguageModelV1 {
+	readonly specificationVersion = "v1";
+	readonly provider: string;
+	readonly modelId: string;
+	// See `asObjectTool` for the models that don't take JSON mode
+	readonly defaultObjectGenerationMode = "json";
+	// Fallbacks may not take URLs, so the AI SDK downloads them up front
+	readonly supportsImageUrls = false;
+
+	// The model that answered each call, in order; a call is a step of `streamText`
+	readonly calls: ModelDef[] = [];
+	// The length of the prompt of each call: a later prompt goes on with the answer to it
+	private readonly promptLengths: number[] = [];
+
+	private readonly candidates: Candidate[];
+	private start = 0;
+
+	constructor(
+		chain: ModelDef[],
+		settings: GenerationSettings,
+		private readonly onModelUsed?: (def: ModelDef) => void,
+	) {
+		this.candidates = chain.map((def) => {
+			const usable = supportedSettings(def, settings);
+			return {
+				def,
+				model: createLanguageModel(def),
+				callOptions: {
+					providerMetadata: getProviderOptions(def, usable),
+					temperature: usable.temperature,
+					topP: usable.topP,
+					maxTokens: usable.maxOutputTokens,
+				},
+			};
+		});
+
+		const [primary] = chain;
+		this.provider = primary?.provider ?? "failover";
+		this.modelId = primary?.modelId ?? "failover";
+	}
+
+	/**
+	 * The prompt, with reasoning the model can't take as it is turned into text. The history was
+	 * prepared for the model the user picked; the messages of earlier steps are by the model that
+	 * answered them, which may have been a fallback.
+	 */
+	private translate(
+		prompt: LanguageModelV1Prompt,
+		def: ModelDef,
+	): LanguageModelV1Prompt {
+		const [primary] = this.candidates;
+		const target = {
+			provider: def.provider,
+			reasoning: def.capabilities.reasoning,
+		};
+
+		return prompt.flatMap((message, index) => {
+			let from = primary?.def.provider;
+			for (const [call, length] of this.promptLengths.entries()) {
+				if (length <= index) {
+					from = this.calls[call]?.provider;
+				}
+			}
+
+			return from && from !== def.provider
+				? translatePrompt([message], from, target)
+				: [message];
+		});
+	}
+
+	private async failover<T>(
+		options: LanguageModelV1CallOptions,
+		call: (
+			model: LanguageModelV1,
+			options: LanguageModelV1CallOptions,
+		) => Promise<T>,
+	): Promise<T> {
+		let lastError: unknown;
+
+		for (const [index, candidate] of this.candidates.entries()) {
+			const { def, model, callOptions } = candidate;
+			if (index < this.start || isCircuitOpen(def.provider)) {
+				continue;
+			}
+
+			const prompt = this.translate(options.prompt, def);
+
+			for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+				try {
+					const result = await call(model, {
+						...options,
+						...callOptions,
+						prompt,
+					});
+					recordSuccess(def.provider);
+					this.start = index;
+					this.calls.push(def);
+					this.promptLengths.push(options.prompt.length);
+					this.onModelUsed?.(def);
+					return result;
+				} catch (error) {
+					if (options.abortSignal?.aborted || !isRetryable(error)) {
+						throw error;
+					}
+
+					lastError = error;
+					recordFailure(def.provider);
+					if (isCircuitOpen(def.provider) || attempt === MAX_ATTEMPTS - 1) {
+						break;
+					}
+					await sleep(getRetryDelay(error, attempt), options.abortSignal);
+				}
+			}
+		}
+
+		if (lastError === undefined) {
+			const providers = [
+				...new Set(this.candidates.map(({ def }) => def.provider)),
+			];
+			throw new Error(
+				`${providers.join(" and ")} failed repeatedly; try again in a minute`,
+			);
+		}
+		throw lastError;
+	}
+
+	doGenerate(options: LanguageModelV1CallOptions) {
+		return this.failover(options, async (model, options) => {
+			const toolOptions = asObjectTool(model, options);
+			if (!toolOptions) {
+				return model.doGenerate(options);
+			}
+
+			const result = await model.doGenerate(toolOptions);
+			return {
+				...result,
+				text: result.toolCalls?.[0]?.args,
+				toolCalls: undefined,
+				finishReason: "stop" as const,
+			};
+		});
+	}
+
+	doStream(options: LanguageModelV1CallOptions) {
+		return this.failover(options, async (model, options) => {
+			const toolOptions = asObjectTool(model, options);
+			const result = await model.doStream(toolOptions ?? options);
+			const stream = toolOptions
+				? result.stream.pipeThrough(toolCallAsText())
+				: result.stream;
+			return { ...result, stream: await awaitFirstContent(stream) };
+		});
+	}
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { checkLimits } from "./limits";
+import { type ModelDef, getModelDef } from "./models";
+
+// The limits are read from a file named by the environment, before `~/env` is loaded
+vi.hoisted(async () => {
+	const { mkdtempSync, writeFileSync } = await import("node:fs");
+	const { tmpdir } = await import("node:os");
+	const path = await import("node:path");
+
+	const file = path.join(
+		mkdtempSync(path.join(tmpdir(), "limits-")),
+		"limits.json",
+	);
+	writeFileSync(
+		file,
+		JSON.stringify({
+			user: { requestsPerMinute: 3 },
+			modelClasses: { smart: { requestsPerMinute: 1 } },
+		}),
+	);
+	process.env.RATE_LIMITS = file;
+	process.env.RATE_LIMIT_STORE = "memory";
+});
+
+const user = { id: "user-1", role: "member" as const };
+const smart = getModelDef("mock:smart") as ModelDef;
+const fallback = getModelDef("mock:default") as ModelDef;
+
+describe("checkLimits", () => {
+	// Within one minute, so the request counters don't start over
+	beforeEach(() => {
+		vi.useFakeTimers({
+			toFake: ["Date"],
+			now: new Date("2026-01-01T12:00:00Z"),
+		});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("only counts requests that get through every limit", async () => {
+		expect(await checkLimits(user, smart)).toBeUndefined();
+
+		// Turned away by the class limit, so these don't count towards the user's
+		for (let attempt = 0; attempt < 3; attempt++) {
+			expect(await checkLimits(user, smart)).toMatchObject({
+				scope: "smart",
+				metric: "requests",
+				limit: 1,
+				used: 1,
+			});
+		}
+
+		expect(await checkLimits(user, fallback)).toBeUndefined();
+		expect(await checkLimits(user, fallback)).toBeUndefined();
+		expect(await checkLimits(user, fallback)).toMatchObject({
+			scope: "all",
+			used: 3,
+		});
+	});
+
+	it("lets only as many requests at the same time through as the limit allows", async () => {
+		const racing = { id: "user-2", role: "member" as const };
+
+		const results = await Promise.all(
+			Array.from({ length: 6 }, () => checkLimits(racing, fallback)),
+		);
+
+		expect(results.filter((result) => result === undefined)).toHaveLength(3);
+		// The requests turned away were taken back off
+		expect(await checkLimits(racing, fallback)).toMatchObject({
+			scope: "all",
+			used: 3,
+		});
+	});
+
+	it("doesn't count the calls made on the user's behalf as requests", async () => {
+		const background = { id: "user-3", role: "member" as const };
+
+		for (let call = 0; call < 5; call++) {
+			expect(
+				await checkLimits(background, fallback, { countsAsRequest: false }),
+			).toBeUndefined();
+		}
+		for (let request = 0; request < 3; request++) {
+			expect(await checkLimits(background, fallback)).toBeUndefined();
+		}
+	});
+});
@@ -0,0 +1,197 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+
+import { env } from "~/env";
+import {
+	type LimitMetric,
+	type RateLimitExceeded,
+	describeLimit,
+} from "~/lib/rateLimits";
+import type { MessageUsage } from "~/lib/usage";
+import type { SessionUser } from "~/server/auth/access";
+import { roles } from "~/server/db/schema";
+import { type CounterKey, limitStore } from "~/server/limits";
+import type { ModelDef } from "./models";
+
+const limitsSchema = z.object({
+	requestsPerMinute: z.number().int().positive().optional(),
+	tokensPerDay: z.number().int().positive().optional(),
+	dollarsPerMonth: z.number().positive().optional(),
+});
+
+type Limits = z.infer<typeof limitsSchema>;
+
+const rateLimitConfigSchema = z.object({
+	// Each user's limits across every model
+	user: limitsSchema.default({}),
+	// Each user's limits across the models of a class, e.g. `smart` for `openai:smart` and
+	// `anthropic:smart`
+	modelClasses: z.record(limitsSchema).default({}),
+	exemptRoles: z.array(z.enum(roles)).default([]),
+});
+
+type RateLimitConfig = z.infer<typeof rateLimitConfigSchema>;
+
+const limitKeys: Record<LimitMetric, keyof Limits> = {
+	requests: "requestsPerMinute",
+	tokens: "tokensPerDay",
+	cost: "dollarsPerMonth",
+};
+
+// When the current window of a metric ends: the next minute, UTC day or UTC month
+function windowEnd(metric: LimitMetric, now: Date): Date {
+	switch (metric) {
+		case "requests":
+			return new Date(Math.floor(now.getTime() / 60_000 + 1) * 60_000);
+		case "tokens":
+			return new Date(
+				Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1),
+			);
+		case "cost":
+			return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1));
+	}
+}
+
+let configPromise: Promise<RateLimitConfig | undefined> | undefined;
+
+/**
+ * Reads the limits from the file at `RATE_LIMITS` once per process. A broken config fails loudly
+ * rather than silently leaving everything unlimited.
+ */
+function loadRateLimitConfig(): Promise<RateLimitConfig | undefined> {
+	const path = env.RATE_LIMITS;
+	if (!path) {
+		return Promise.resolve(undefined);
+	}
+
+	configPromise ??= readFile(path, "utf8").then((text) => {
+		const result = rateLimitConfigSchema.safeParse(JSON.parse(text));
+		if (!result.success) {
+			throw new Error(
+				`Invalid rate limits in ${path}: ${result.error.issues
+					.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+					.join("; ")}`,
+			);
+		}
+		return result.data;
+	});
+	return configPromise;
+}
+
+export const getModelClass = (def: ModelDef) =>
+	def.id.slice(def.id.indexOf(":") + 1);
+
+type Rule = { scope: string; metric: LimitMetric; limit: number };
+
+// The limits that apply to `user` calling the model
+async function getRules(user: SessionUser, def: ModelDef): Promise<Rule[]> {
+	const config = await loadRateLimitConfig();
+	if (!config || config.exemptRoles.includes(user.role)) {
+		return [];
+	}
+
+	const modelClass = getModelClass(def);
+	const scopes: [string, Limits | undefined][] = [
+		["all", config.user],
+		[modelClass, config.modelClasses[modelClass]],
+	];
+
+	return scopes.flatMap(([scope, limits]) =>
+		Object.entries(limitKeys).flatMap(([metric, key]) => {
+			const limit = limits?.[key];
+			return limit === undefined
+				? []
+				: [{ scope, metric: metric as LimitMetric, limit }];
+		}),
+	);
+}
+
+const counterKey = (user: SessionUser, rule: Rule, now: Date): CounterKey => ({
+	userId: user.id,
+	scope: rule.scope,
+	metric: rule.metric,
+	resetsAt: windowEnd(rule.metric, now),
+});
+
+/**
+ * Counts a request of `user` to the model against their limits. Returns the limit that stops it,
+ * if any: when several do, the one that lasts longest, since the user has to wait for all of them.
+ *
+ * Tokens and spend are only known once an answer is done (see `recordUsage`), so reaching those
+ * limits stops the next request rather than cutting the current answer short.
+ *
+ * Calls the app makes on the user's behalf, like titles and summaries, pass `countsAsRequest:
+ * false`: they are held to the token and spend limits, but don't take up the user's requests.
+ */
+export async function checkLimits(
+	user: SessionUser,
+	def: ModelDef,
+	{ countsAsRequest = true }: { countsAsRequest?: boolean } = {},
+): Promise<RateLimitExceeded | undefined> {
+	const rules = (await getRules(user, def)).filter(
+		({ metric }) => countsAsRequest || metric !== "requests",
+	);
+	const now = new Date();
+	const exceeded: RateLimitExceeded[] = [];
+
+	const reached = (rule: Rule, used: number, key: CounterKey) =>
+		exceeded.push({
+			error: "rate_limited",
+			message: `Limit reached: ${describeLimit(rule)}`,
+			...rule,
+			used,
+			resetsAt: key.resetsAt.toISOString(),
+		});
+
+	for (const rule of rules.filter(({ metric }) => metric !== "requests")) {
+		const key = counterKey(user, rule, now);
+		const used = await limitStore.get(key);
+		if (used >= rule.limit) {
+			reached(rule, used, key);
+		}
+	}
+	if (exceeded.length > 0) {
+		return exceeded.sort((a, b) => b.resetsAt.localeCompare(a.resetsAt))[0];
+	}
+
+	// Counted and checked in one step, so requests at the same time can't all see room for one
+	// more. Only requests that get through every limit count: the others are taken back off
+	const counted: CounterKey[] = [];
+	for (const rule of rules.filter(({ metric }) => metric === "requests")) {
+		const key = counterKey(user, rule, now);
+		const used = await limitStore.add(key, 1);
+		counted.push(key);
+		if (used > rule.limit) {
+			reached(rule, used - 1, key);
+		}
+	}
+	if (exceeded.length > 0) {
+		for (const key of counted) {
+			await limitStore.add(key, -1);
+		}
+	}
+
+	return exceeded.sort((a, b) => b.resetsAt.localeCompare(a.resetsAt))[0];
+}
+
+/**
+ * Adds the tokens and cost of an answer to the counters of the limits they fall under.
+ */
+export async function recordUsage(
+	user: SessionUser,
+	def: ModelDef,
+	usage: MessageUsage,
+) {
+	const now = new Date();
+	const amounts: Partial<Record<LimitMetric, number>> = {
+		tokens: usage.promptTokens + usage.completionTokens,
+		cost: usage.cost,
+	};
+
+	for (const rule of await getRules(user, def)) {
+		const amount = amounts[rule.metric];
+		if (amount) {
+			await limitStore.add(counterKey(user, rule, now), amount);
+		}
+	}
+}
@@ -0,0 +1,61 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+
+import { env } from "~/env";
+
+const serverOptionsSchema = z.object({
+	enabled: z.boolean().default(true),
+	// How much the server's tools can do; unknown servers are assumed to write, so calls need approval
+	sideEffect: z.enum(["none", "read", "write"]).default("write"),
+	requiresConfirmation: z.boolean().optional(),
+	enabledByDefault: z.boolean().default(true),
+});
+
+const mcpServerConfigSchema = z.discriminatedUnion("type", [
+	serverOptionsSchema.extend({
+		type: z.literal("stdio"),
+		command: z.string(),
+		args: z.array(z.string()).default([]),
+		env: z.record(z.string()).optional(),
+		cwd: z.string().optional(),
+	}),
+	serverOptionsSchema.extend({
+		type: z.literal("sse"),
+		url: z.string().url(),
+		headers: z.record(z.string()).optional(),
+	}),
+]);
+
+export type McpServerConfig = z.infer<typeof mcpServerConfigSchema>;
+
+const mcpConfigSchema = z.object({
+	// Names prefix the server's tools, and tool names are limited to these characters
+	servers: z.record(
+		z.string().regex(/^[a-zA-Z0-9-]+$/, "Use letters, digits and dashes"),
+		mcpServerConfigSchema,
+	),
+});
+
+/**
+ * Reads the MCP servers from the file at `MCP_CONFIG`, if set. A broken config fails loudly rather
+ * than silently leaving the tools out.
+ */
+export async function loadMcpConfig(): Promise<
+	Record<string, McpServerConfig>
+> {
+	if (!env.MCP_CONFIG) {
+		return {};
+	}
+
+	const text = await readFile(env.MCP_CONFIG, "utf8");
+	const result = mcpConfigSchema.safeParse(JSON.parse(text));
+	if (!result.success) {
+		throw new Error(
+			`Invalid MCP config in ${env.MCP_CONFIG}: ${result.error.issues
+				.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+				.join("; ")}`,
+		);
+	}
+
+	return result.data.servers;
+}
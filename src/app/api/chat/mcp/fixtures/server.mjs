@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+/**
+ * A minimal MCP server speaking newline-delimited JSON-RPC over stdio, with a couple of tools and
+ * resources. It has no dependencies, so `mcp.example.json` can point at it to try the MCP client
+ * without installing or reaching anything. With `--unresponsive` it reads requests and never
+ * answers, like a server that hangs on startup.
+ */
+import { createInterface } from "node:readline";
+
+const tools = [
+	{
+		name: "echo",
+		description: "Repeats the given text back",
+		inputSchema: {
+			type: "object",
+			properties: { text: { type: "string" } },
+			required: ["text"],
+		},
+		call: ({ text }) => text,
+	},
+	{
+		name: "add",
+		description: "Adds two numbers",
+		inputSchema: {
+			type: "object",
+			properties: { a: { type: "number" }, b: { type: "number" } },
+			required: ["a", "b"],
+		},
+		call: ({ a, b }) => String(a + b),
+	},
+	{
+		// Not a valid tool name for providers, so the client has to rename it
+		name: "text.reverse",
+		description: "Reverses the given text",
+		inputSchema: {
+			type: "object",
+			properties: { text: { type: "string" } },
+			required: ["text"],
+		},
+		call: ({ text }) => [...text].reverse().join(""),
+	},
+];
+
+const resources = [
+	{
+		uri: "fixture://readme",
+		name: "README",
+		description: "What this server is for",
+		mimeType: "text/plain",
+		text: "A fixture MCP server for local development.",
+	},
+];
+
+function handle(method, params) {
+	switch (method) {
+		case "initialize":
+			return {
+				protocolVersion: params.protocolVersion,
+				capabilities: { tools: {}, resources: {} },
+				serverInfo: { name: "fixture", version: "1.0.0" },
+			};
+		case "tools/list":
+			return {
+				tools: tools.map(({ name, description, inputSchema }) => ({
+					name,
+					description,
+					inputSchema,
+				})),
+			};
+		case "tools/call": {
+			const tool = tools.find((tool) => tool.name === params.name);
+			if (!tool) {
+				return {
+					content: [{ type: "text", text: `Unknown tool "${params.name}"` }],
+					isError: true,
+				};
+			}
+			return {
+				content: [{ type: "text", text: tool.call(params.arguments ?? {}) }],
+			};
+		}
+		case "resources/list":
+			return {
+				resources: resources.map(({ text, ...resource }) => resource),
+			};
+		case "resources/read": {
+			const resource = resources.find(
+				(resource) => resource.uri === params.uri,
+			);
+			if (!resource) {
+				throw new Error(`Unknown resource "${params.uri}"`);
+			}
+			return {
+				contents: [
+					{
+						uri: resource.uri,
+						mimeType: resource.mimeType,
+						text: resource.text,
+					},
+				],
+			};
+		}
+		default:
+			throw new Error(`Method not found: ${method}`);
+	}
+}
+
+const send = (message) =>
+	process.stdout.write(`${JSON.stringify({ jsonrpc: "2.0", ...message })}\n`);
+
+createInterface({ input: process.stdin }).on("line", (line) => {
+	if (!line.trim()) {
+		return;
+	}
+
+	const { id, method, params = {} } = JSON.parse(line);
+	// Notifications don't get a response
+	if (id === undefined || process.argv.includes("--unresponsive")) {
+		return;
+	}
+
+	try {
+		send({ id, result: handle(method, params) });
+	} catch (error) {
+		send({ id, error: { code: -32601, message: error.message } });
+	}
+});
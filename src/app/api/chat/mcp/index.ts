@@ -0,0 +1,8 @@
+export type { McpServerConfig } from "./config";
+export {
+	connectMcpServers,
+	getMcpStatus,
+	type McpResource,
+	type McpServerStatus,
+	reconnectMcpServer,
+} from "./servers";
@@ -0,0 +1,147 @@
+import { fileURLToPath } from "node:url";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { executeTool, hasTool, listTools } from "../tools";
+import type { McpServerConfig } from "./config";
+import { getMcpStatus, qualifyToolNames } from "./servers";
+
+const mcp = vi.hoisted(() => ({
+	servers: {} as Record<string, McpServerConfig>,
+}));
+
+vi.mock("./config", () => ({
+	loadMcpConfig: async () => mcp.servers,
+}));
+
+const fixtureServer = (args: string[] = []): McpServerConfig => ({
+	type: "stdio",
+	command: process.execPath,
+	args: [
+		fileURLToPath(new URL("./fixtures/server.mjs", import.meta.url)),
+		...args,
+	],
+	enabled: true,
+	sideEffect: "none",
+	enabledByDefault: true,
+});
+
+// Connections are made once per process; start over with the servers given
+const useServers = (servers: Record<string, McpServerConfig>) => {
+	(globalThis as { mcp?: unknown }).mcp = undefined;
+	mcp.servers = servers;
+};
+
+describe("qualifyToolNames", () => {
+	it("prefixes tool names with the server's", () => {
+		expect(qualifyToolNames("files", ["read", "write"])).toEqual(
+			new Map([
+				["files__read", "read"],
+				["files__write", "write"],
+			]),
+		);
+	});
+
+	it("replaces characters providers don't accept", () => {
+		expect([...qualifyToolNames("web", ["fetch.url", "ask ai/now"])]).toEqual([
+			["web__fetch_url", "fetch.url"],
+			["web__ask_ai_now", "ask ai/now"],
+		]);
+	});
+
+	it("cuts long names to 64 characters and keeps them apart", () => {
+		const long = "a".repeat(80);
+		const names = [...qualifyToolNames("server", [long, `${long}b`]).keys()];
+
+		expect(names).toEqual([
+			`server__${"a".repeat(56)}`,
+			`server__${"a".repeat(54)}_2`,
+		]);
+		for (const name of names) {
+			expect(name).toMatch(/^[a-zA-Z0-9_-]{1,64}$/);
+		}
+	});
+
+	it("numbers names that would be the same", () => {
+		expect([
+			...qualifyToolNames(
+				"db",
+				["get.row", "get_row", "get row"],
+				new Set(["db__get_row"]),
+			),
+		]).toEqual([
+			["db__get_row_2", "get.row"],
+			["db__get_row_3", "get_row"],
+			["db__get_row_4", "get row"],
+		]);
+	});
+});
+
+describe("MCP servers over stdio", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("discovers the fixture server's tools and resources", async () => {
+		useServers({ fixture: fixtureServer() });
+
+		const { servers } = await getMcpStatus();
+
+		expect(servers).toEqual([
+			{
+				name: "fixture",
+				transport: "stdio",
+				state: "connected",
+				error: undefined,
+				tools: [
+					{ name: "echo", description: "Repeats the given text back" },
+					{ name: "add", description: "Adds two numbers" },
+					{ name: "text.reverse", description: "Reverses the given text" },
+				],
+				resources: [
+					{
+						uri: "fixture://readme",
+						name: "README",
+						description: "What this server is for",
+						mimeType: "text/plain",
+					},
+				],
+			},
+		]);
+		expect(
+			listTools()
+				.filter((tool) => tool.category === "mcp: fixture")
+				.map((tool) => tool.name),
+		).toEqual(["fixture__echo", "fixture__add", "fixture__text_reverse"]);
+	});
+
+	it("calls tools under their registry names", async () => {
+		useServers({ fixture: fixtureServer() });
+		await getMcpStatus();
+
+		expect(await executeTool("fixture__add", { a: 2, b: 3 })).toMatchObject({
+			content: [{ type: "text", text: "5" }],
+		});
+		// The server is asked for the tool by its own name
+		expect(
+			await executeTool("fixture__text_reverse", { text: "stressed" }),
+		).toMatchObject({ content: [{ type: "text", text: "desserts" }] });
+	});
+
+	it("gives up on a server that doesn't answer", async () => {
+		vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+		useServers({ hung: fixtureServer(["--unresponsive"]) });
+
+		const status = getMcpStatus();
+		await vi.advanceTimersByTimeAsync(15_000);
+
+		expect((await status).servers).toMatchObject([
+			{
+				name: "hung",
+				state: "failed",
+				error: "Timed out connecting",
+				tools: [],
+			},
+		]);
+		expect(hasTool("hung__echo")).toBe(false);
+	});
+});
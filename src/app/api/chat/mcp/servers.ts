@@ -0,0 +1,322 @@
+import { type Tool, experimental_createMCPClient } from "ai";
+import { Experimental_StdioMCPTransport } from "ai/mcp-stdio";
+
+import { hasTool, registerTool, unregisterTool } from "../tools/registry";
+import { type McpServerConfig, loadMcpConfig } from "./config";
+import { RequestingTransport } from "./transport";
+
+const CONNECT_TIMEOUT_MS = 15_000;
+
+type MCPClient = Awaited<ReturnType<typeof experimental_createMCPClient>>;
+
+export type McpResource = {
+	uri: string;
+	name: string;
+	description?: string;
+	mimeType?: string;
+};
+
+/**
+ * What the UI shows for a configured server.
+ */
+export type McpServerStatus = {
+	name: string;
+	transport: McpServerConfig["type"];
+	state: "disabled" | "connecting" | "connected" | "failed";
+	error?: string;
+	tools: { name: string; description?: string }[];
+	resources: McpResource[];
+};
+
+type McpServer = McpServerStatus & {
+	config: McpServerConfig;
+	client?: MCPClient;
+	mcpTools: Record<string, Tool>;
+	// From the names the tools are registered under to their keys in `mcpTools`
+	toolNames: Map<string, string>;
+	ready: Promise<void>;
+};
+
+/**
+ * Keep the connections (and the server processes behind them) across HMR updates in development.
+ */
+type McpState = {
+	servers: Map<string, McpServer>;
+	configError?: string;
+	loaded: Promise<void>;
+};
+
+const globalForMcp = globalThis as unknown as { mcp: McpState | undefined };
+
+// What providers accept as a tool name
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Registry names for a server's tools: `<server>__<tool>`, which providers only accept with
+ * letters, digits, underscores and dashes, and up to 64 characters. MCP tool names can be anything,
+ * so other characters become underscores and long names are cut, with a number added where that
+ * makes two names the same, or a name another server's tool already has. The result maps each
+ * registry name back to the tool's own.
+ */
+export function qualifyToolNames(
+	server: string,
+	tools: string[],
+	taken: Set<string> = new Set(),
+): Map<string, string> {
+	const names = new Map<string, string>();
+
+	for (const tool of tools) {
+		const base = `${server}__${tool}`
+			.replace(/[^a-zA-Z0-9_-]/g, "_")
+			.slice(0, MAX_TOOL_NAME_LENGTH);
+		let name = base;
+		for (let n = 2; names.has(name) || taken.has(name); n++) {
+			const suffix = `_${n}`;
+			name = base.slice(0, MAX_TOOL_NAME_LENGTH - suffix.length) + suffix;
+		}
+		names.set(name, tool);
+	}
+
+	return names;
+}
+
+function getText(result: unknown): string {
+	const content = (result as { content?: { type: string; text?: string }[] })
+		.content;
+
+	return (content ?? [])
+		.filter((part) => part.type === "text")
+		.map((part) => part.text)
+		.join("\n");
+}
+
+function unregisterServerTools(server: McpServer) {
+	for (const name of server.toolNames.keys()) {
+		unregisterTool(name);
+	}
+}
+
+/**
+ * Adds the server's tools to the tool registry, so they can be enabled and approved like built-ins.
+ * Also run when the registry lost them to a module reload.
+ */
+function registerServerTools(server: McpServer) {
+	for (const [qualifiedName, name] of server.toolNames) {
+		const mcpTool = server.mcpTools[name];
+		if (!mcpTool || hasTool(qualifiedName)) {
+			continue;
+		}
+
+		registerTool({
+			name: qualifiedName,
+			description: mcpTool.description ?? name,
+			parameters: mcpTool.parameters,
+			// The server knows the tool by its own name
+			execute: async (args) => {
+				const result = await mcpTool.execute?.(args, {
+					toolCallId: qualifiedName,
+					messages: [],
+				});
+				if ((result as { isError?: boolean }).isError) {
+					throw new Error(getText(result) || `${name} failed`);
+				}
+				return result;
+			},
+			category: `mcp: ${server.name}`,
+			sideEffect: server.config.sideEffect,
+			enabledByDefault: server.config.enabledByDefault,
+			requiresConfirmation: server.config.requiresConfirmation,
+		});
+	}
+}
+
+function fail(server: McpServer, error: unknown) {
+	unregisterServerTools(server);
+	server.state = "failed";
+	server.error = error instanceof Error ? error.message : String(error);
+	server.tools = [];
+	server.resources = [];
+	server.mcpTools = {};
+	server.toolNames = new Map();
+	void server.client?.close();
+	server.client = undefined;
+}
+
+async function listResources(
+	transport: RequestingTransport,
+): Promise<McpResource[]> {
+	try {
+		const result = (await transport.request("resources/list")) as {
+			resources?: McpResource[];
+		};
+		return result.resources ?? [];
+	} catch {
+		// Servers without resources don't have to implement the method
+		return [];
+	}
+}
+
+async function connect(server: McpServer) {
+	const { config } = server;
+
+	try {
+		// The SDK only exposes the SSE transport through its config, so resources can only be
+		// listed for stdio servers
+		let transport: RequestingTransport | undefined;
+		if (config.type === "stdio") {
+			transport = new RequestingTransport(
+				new Experimental_StdioMCPTransport({
+					command: config.command,
+					args: config.args,
+					env: config.env,
+					cwd: config.cwd,
+				}),
+				() => {
+					if (server.state === "connected") {
+						fail(server, new Error("The server exited"));
+					}
+				},
+			);
+		}
+
+		const connecting = experimental_createMCPClient({
+			name: "chatbot-next",
+			transport:
+				config.type === "sse"
+					? { type: "sse", url: config.url, headers: config.headers }
+					: (transport as RequestingTransport),
+			onUncaughtError: (error) => fail(server, error),
+		});
+		let timeout: ReturnType<typeof setTimeout> | undefined;
+		const client = await Promise.race([
+			connecting,
+			new Promise<never>((_, reject) => {
+				timeout = setTimeout(() => {
+					// Don't leave the server process behind, whether it shows up late or not at all
+					void connecting.then((client) => client.close()).catch(() => {});
+					void transport?.close();
+					reject(new Error("Timed out connecting"));
+				}, CONNECT_TIMEOUT_MS);
+			}),
+		]).finally(() => clearTimeout(timeout));
+		server.client = client;
+
+		server.mcpTools = await client.tools();
+		server.toolNames = qualifyToolNames(
+			server.name,
+			Object.keys(server.mcpTools),
+			new Set(
+				[...(globalForMcp.mcp?.servers.values() ?? [])]
+					.filter((other) => other !== server)
+					.flatMap((other) => [...other.toolNames.keys()]),
+			),
+		);
+		server.tools = Object.entries(server.mcpTools).map(
+			([name, { description }]) => ({ name, description }),
+		);
+		server.resources = transport ? await listResources(transport) : [];
+		server.state = "connected";
+		server.error = undefined;
+
+		registerServerTools(server);
+	} catch (error) {
+		fail(server, error);
+	}
+}
+
+function createServer(name: string, config: McpServerConfig): McpServer {
+	const server: McpServer = {
+		name,
+		transport: config.type,
+		state: config.enabled ? "connecting" : "disabled",
+		tools: [],
+		resources: [],
+		config,
+		mcpTools: {},
+		toolNames: new Map(),
+		ready: Promise.resolve(),
+	};
+
+	if (config.enabled) {
+		server.ready = connect(server);
+	}
+
+	return server;
+}
+
+/**
+ * Connects to the servers in the MCP config on first use and waits until every server either
+ * connected or failed. Cheap to call again.
+ */
+export async function connectMcpServers() {
+	if (!globalForMcp.mcp) {
+		const mcp: McpState = {
+			servers: new Map(),
+			loaded: Promise.resolve(),
+		};
+		mcp.loaded = loadMcpConfig().then(
+			(configs) => {
+				for (const [name, config] of Object.entries(configs)) {
+					mcp.servers.set(name, createServer(name, config));
+				}
+			},
+			(error: unknown) => {
+				mcp.configError =
+					error instanceof Error ? error.message : String(error);
+				console.error(mcp.configError);
+			},
+		);
+		globalForMcp.mcp = mcp;
+	}
+
+	const { servers, loaded } = globalForMcp.mcp;
+	await loaded;
+	await Promise.all([...servers.values()].map((server) => server.ready));
+
+	for (const server of servers.values()) {
+		if (server.state === "connected") {
+			registerServerTools(server);
+		}
+	}
+}
+
+export async function getMcpStatus(): Promise<{
+	servers: McpServerStatus[];
+	configError?: string;
+}> {
+	await connectMcpServers();
+
+	return {
+		servers: [...(globalForMcp.mcp?.servers.values() ?? [])].map(
+			({ name, transport, state, error, tools, resources }) => ({
+				name,
+				transport,
+				state,
+				error,
+				tools,
+				resources,
+			}),
+		),
+		configError: globalForMcp.mcp?.configError,
+	};
+}
+
+/**
+ * Drops the connection to a server and starts a new one, e.g. after it crashed.
+ */
+export async function reconnectMcpServer(name: string) {
+	const server = globalForMcp.mcp?.servers.get(name);
+	if (!server || server.state === "disabled") {
+		throw new Error(`No enabled MCP server named "${name}"`);
+	}
+
+	// Detach the old connection first, so its closing can't touch the replacement's tools
+	unregisterServerTools(server);
+	server.state = "failed";
+	server.tools = [];
+	await server.client?.close();
+
+	const replacement = createServer(name, server.config);
+	globalForMcp.mcp?.servers.set(name, replacement);
+	await replacement.ready;
+}
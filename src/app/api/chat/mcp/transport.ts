@@ -0,0 +1,83 @@
+import type { JSONRPCMessage, MCPTransport } from "ai";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+type PendingRequest = {
+	resolve: (result: unknown) => void;
+	reject: (error: Error) => void;
+};
+
+/**
+ * Sits between the AI SDK's MCP client and the real transport. The client only speaks the tool
+ * methods, so requests it doesn't know (like `resources/list`) are sent here under ids of our own
+ * and their responses are kept from the client. `onDisconnect` learns about the server going away,
+ * which the client keeps to itself.
+ */
+export class RequestingTransport implements MCPTransport {
+	onclose?: () => void;
+	onerror?: (error: Error) => void;
+	onmessage?: (message: JSONRPCMessage) => void;
+
+	private pending = new Map<string, PendingRequest>();
+	private nextId = 0;
+
+	constructor(
+		private readonly inner: MCPTransport,
+		onDisconnect?: () => void,
+	) {
+		inner.onmessage = (message) => {
+			const id = "id" in message ? String(message.id) : undefined;
+			const request = id === undefined ? undefined : this.pending.get(id);
+			if (!request || !id) {
+				this.onmessage?.(message);
+				return;
+			}
+
+			this.pending.delete(id);
+			if ("error" in message) {
+				request.reject(new Error(message.error.message));
+			} else if ("result" in message) {
+				request.resolve(message.result);
+			}
+		};
+		inner.onclose = () => {
+			for (const request of this.pending.values()) {
+				request.reject(new Error("The MCP server closed the connection"));
+			}
+			this.pending.clear();
+			this.onclose?.();
+			onDisconnect?.();
+		};
+		inner.onerror = (error) =>
+			this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+	}
+
+	start() {
+		return this.inner.start();
+	}
+
+	send(message: JSONRPCMessage) {
+		return this.inner.send(message);
+	}
+
+	close() {
+		return this.inner.close();
+	}
+
+	async request(method: string, params?: Record<string, unknown>) {
+		const id = `requesting-transport-${this.nextId++}`;
+
+		const response = new Promise<unknown>((resolve, reject) => {
+			this.pending.set(id, { resolve, reject });
+			setTimeout(() => {
+				if (this.pending.delete(id)) {
+					reject(new Error(`${method} timed out`));
+				}
+			}, REQUEST_TIMEOUT_MS);
+		});
+
+		await this.send({ jsonrpc: "2.0", id, method, params });
+
+		return response;
+	}
+}
@@ -0,0 +1,144 @@
+import type { LanguageModelV1Prompt } from "ai";
+
+import echo from "./fixtures/echo.json";
+import error from "./fixtures/error.json";
+import json from "./fixtures/json.json";
+import overloaded from "./fixtures/overloaded.json";
+import reasoningAnthropic from "./fixtures/reasoning-anthropic.json";
+import reasoningOpenai from "./fixtures/reasoning-openai.json";
+import toolCall from "./fixtures/tool-call.json";
+
+/**
+ * One scripted piece of a mock response. Text may contain `{{prompt}}` (the last user message) and
+ * `{{toolResult}}` (the most recent tool result, JSON encoded) placeholders.
+ */
+export type MockStep =
+	| { type: "text"; text: string }
+	| {
+			type: "reasoning";
+			text: string;
+			// Anthropic-style thinking is signed, OpenAI-style summaries are not
+			signature?: string;
+			// Skip this step when the selected mock model doesn't reason
+			reasoningModelsOnly?: boolean;
+	  }
+	| { type: "redacted-reasoning"; data: string }
+	| { type: "tool-call"; toolName: string; args: Record<string, unknown> }
+	| {
+			type: "error";
+			message: string;
+			// Fail like a provider's API with this status (retryable if 408, 409, 429 or 5xx)
+			statusCode?: number;
+			// Only fail on these mock model ids, e.g. to exercise fallbacks
+			modelIds?: string[];
+	  };
+
+/**
+ * A scripted conversation turn. `responses[n]` answers the n-th model call of a turn, so a fixture
+ * that calls a tool provides a second response for the call that follows the tool result.
+ */
+export type MockFixture = {
+	description: string;
+	chunkDelayMs?: number;
+	responses: MockStep[][];
+};
+
+export const mockFixtures: Record<string, MockFixture> = {
+	echo: echo as MockFixture,
+	error: error as MockFixture,
+	json: json as MockFixture,
+	overloaded: overloaded as MockFixture,
+	"reasoning-anthropic": reasoningAnthropic as MockFixture,
+	"reasoning-openai": reasoningOpenai as MockFixture,
+	"tool-call": toolCall as MockFixture,
+};
+
+// Magic prompt prefix, e.g. "mock:tool-call what is 6 * 7"
+const MAGIC_PROMPT = /^\s*mock:([\w-]+)\s*/;
+
+function getLastUserText(prompt: LanguageModelV1Prompt): string {
+	const lastUser = [...prompt]
+		.reverse()
+		.find((message) => message.role === "user");
+	if (!lastUser) {
+		return "";
+	}
+
+	return lastUser.content
+		.map((part) => (part.type === "text" ? part.text : ""))
+		.join("");
+}
+
+function getLastToolResult(prompt: LanguageModelV1Prompt): unknown {
+	const lastTool = [...prompt]
+		.reverse()
+		.find((message) => message.role === "tool");
+
+	return lastTool?.content.at(-1)?.result;
+}
+
+/**
+ * Counts the model calls already made in the current turn, i.e. the assistant messages after the
+ * last user message.
+ */
+function getCallIndex(prompt: LanguageModelV1Prompt): number {
+	let calls = 0;
+	for (let i = prompt.length - 1; i >= 0; i--) {
+		const message = prompt[i];
+		if (message?.role === "user") {
+			break;
+		}
+		if (message?.role === "assistant") {
+			calls++;
+		}
+	}
+
+	return calls;
+}
+
+/**
+ * Picks the fixture named by a magic prompt (falling back to `echo`) and returns the scripted steps
+ * for this call, with placeholders filled in.
+ */
+export function resolveMockResponse(prompt: LanguageModelV1Prompt): {
+	fixture: MockFixture;
+	steps: MockStep[];
+} {
+	const text = getLastUserText(prompt);
+	const match = MAGIC_PROMPT.exec(text);
+	const name = match?.[1];
+
+	if (name && !mockFixtures[name]) {
+		return {
+			fixture: mockFixtures.echo as MockFixture,
+			steps: [
+				{
+					type: "error",
+					message: `Unknown mock fixture "${name}". Available: ${Object.keys(mockFixtures).join(", ")}`,
+				},
+			],
+		};
+	}
+
+	const fixture = mockFixtures[name ?? "echo"] as MockFixture;
+	const userPrompt = match ? text.slice(match[0].length) : text;
+	const toolResult = JSON.stringify(getLastToolResult(prompt) ?? null);
+
+	// Past the end of the script the last response is repeated
+	const callIndex = Math.min(
+		getCallIndex(prompt),
+		fixture.responses.length - 1,
+	);
+	const steps = (fixture.responses[callIndex] ?? []).map((step) => {
+		const fill = (value: string) =>
+			value
+				.replaceAll("{{prompt}}", userPrompt)
+				.replaceAll("{{toolResult}}", toolResult);
+
+		return step.type === "text" || step.type === "reasoning"
+			? { ...step, text: fill(step.text) }
+			: step;
+	});
+
+	return { fixture, steps };
+}
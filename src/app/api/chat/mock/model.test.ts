@@ -0,0 +1,169 @@
+import { type UIMessage, appendResponseMessages, streamText } from "ai";
+import { describe, expect, it } from "vitest";
+
+import { FailoverLanguageModel, getFallbackChain } from "../failover";
+import { type ModelDef, getModelDef } from "../models";
+import { getToolSet } from "../tools";
+
+// Streams a prompt to a mock model the way `route.ts` does: through the failover model, with
+// the calculator available
+function run(prompt: string, model: string) {
+	const def = getModelDef(model) as ModelDef;
+	const languageModel = new FailoverLanguageModel(
+		getFallbackChain(def, { enabledProviders: ["mock"], requires: [] }),
+		{},
+	);
+	const errors: unknown[] = [];
+	const result = streamText({
+		model: languageModel,
+		messages: [{ role: "user", content: prompt }],
+		tools: getToolSet(["calculator"]),
+		maxSteps: 5,
+		maxRetries: 0,
+		onError: ({ error }) => {
+			errors.push(error);
+		},
+	});
+	// Nothing settles until the stream has been read, like in `route.ts`
+	void result.consumeStream();
+
+	return { result, languageModel, errors };
+}
+
+// The answer as `route.ts` saves it
+async function toAnswer(result: ReturnType<typeof run>["result"]) {
+	const [, answer] = appendResponseMessages({
+		messages: [
+			{
+				id: "prompt",
+				role: "user",
+				content: "",
+				parts: [{ type: "text", text: "" }],
+			},
+		],
+		responseMessages: (await result.response).messages,
+	});
+	return answer as UIMessage;
+}
+
+describe("mock provider fixtures", () => {
+	it("streams OpenAI-style reasoning as unsigned details", async () => {
+		const { result, languageModel } = run(
+			"mock:reasoning-openai why?",
+			"mock:smart",
+		);
+
+		expect(await result.text).toBe(
+			"This answer was preceded by two OpenAI-style reasoning summaries without signatures.",
+		);
+		const details = await result.reasoningDetails;
+		expect(details).toHaveLength(1);
+		expect(details[0]).toMatchObject({
+			type: "text",
+			text: expect.stringContaining("**Planning the answer**"),
+		});
+		expect(details[0]).not.toHaveProperty("signature", expect.anything());
+		expect(
+			(await result.providerMetadata)?.mock?.reasoningTokens,
+		).toBeGreaterThan(0);
+		expect(languageModel.calls.map(({ id }) => id)).toEqual(["mock:smart"]);
+
+		const answer = await toAnswer(result);
+		expect(answer.parts.map(({ type }) => type)).toEqual([
+			"step-start",
+			"reasoning",
+			"text",
+		]);
+	});
+
+	it("streams Anthropic-style reasoning as signed and redacted details", async () => {
+		const { result } = run("mock:reasoning-anthropic why?", "mock:smart");
+
+		expect(await result.reasoningDetails).toEqual([
+			{
+				type: "text",
+				text: "Let me think about this step by step. The user wants to see Anthropic-style thinking, which carries a signature.",
+				signature: "mock-signature-anthropic-1",
+			},
+			{ type: "redacted", data: "bW9jay1yZWRhY3RlZC10aGlua2luZw==" },
+		]);
+
+		const answer = await toAnswer(result);
+		const reasoning = answer.parts.find((part) => part.type === "reasoning");
+		expect(reasoning?.type === "reasoning" && reasoning.details).toHaveLength(
+			2,
+		);
+	});
+
+	it("calls the calculator and answers with its result", async () => {
+		const { result } = run("mock:tool-call what is 6 * 7", "mock:default");
+
+		const steps = await result.steps;
+		expect(steps).toHaveLength(2);
+		expect(steps[0]?.toolCalls).toMatchObject([
+			{ toolName: "calculator", args: { expression: "6 * 7" } },
+		]);
+		expect(steps[0]?.toolResults).toMatchObject([
+			{ result: { expression: "6 * 7", result: 42 } },
+		]);
+		expect(steps[1]?.text).toBe(
+			'The calculator says {"expression":"6 * 7","result":42}.',
+		);
+
+		const answer = await toAnswer(result);
+		expect(answer.parts).toContainEqual(
+			expect.objectContaining({
+				type: "tool-invocation",
+				toolInvocation: expect.objectContaining({
+					state: "result",
+					toolName: "calculator",
+					result: { expression: "6 * 7", result: 42 },
+				}),
+			}),
+		);
+	});
+
+	it("fails halfway through without failing over", async () => {
+		const { result, languageModel, errors } = run(
+			"mock:error anything",
+			"mock:smart",
+		);
+
+		const parts = [];
+		for await (const part of result.fullStream) {
+			parts.push(part);
+		}
+
+		const text = parts
+			.map((part) => (part.type === "text-delta" ? part.textDelta : ""))
+			.join("");
+		expect(text).toBe("I'm about to fail halfway through");
+		expect(parts.find((part) => part.type === "error")).toMatchObject({
+			type: "error",
+			error: {
+				message: "Mock provider error: the upstream model is overloaded",
+			},
+		});
+		expect(errors).toHaveLength(1);
+		// The answer had started, so the error is its own
+		expect(languageModel.calls.map(({ id }) => id)).toEqual(["mock:smart"]);
+	});
+
+	it("falls back to mock:default when the reasoning mock is overloaded", async () => {
+		const { result, languageModel } = run(
+			"mock:overloaded hello",
+			"mock:smart",
+		);
+
+		expect(await result.text).toBe("Answered by the fallback: hello");
+		expect(await result.reasoning).toBeUndefined();
+		expect(languageModel.calls.map(({ id }) => id)).toEqual(["mock:default"]);
+	});
+
+	it("leaves reasoning out of models that don't reason", async () => {
+		const { result } = run("mock:echo hello", "mock:default");
+
+		expect(await result.text).toBe("Mock response to: hello");
+		expect(await result.reasoningDetails).toEqual([]);
+	});
+});
@@ -0,0 +1,206 @@
+import {
+	APICallError,
+	type LanguageModelV1,
+	type LanguageModelV1CallOptions,
+	type LanguageModelV1StreamPart,
+	simulateReadableStream,
+} from "ai";
+
+import { type MockStep, resolveMockResponse } from "./fixtures";
+
+const DEFAULT_CHUNK_DELAY_MS = 15;
+
+// Rough, deterministic token estimate so usage numbers are stable across runs
+const estimateTokens = (value: unknown) =>
+	Math.ceil(JSON.stringify(value ?? "").length / 4);
+
+// Splits text into word-sized deltas, keeping whitespace attached
+const chunkText = (text: string) => text.match(/\s*\S+\s*/g) ?? [text];
+
+type ToolCall = Omit<
+	Extract<LanguageModelV1StreamPart, { type: "tool-call" }>,
+	"type"
+>;
+
+export type MockModelSettings = {
+	reasoning: boolean;
+};
+
+/**
+ * An offline `LanguageModelV1` that plays back scripted responses from `./fixtures`, selected with
+ * a `mock:<fixture>` prefix on the user's message. Output only depends on the prompt, so it is safe
+ * to use in CI and without provider keys.
+ */
+export class MockLanguageModel implements LanguageModelV1 {
+	readonly specificationVersion = "v1";
+	readonly provider = "mock";
+	readonly defaultObjectGenerationMode = "json";
+
+	constructor(
+		readonly modelId: string,
+		private readonly settings: MockModelSettings,
+	) {}
+
+	private toStreamParts(steps: MockStep[]): LanguageModelV1StreamPart[] {
+		const parts: LanguageModelV1StreamPart[] = [];
+		let toolCalls = 0;
+
+		for (const step of steps) {
+			switch (step.type) {
+				case "text":
+					for (const textDelta of chunkText(step.text)) {
+						parts.push({ type: "text-delta", textDelta });
+					}
+					break;
+				case "reasoning":
+					if (step.reasoningModelsOnly && !this.settings.reasoning) {
+						break;
+					}
+					for (const textDelta of chunkText(step.text)) {
+						parts.push({ type: "reasoning", textDelta });
+					}
+					if (step.signature) {
+						parts.push({
+							type: "reasoning-signature",
+							signature: step.signature,
+						});
+					}
+					break;
+				case "redacted-reasoning":
+					parts.push({ type: "redacted-reasoning", data: step.data });
+					break;
+				case "tool-call":
+					toolCalls++;
+					parts.push({
+						type: "tool-call",
+						toolCallType: "function",
+						toolCallId: `mock-call-${toolCalls}`,
+						toolName: step.toolName,
+						args: JSON.stringify(step.args),
+					});
+					break;
+				case "error":
+					if (step.modelIds && !step.modelIds.includes(this.modelId)) {
+						break;
+					}
+					// Nothing after an error gets streamed
+					parts.push({
+						type: "error",
+						error:
+							step.statusCode === undefined
+								? new Error(step.message)
+								: new APICallError({
+										message: step.message,
+										url: "mock://",
+										requestBodyValues: {},
+										statusCode: step.statusCode,
+									}),
+					});
+					return parts;
+			}
+		}
+
+		return parts;
+	}
+
+	private finish(
+		options: LanguageModelV1CallOptions,
+		parts: LanguageModelV1StreamPart[],
+	) {
+		const reasoning = parts.filter((part) => part.type === "reasoning");
+
+		return {
+			finishReason: parts.some((part) => part.type === "tool-call")
+				? ("tool-calls" as const)
+				: ("stop" as const),
+			usage: {
+				promptTokens: estimateTokens(options.prompt),
+				completionTokens: estimateTokens(parts),
+			},
+			// Reported like OpenAI does, as a share of the completion tokens
+			providerMetadata: {
+				mock: {
+					reasoningTokens: reasoning.length > 0 ? estimateTokens(reasoning) : 0,
+				},
+			},
+		};
+	}
+
+	async doGenerate(options: LanguageModelV1CallOptions) {
+		const { steps } = resolveMockResponse(options.prompt);
+		const parts = this.toStreamParts(steps);
+
+		const error = parts.find((part) => part.type === "error");
+		if (error) {
+			throw error.error;
+		}
+
+		const reasoning: Array<
+			| { type: "text"; text: string; signature?: string }
+			| { type: "redacted"; data: string }
+		> = [];
+		let text = "";
+		const toolCalls: ToolCall[] = [];
+
+		for (const part of parts) {
+			if (part.type === "text-delta") {
+				text += part.textDelta;
+			} else if (part.type === "reasoning") {
+				const last = reasoning.at(-1);
+				if (last?.type === "text" && !last.signature) {
+					last.text += part.textDelta;
+				} else {
+					reasoning.push({ type: "text", text: part.textDelta });
+				}
+			} else if (part.type === "reasoning-signature") {
+				const last = reasoning.at(-1);
+				if (last?.type === "text") {
+					last.signature = part.signature;
+				}
+			} else if (part.type === "redacted-reasoning") {
+				reasoning.push({ type: "redacted", data: part.data });
+			} else if (part.type === "tool-call") {
+				const { type: _type, ...toolCall } = part;
+				toolCalls.push(toolCall);
+			}
+		}
+
+		return {
+			text,
+			reasoning: reasoning.length > 0 ? reasoning : undefined,
+			toolCalls,
+			...this.finish(options, parts),
+			rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+		};
+	}
+
+	async doStream(options: LanguageModelV1CallOptions) {
+		const { fixture, steps } = resolveMockResponse(options.prompt);
+		const parts = this.toStreamParts(steps);
+
+		const chunks: LanguageModelV1StreamPart[] = [
+			{ type: "response-metadata", modelId: this.modelId },
+			...parts,
+		];
+		if (!parts.some((part) => part.type === "error")) {
+			chunks.push({ type: "finish", ...this.finish(options, parts) });
+		}
+
+		const delay = fixture.chunkDelayMs ?? DEFAULT_CHUNK_DELAY_MS;
+
+		return {
+			stream: simulateReadableStream({
+				chunks,
+				initialDelayInMs: delay,
+				chunkDelayInMs: delay,
+			}),
+			rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+		};
+	}
+}
+
+/**
+ * Model factory, matching the `openai` / `anthropic` provider call signature.
+ */
+export const mock = (name: string, settings?: MockModelSettings) =>
+	new MockLanguageModel(name, settings ?? { reasoning: false });
@@ -1,77 +1,71 @@
-import { createProviderRegistry, type LanguageModelV1, tool } from "ai";
-import { openai, type OpenAIResponsesProviderOptions } from "@ai-sdk/openai";
-import { anthropic, type AnthropicProviderOptions } from "@ai-sdk/anthropic";
+import { createProviderRegistry, type LanguageModelV1 } from "ai";
+import { openai } from "@ai-sdk/openai";
+import { anthropic } from "@ai-sdk/anthropic";
 import { z } from "zod";
+import { env } from "~/env";
+import { mock } from "./mock/model";
+import catalog from "./models.json";
 
-type ModelClass = "default" | "smart";
+export const providerSchema = z.enum(["openai", "anthropic", "mock"]);
+export type Provider = z.infer<typeof providerSchema>;
 
-// Model name constants
-export const MODEL_NAMES = {
-    OPENAI: {
-        GPT_4O: "gpt-4o",
-        O3: "o3",
-    },
-    ANTHROPIC: {
-        CLAUDE_3_5_SONNET: "claude-3-5-sonnet-20240620",
-        CLAUDE_3_7_SONNET: "claude-3-7-sonnet-20250219",
-    },
-} as const;
+// Catalog entry ids look like `anthropic:smart`; the part after the colon is free-form
+export type Model = `${Provider}:${string}`;
 
-type ModelFactory = (name: string) => LanguageModelV1;
+const modelDefSchema = z.object({
+    id: z.custom<Model>((value) => typeof value === "string" && /^[a-z]+:[\w.-]+$/.test(value)),
+    provider: providerSchema,
+    // The provider's own model id
+    modelId: z.string(),
+    // OpenAI reasoning models are only fully supported through the Responses API
+    api: z.enum(["chat", "responses"]).optional(),
+    displayName: z.string(),
+    contextWindow: z.number().int().positive(),
+    maxOutputTokens: z.number().int().positive(),
+    // Catalog ids tried in order when this model's provider fails, see ./failover
+    fallbacks: z.array(z.string()).default([]),
+    capabilities: z.object({
+        reasoning: z.boolean(),
+        tools: z.boolean(),
+        vision: z.boolean(),
+        // PDF input
+        documents: z.boolean(),
+        structuredOutput: z.boolean(),
+    }),
+    // Passed as `providerOptions[provider]` on every call to this model
+    providerOptions: z.record(z.any()).default({}),
+    // USD per million tokens; cached prompt tokens fall back to the input price
+    pricing: z.object({
+        input: z.number().nonnegative(),
+        output: z.number().nonnegative(),
+        cachedInput: z.number().nonnegative().optional(),
+    }).optional(),
+}).refine((def) => def.id.startsWith(`${def.provider}:`), {
+    message: "Model ids must start with their provider",
+});
 
-type ProviderDef = {
-    factory: ModelFactory;
-    reasoningOptions: Pick<OpenAIResponsesProviderOptions, "reasoningEffort" | "reasoningSummary" | "parallelToolCalls"> | Pick<AnthropicProviderOptions, "thinking">;
-    models: Record<ModelClass, ModelDef>;
-};
+export type ModelDef = z.infer<typeof modelDefSchema>;
+export type ModelCapability = keyof ModelDef["capabilities"];
 
-export type ModelDef = {
-    name: string;
-    reasoning: boolean;
-    factory?: ModelFactory;
-}
+/**
+ * The model catalog, loaded from `models.json`. Adding a model only takes a new entry there.
+ */
+export const modelDefs: ModelDef[] = z.array(modelDefSchema).parse(catalog);
+
+export const getModelDef = (model: string): ModelDef | undefined =>
+    modelDefs.find((def) => def.id === model);
+
+const providerFactories: Record<Provider, (def: ModelDef) => LanguageModelV1> = {
+    openai: (def) => (def.api === "responses" ? openai.responses(def.modelId) : openai(def.modelId)),
+    anthropic: (def) => anthropic(def.modelId),
+    // Offline, scripted models; see ./mock/fixtures for the available `mock:<fixture>` prompts
+    mock: (def) => mock(def.modelId, { reasoning: def.capabilities.reasoning }),
+};
 
-export type Provider = "openai" | "anthropic";
-export const modelDefs: Record<Provider, ProviderDef> = {
-    openai: {
-        factory: openai,
-        reasoningOptions: {
-            reasoningEffort: "high",
-            reasoningSummary: "detailed",
-            parallelToolCalls: true,
-        },
-        models: {
-            default: {
-                name: MODEL_NAMES.OPENAI.GPT_4O,
-                reasoning: false,
-            },
-            smart: {
-                name: MODEL_NAMES.OPENAI.O3,
-                reasoning: true,
-                factory: openai.responses,
-            },
-        },
-    },
-    anthropic: {
-        factory: anthropic,
-        reasoningOptions: {
-            thinking: { type: "enabled", budgetTokens: 12000 },
-        },
-        models: {
-            default: {
-                name: MODEL_NAMES.ANTHROPIC.CLAUDE_3_5_SONNET,
-                reasoning: false,
-            },
-            smart: {
-                name: MODEL_NAMES.ANTHROPIC.CLAUDE_3_7_SONNET,
-                reasoning: true,
-            },
-        },
-    },
-} as const;
+export const createLanguageModel = (def: ModelDef): LanguageModelV1 =>
+    providerFactories[def.provider](def);
 
-export type Model = `${Provider}:${ModelClass}`;
-export type ModelDefs = Record<Provider, Record<ModelClass, string>>;
+export type ModelDefs = Partial<Record<Provider, ModelDef[]>>;
 
 // Create simple registry with standard providers
 export const registry = createProviderRegistry({
@@ -79,34 +73,17 @@ export const registry = createProviderRegistry({
     anthropic,
 });
 
-// Function to generate providers object from modelDefs
+// Function to generate providers object from the catalog, limited to the enabled providers
 export const generateProviders = (): ModelDefs => {
-    const providers: ModelDefs = {} as ModelDefs;
-    
-    for (const [provider, config] of Object.entries(modelDefs) as [Provider, typeof modelDefs[Provider]][]) {
-        const platformModels = {} as Record<keyof typeof config.models, string>;
-        
-        for (const [modelClass, modelConfig] of Object.entries(config.models)) {
-            platformModels[modelClass as keyof typeof config.models] = modelConfig.name;
+    const providers: ModelDefs = {};
+
+    for (const def of modelDefs) {
+        if (!env.CHAT_PROVIDERS.includes(def.provider)) {
+            continue;
         }
-        
-        providers[provider] = platformModels;
+
+        providers[def.provider] = [...(providers[def.provider] ?? []), def];
     }
-    
+
     return providers;
 };
-
-export const tools = {
-    random: tool({
-        description: "Generate a random number within limits",
-        parameters: z.object({
-            min: z.number(),
-            max: z.number(),
-        }),
-        execute: async ({ min, max }) => {
-            console.log("Executing random tool", { min, max });
-            await new Promise((resolve) => setTimeout(resolve, 3000));
-            return Math.floor(Math.random() * (max - min + 1)) + min;
-        },
-    }),
-}; 
@@ -0,0 +1,140 @@
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createOpenAI } from "@ai-sdk/openai";
+import { type LanguageModelV1, type UIMessage, generateText } from "ai";
+
+import { translateMessages } from "~/lib/CanonicalMessage";
+import type { ExportFormat } from "~/lib/conversationExport";
+import {
+	type GenerationSettings,
+	getProviderOptions,
+	supportedSettings,
+} from "~/lib/generationSettings";
+import type { SessionUser } from "~/server/auth/access";
+import { resolveAttachments } from "./attachments";
+import { fitContext } from "./context";
+import { connectMcpServers } from "./mcp";
+import { type ModelDef, modelDefs } from "./models";
+import { getDefaultToolNames, getToolSet } from "./tools";
+
+export type PayloadFormat = Extract<
+	ExportFormat,
+	"openai-chat" | "openai-responses" | "anthropic"
+>;
+
+const matchesFormat = (def: ModelDef, format: PayloadFormat) => {
+	switch (format) {
+		case "openai-chat":
+			return def.provider === "openai" && def.api !== "responses";
+		case "openai-responses":
+			return def.provider === "openai" && def.api === "responses";
+		case "anthropic":
+			return def.provider === "anthropic";
+	}
+};
+
+// The provider's real model, with requests going to `fetch` instead of the provider's API
+function createCapturingModel(
+	def: ModelDef,
+	fetch: typeof globalThis.fetch,
+): LanguageModelV1 {
+	const settings = { apiKey: "export", fetch };
+
+	if (def.provider === "anthropic") {
+		return createAnthropic(settings)(def.modelId);
+	}
+	const openai = createOpenAI(settings);
+	return def.api === "responses"
+		? openai.responses(def.modelId)
+		: openai(def.modelId);
+}
+
+/**
+ * The request body the provider would receive if the conversation were continued from the end of
+ * `path`: messages in the provider's own format, system prompt, tools and settings included. It is
+ * produced by the provider's own AI SDK model, with the request captured instead of sent, so it is
+ * exactly what the chat sends, history compacted to the context window included.
+ *
+ * The model is the conversation's `preferredModel` if it speaks the format, otherwise the first
+ * catalog model that does. Settings the model doesn't support are left out.
+ */
+export async function getProviderPayload(
+	format: PayloadFormat,
+	{
+		path,
+		settings,
+		preferredModel,
+		user,
+	}: {
+		path: UIMessage[];
+		settings: GenerationSettings;
+		preferredModel: string | undefined;
+		// Whose attachments are inlined
+		user: SessionUser;
+	},
+): Promise<unknown> {
+	const def =
+		modelDefs.find(
+			(def) => def.id === preferredModel && matchesFormat(def, format),
+		) ?? modelDefs.find((def) => matchesFormat(def, format));
+	if (!def) {
+		throw new Error(`No model in the catalog uses the ${format} format`);
+	}
+
+	const usableSettings = supportedSettings(def, settings);
+
+	await connectMcpServers();
+	const tools = getToolSet(
+		def.capabilities.tools
+			? (usableSettings.tools ?? getDefaultToolNames())
+			: [],
+	);
+
+	// Calls that never got a result can't be sent to any provider
+	const messages = path.map((message) => ({
+		...message,
+		parts: message.parts.filter(
+			(part) =>
+				part.type !== "tool-invocation" ||
+				part.toolInvocation.state === "result",
+		),
+	}));
+
+	const attachments = await resolveAttachments(messages, def, user);
+	if (!attachments.success) {
+		throw new Error(attachments.error);
+	}
+	const context = await fitContext(attachments.messages, {
+		chain: [def],
+		settings: usableSettings,
+		user,
+	});
+
+	let payload: unknown;
+	const capture: typeof globalThis.fetch = async (_url, init) => {
+		payload = JSON.parse(String(init?.body));
+		throw new Error("Request captured");
+	};
+
+	try {
+		await generateText({
+			model: createCapturingModel(def, capture),
+			providerOptions: getProviderOptions(def, usableSettings),
+			system: usableSettings.systemPrompt,
+			temperature: usableSettings.temperature,
+			topP: usableSettings.topP,
+			maxTokens: usableSettings.maxOutputTokens,
+			messages: translateMessages(context.messages, {
+				provider: def.provider,
+				reasoning: def.capabilities.reasoning,
+			}),
+			tools,
+			maxRetries: 0,
+		});
+	} catch (error) {
+		if (payload === undefined) {
+			throw error;
+		}
+	}
+
+	return payload;
+}
@@ -0,0 +1,235 @@
+import {
+	type LanguageModelV1,
+	type LanguageModelV1CallOptions,
+	type LanguageModelV1StreamPart,
+	wrapLanguageModel,
+} from "ai";
+
+import { estimateTextTokens } from "~/lib/contextWindow";
+import {
+	isFinal,
+	streamStore,
+	trackAbort,
+	untrackAbort,
+} from "~/server/streams";
+
+// How often the parts of a stream are written to the store, and how often a reader checks for more
+const FLUSH_INTERVAL_MS = 200;
+const POLL_INTERVAL_MS = 250;
+
+const STREAM_ID_HEADER = "X-Stream-Id";
+
+const sleep = (ms: number) =>
+	new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wraps `model` so that `signal` aborts the provider call, ending the answer where it is rather
+ * than failing it: `streamText` then finishes as usual and the partial answer is saved. Usage is
+ * estimated, as providers only report it at the end.
+ */
+export function stopOnAbort(
+	model: LanguageModelV1,
+	signal: AbortSignal,
+): LanguageModelV1 {
+	const aborted = new Promise<undefined>((resolve) =>
+		signal.addEventListener("abort", () => resolve(undefined), {
+			once: true,
+		}),
+	);
+
+	return wrapLanguageModel({
+		model,
+		middleware: {
+			transformParams: async ({ params }) => ({
+				...params,
+				abortSignal: params.abortSignal
+					? AbortSignal.any([params.abortSignal, signal])
+					: signal,
+			}),
+
+			wrapStream: async ({ doStream, params }) => {
+				const usage = {
+					promptTokens: estimateTextTokens(JSON.stringify(params.prompt)),
+					completionTokens: 0,
+				};
+				let finished = false;
+				const stop = (
+					controller: ReadableStreamDefaultController<LanguageModelV1StreamPart>,
+				) => {
+					if (!finished) {
+						controller.enqueue({ type: "finish", finishReason: "stop", usage });
+					}
+					controller.close();
+				};
+				const stopped = (params: LanguageModelV1CallOptions) => ({
+					stream: new ReadableStream<LanguageModelV1StreamPart>({
+						start: stop,
+					}),
+					rawCall: { rawPrompt: params.prompt, rawSettings: {} },
+				});
+
+				if (signal.aborted) {
+					return stopped(params);
+				}
+
+				let result: Awaited<ReturnType<typeof doStream>>;
+				try {
+					result = await doStream();
+				} catch (error) {
+					if (signal.aborted) {
+						return stopped(params);
+					}
+					throw error;
+				}
+
+				const reader = result.stream.getReader();
+				return {
+					...result,
+					stream: new ReadableStream<LanguageModelV1StreamPart>({
+						pull: async (controller) => {
+							const read = reader.read();
+							// Whatever the provider does with the aborted call, it has stopped for us
+							read.catch(() => {});
+							const next = await Promise.race([read, aborted]).catch(
+								(error: unknown) => {
+									if (signal.aborted) {
+										return undefined;
+									}
+									throw error;
+								},
+							);
+
+							if (!next || signal.aborted) {
+								reader.cancel().catch(() => {});
+								stop(controller);
+								return;
+							}
+							if (next.done) {
+								controller.close();
+								return;
+							}
+
+							const part = next.value;
+							if (part.type === "text-delta" || part.type === "reasoning") {
+								usage.completionTokens += estimateTextTokens(part.textDelta);
+							}
+							finished ||= part.type === "finish";
+							controller.enqueue(part);
+						},
+						cancel: (reason) => reader.cancel(reason),
+					}),
+				};
+			},
+		},
+	});
+}
+
+/**
+ * Reads a data stream to the end, writing its parts to the store as they come, so readers can
+ * replay it while it's still going. `abort` stops the generation; it is aborted when the stream is
+ * cancelled, here or in another process.
+ */
+export async function bufferStream(
+	id: string,
+	stream: ReadableStream<string>,
+	abort: AbortController,
+) {
+	trackAbort(id, abort);
+
+	let pending: string[] = [];
+	let offset = 0;
+	let failed = false;
+
+	const flush = async () => {
+		const chunks = pending;
+		pending = [];
+		try {
+			const status = await streamStore.append(id, offset, chunks);
+			offset += chunks.length;
+			if (status === "cancelling") {
+				abort.abort();
+			}
+		} catch (error) {
+			// Kept for the next flush
+			pending = [...chunks, ...pending];
+			console.error(`Buffering stream ${id} failed:`, error);
+		}
+	};
+
+	// Flushes run one after another, so parts are written in order
+	let flushing = Promise.resolve();
+	const timer = setInterval(() => {
+		flushing = flushing.then(flush);
+	}, FLUSH_INTERVAL_MS);
+
+	const reader = stream.getReader();
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) {
+				break;
+			}
+			pending.push(value);
+			// An error part, see `formatDataStreamPart`
+			failed ||= value.startsWith("3:");
+		}
+	} catch (error) {
+		failed = true;
+		console.error(`Stream ${id} failed:`, error);
+	} finally {
+		clearInterval(timer);
+		// A cancel that comes in with the last parts is too late to stop anything
+		const cancelled = abort.signal.aborted;
+		await flushing.then(flush);
+		untrackAbort(id);
+		await streamStore.finish(
+			id,
+			cancelled ? "cancelled" : failed ? "error" : "done",
+		);
+	}
+}
+
+/**
+ * A stream's parts from the start, followed by the rest as they are written, until it ends.
+ */
+export function replayStream(id: string): ReadableStream<string> {
+	let offset = 0;
+
+	return new ReadableStream<string>({
+		pull: async (controller) => {
+			while (true) {
+				// The status first: once it is final, every part has been written
+				const stream = await streamStore.get(id);
+				const chunks = await streamStore.read(id, offset);
+				if (chunks.length > 0) {
+					offset += chunks.length;
+					for (const chunk of chunks) {
+						controller.enqueue(chunk);
+					}
+					return;
+				}
+				if (!stream || isFinal(stream.status)) {
+					controller.close();
+					return;
+				}
+				await sleep(POLL_INTERVAL_MS);
+			}
+		},
+	});
+}
+
+/**
+ * A data stream as `useChat` expects it, like `createDataStreamResponse`, naming the stream so the
+ * client can cancel it.
+ */
+export const dataStreamResponse = (
+	stream: ReadableStream<string>,
+	id: string,
+) =>
+	new Response(stream.pipeThrough(new TextEncoderStream()), {
+		headers: {
+			"Content-Type": "text/plain; charset=utf-8",
+			"X-Vercel-AI-Data-Stream": "v1",
+			[STREAM_ID_HEADER]: id,
+		},
+	});
@@ -1,96 +1,342 @@
-import { streamText, type UIMessage, createDataStreamResponse, type LanguageModelV1 } from "ai";
-import { modelDefs, tools, type Model, type Provider } from "./models";
-
-export const maxDuration = 30;
-
-// Helper function to check if an annotation has a model property
-function hasModelProperty(annotation: unknown): annotation is { model: string } {
-    return (
-        annotation !== null &&
-        typeof annotation === 'object' &&
-        'model' in annotation &&
-        typeof (annotation as { model: unknown }).model === 'string'
-    );
-}
+import {
+    streamText,
+    type UIMessage,
+    createDataStream,
+    appendResponseMessages,
+    createIdGenerator,
+    formatDataStreamPart,
+    type JSONValue,
+    type LanguageModelUsage,
+    type ProviderMetadata,
+} from "ai";
+import { after } from "next/server";
+import { env } from "~/env";
+import { translateMessages } from "~/lib/CanonicalMessage";
+import type { CompactionAnnotation } from "~/lib/contextWindow";
+import {
+    DEFAULT_MAX_STEPS,
+    getProviderOptions,
+    settingsSchemaFor,
+} from "~/lib/generationSettings";
+import { type KnowledgeAnnotation, knowledgePrompt } from "~/lib/knowledge";
+import { getMessageText, hasModelProperty } from "~/lib/messages";
+import type { TimingAnnotation } from "~/lib/reasoning";
+import { addUsage, emptyUsage, getCost, type UsageAnnotation } from "~/lib/usage";
+import { auth } from "~/server/auth";
+import { MessageConflictError, canUseConversation, saveMessages } from "~/server/db/conversations";
+import { searchKnowledge } from "~/server/knowledge";
+import { findLeafStream, streamStore } from "~/server/streams";
+import { getAttachmentCapabilities, inlineAttachments, resolveAttachments } from "./attachments";
+import { FailoverLanguageModel, getFallbackChain } from "./failover";
+import { fitContext } from "./context";
+import { checkLimits, recordUsage } from "./limits";
+import { connectMcpServers } from "./mcp";
+import { getModelDef, type Model, type ModelDef } from "./models";
+import { bufferStream, dataStreamResponse, replayStream, stopOnAbort } from "./resumable";
+import { streamStructuredAnswer } from "./structured";
+import { updateDigest } from "./summaries";
+import { getDefaultToolNames, getToolSet, resolveToolApprovals } from "./tools";
+import { createStepTimer } from "./timing";
+import { getStepUsage } from "./usage";
 
-// Helper function to filter incompatible reasoning parts from messages
-function filterIncompatibleReasoning(messages: UIMessage[], targetProvider: Provider): UIMessage[] {
-    return messages.map(message => {
-        if (message.role === "user") {
-            // User messages don't have reasoning parts, return as-is
-            return message;
-        }
+// Generation goes on after the client has gone, until the answer is done or cancelled; long
+// reasoning runs need the room
+export const maxDuration = 300;
 
-        // For assistant messages, filter out reasoning parts from different providers
-        const filteredParts = message.parts.filter(part => {
-            if (part.type === "reasoning") {
-                // Get the model annotation from the message to determine the original provider
-                const annotations = message.annotations || [];
-                const modelAnnotation = annotations.find(hasModelProperty);
-                
-                if (modelAnnotation) {
-                    const originalProvider = modelAnnotation.model.split(':')[0] as Provider;
-                    // Only keep reasoning parts from the same provider
-                    return originalProvider === targetProvider;
-                }
-                
-                // If we can't determine the original provider, err on the side of caution and remove the reasoning
-                return false;
-            }
-            
-            // Keep all non-reasoning parts (text, tool-invocation, etc.)
-            return true;
-        });
+const generateMessageId = createIdGenerator({ prefix: "msgs", size: 16 });
+const generateStreamId = createIdGenerator({ prefix: "strm", size: 16 });
 
-        return {
-            ...message,
-            parts: filteredParts
-        };
-    });
+// Knowledge base passages sent with a prompt
+const KNOWLEDGE_PASSAGES = 5;
+
+type ResponseMessage = Parameters<typeof appendResponseMessages>[0]["responseMessages"][number];
+
+/**
+ * Reattaches to the answer being generated for the conversation's active branch, e.g. after a
+ * reload: the stream is replayed from the start and followed until it ends.
+ */
+export async function GET(req: Request) {
+    const session = await auth();
+    if (!session?.user) {
+        return new Response("Sign in to chat", { status: 401 });
+    }
+
+    const chatId = new URL(req.url).searchParams.get("chatId");
+    const stream = chatId ? await findLeafStream(chatId, session.user) : undefined;
+    if (!stream) {
+        return new Response("No answer to resume", { status: 404 });
+    }
+
+    return dataStreamResponse(replayStream(stream.id), stream.id);
 }
 
 export async function POST(req: Request) {
-    const { messages, model } = await req.json() as { messages: UIMessage[], model: Model };
+    const session = await auth();
+    if (!session?.user) {
+        return new Response("Sign in to chat", { status: 401 });
+    }
+    const { user } = session;
 
-    const [provider, modelClass] = model.split(':') as [Provider, keyof typeof modelDefs[Provider]['models']];
-    const providerConfig = modelDefs[provider];
-    const modelConfig = providerConfig.models[modelClass];
-    const modelName = modelConfig.name;
+    const { id, messages: requestMessages, model, settings: requestedSettings } = await req.json() as {
+        id: string,
+        messages: UIMessage[],
+        model: Model,
+        settings?: unknown,
+    };
 
-    const factory = modelConfig.factory || providerConfig.factory;
+    // Someone else's conversation looks the same as one that doesn't exist
+    if (!(await canUseConversation(id, user))) {
+        return new Response("Conversation not found", { status: 404 });
+    }
 
-    const languageModel: LanguageModelV1 = factory(modelName);
+    const modelDef = getModelDef(model);
+    if (!modelDef) {
+        return new Response(`Unknown model "${model}"`, { status: 400 });
+    }
 
-    const providerOptions = modelConfig.reasoning
+    const { provider } = modelDef;
+    if (!env.CHAT_PROVIDERS.includes(provider)) {
+        return new Response(`Provider "${provider}" is not enabled`, { status: 400 });
+    }
+
+    // Settings are checked against what the selected model supports, not just their shape
+    const parsedSettings = settingsSchemaFor(modelDef).safeParse(requestedSettings ?? {});
+    if (!parsedSettings.success) {
+        const issues = parsedSettings.error.issues.map((issue) => issue.message).join("; ");
+        return new Response(`Invalid settings: ${issues}`, { status: 400 });
+    }
+    const settings = parsedSettings.data;
+
+    // Before anything is spent, tool calls included
+    const limited = await checkLimits(user, modelDef);
+    if (limited) {
+        const retryAfter = Math.ceil((Date.parse(limited.resetsAt) - Date.now()) / 1000);
+        return Response.json(limited, {
+            status: 429,
+            headers: { "Retry-After": String(Math.max(retryAfter, 1)) },
+        });
+    }
+
+    const providerOptions = getProviderOptions(modelDef, settings);
+
+    // Only the tools enabled for this conversation, and none for models that can't call tools or
+    // for structured answers, which are a single JSON object. MCP servers register theirs once connected
+    await connectMcpServers();
+    const enabledTools = modelDef.capabilities.tools && !settings.outputSchema
+        ? settings.tools ?? getDefaultToolNames()
+        : [];
+    const tools = getToolSet(enabledTools);
+
+    // Run (or refuse) the tool calls the user just decided on, before the model continues from them
+    const { messages, resolved } = await resolveToolApprovals(requestMessages, enabledTools);
+    // The prompt, or the assistant message a tool decision continues
+    const answered = messages.at(-1);
+    if (!answered) {
+        return new Response("Nothing to answer", { status: 400 });
+    }
+
+    // Uploaded files are sent inline, checked against what the model can read
+    const attachments = await resolveAttachments(messages, modelDef, user);
+    if (!attachments.success) {
+        return new Response(attachments.error, { status: 400 });
+    }
+
+    // Fallbacks have to handle the request too: its tools, its output schema and the files it sends
+    const chain = getFallbackChain(modelDef, {
+        enabledProviders: env.CHAT_PROVIDERS,
+        requires: [
+            ...(enabledTools.length > 0 ? (["tools"] as const) : []),
+            ...(settings.outputSchema ? (["structuredOutput"] as const) : []),
+            ...getAttachmentCapabilities(attachments.messages),
+        ],
+    });
+
+    // The knowledge base passages closest to the prompt go into the system prompt, to be cited. Without
+    // them the model still answers, so a failed search doesn't fail the request
+    const question = [...messages].reverse().find((message) => message.role === "user");
+    const sources = settings.knowledgeBase && question
+        ? await searchKnowledge(user, getMessageText(question), KNOWLEDGE_PASSAGES).catch((error) => {
+            console.error("Searching the knowledge base failed:", error);
+            return [];
+        })
+        : [];
+    const knowledge: KnowledgeAnnotation | undefined = sources.length > 0 ? { knowledge: sources } : undefined;
+    const requestSettings = knowledge
         ? {
-              [provider]: providerConfig.reasoningOptions,
-          }
-        : {};
+            ...settings,
+            systemPrompt: [settings.systemPrompt, knowledgePrompt(sources)].filter(Boolean).join("\n\n"),
+        }
+        : settings;
+
+    // Long histories are compacted to fit the smallest context window in the chain
+    const context = await fitContext(attachments.messages, { chain, settings: requestSettings, user });
+
+    // Only the files of the history that is sent are read
+    const inlinedMessages = await inlineAttachments(context.messages, user);
+
+    // Translate reasoning from other providers into a form the target accepts, instead of dropping it
+    const translatedMessages = translateMessages(inlinedMessages, {
+        provider,
+        reasoning: modelDef.capabilities.reasoning,
+    });
 
-    // Filter out incompatible reasoning parts to prevent schema validation errors
-    const filteredMessages = filterIncompatibleReasoning(messages, provider);
+    // Persist the incoming messages up front, so the user's message survives a failed generation
+    try {
+        await saveMessages(user.id, id, messages, { settings });
+    } catch (error) {
+        if (error instanceof MessageConflictError) {
+            return new Response(error.message, { status: 400 });
+        }
+        throw error;
+    }
+
+    // The answer is buffered as it is generated, so a client can come back to it, and only a cancel
+    // stops it: the client going away doesn't
+    const streamId = generateStreamId();
+    await streamStore.create({ id: streamId, conversationId: id, userId: user.id, messageId: answered.id });
+    const abort = new AbortController();
 
-    return createDataStreamResponse({
+    const stream = createDataStream({
         execute: (dataStream) => {
-            dataStream.writeMessageAnnotation({
-                model: model,
+            // The badge shows the model that actually answered, which is a fallback if the selected one failed;
+            // should a later step fail over, the model that answered last
+            let answeredBy: ModelDef | undefined;
+            const languageModel = new FailoverLanguageModel(chain, settings, (def) => {
+                if (answeredBy?.id !== def.id) {
+                    answeredBy = def;
+                    dataStream.writeMessageAnnotation({ model: def.id });
+                }
             });
 
-            const result = streamText({
-                model: languageModel,
+            // The transcript marks where the history was cut for this answer
+            const compaction: CompactionAnnotation | undefined = context.compaction && {
+                compaction: context.compaction,
+            };
+            if (compaction) {
+                dataStream.writeMessageAnnotation(compaction);
+            }
+            // The sources shown under the answer
+            if (knowledge) {
+                dataStream.writeMessageAnnotation(knowledge);
+            }
+
+            // The client still holds the decisions; swap in the actual results
+            for (const { toolCallId, result, approval } of resolved) {
+                dataStream.write(formatDataStreamPart("tool_result", { toolCallId, result }));
+                if (approval) {
+                    dataStream.writeMessageAnnotation({ toolApproval: approval });
+                }
+            }
+
+            // For the reasoning view: how long each step took, and how much of it went to reasoning
+            const timer = createStepTimer();
+
+            // Each step is priced at the model that answered it; the answer is saved untranslated, as
+            // translation only applies to the outgoing request
+            const saveAnswer = async (
+                responseMessages: ResponseMessage[],
+                steps: { usage: LanguageModelUsage, providerMetadata: ProviderMetadata | undefined }[],
+                answerAnnotations: JSONValue[] = [],
+            ) => {
+                const stepDef = (index: number) => languageModel.calls[index] ?? modelDef;
+                const stepUsages = steps.map((step, index) =>
+                    getStepUsage(stepDef(index), step.usage, step.providerMetadata)
+                );
+                const total = stepUsages.reduce((sum, step) => addUsage(sum, step), emptyUsage);
+                const cost = stepUsages.reduce((sum, step, index) => sum + getCost(stepDef(index), step), 0);
+                const usage: UsageAnnotation = {
+                    usage: { ...total, cost, steps: stepUsages },
+                };
+                dataStream.writeMessageAnnotation(usage);
+                // Limits are per model class, so each step counts towards the model that answered it
+                for (const [index, step] of stepUsages.entries()) {
+                    await recordUsage(user, stepDef(index), { ...step, cost: getCost(stepDef(index), step) });
+                }
+                const timing: TimingAnnotation | undefined = timer.steps.length > 0
+                    ? { timing: timer.steps.map((step, index) => ({ model: stepDef(index).id, ...step })) }
+                    : undefined;
+                if (timing) {
+                    dataStream.writeMessageAnnotation(timing);
+                }
+
+                const appendedMessages = appendResponseMessages({ messages, responseMessages });
+                const updatedMessages = appendedMessages.map((message, index): UIMessage => {
+                    // The response ends up in the last message, possibly continuing an earlier one, which is
+                    // then badged with the model that answered last
+                    const isAnswer = index === appendedMessages.length - 1;
+                    const annotations = (message.annotations ?? []).filter(
+                        (annotation) => !(isAnswer && answeredBy && hasModelProperty(annotation))
+                    );
+                    if (message.role === "assistant" && !annotations.some(hasModelProperty)) {
+                        annotations.push({ model: answeredBy?.id ?? model });
+                    }
+                    if (isAnswer) {
+                        annotations.push(
+                            ...(compaction ? [compaction] : []),
+                            ...(knowledge ? [knowledge] : []),
+                            ...answerAnnotations,
+                            ...(timing ? [timing] : []),
+                        );
+                    }
+
+                    return { ...message, parts: message.parts ?? [], annotations };
+                });
+
+                // The usage goes in separately: annotations in the history are the client's
+                await saveMessages(user.id, id, updatedMessages, { usage });
+
+                // After the response: the stream only ends once this returns, and the title can come later
+                after(() =>
+                    updateDigest(user, id, updatedMessages).catch((error) => {
+                        console.error(`Updating the title and summary of ${id} failed:`, error);
+                    })
+                );
+            };
+
+            const callSettings = {
+                // A cancelled answer ends where it is, and is saved like any other
+                model: stopOnAbort(languageModel, abort.signal),
                 providerOptions,
-                messages: filteredMessages,
+                system: requestSettings.systemPrompt,
+                temperature: settings.temperature,
+                topP: settings.topP,
+                maxTokens: settings.maxOutputTokens,
+                messages: translatedMessages,
+            };
+
+            // The object streams in as the text of the answer, and is checked against the schema at the end
+            const { outputSchema } = settings;
+            if (outputSchema) {
+                const messageId = generateMessageId();
+                return streamStructuredAnswer({
+                    ...callSettings,
+                    schema: outputSchema,
+                    messageId,
+                    dataStream,
+                    onFinish: ({ text, usage, providerMetadata, output }) =>
+                        saveAnswer(
+                            [{ id: messageId, role: "assistant", content: [{ type: "text", text }] }],
+                            [{ usage, providerMetadata }],
+                            [output],
+                        ),
+                });
+            }
+
+            const result = streamText({
+                ...callSettings,
+                maxSteps: settings.maxSteps ?? DEFAULT_MAX_STEPS,
                 tools,
-                onFinish: (result) => {
-                    console.log("Stream finished with result:", {
-                        model,
-                        hasReasoning: !!result.reasoning,
-                        reasoningLength: result.reasoning?.length || 0,
-                        finishReason: result.finishReason,
-                    });
-                },
+                // Retries and fallbacks are up to the failover model
+                maxRetries: 0,
+                experimental_generateMessageId: generateMessageId,
+                onChunk: ({ chunk }) => timer.chunk(chunk.type),
+                onStepFinish: () => timer.stepFinished(),
+                onFinish: (result) => saveAnswer(result.response.messages, result.steps),
             });
 
+            // Keep generating (and saving) even if the client disconnects mid-stream
+            result.consumeStream();
+
             result.mergeIntoDataStream(dataStream, {
                 sendReasoning: true,
                 sendSources: true,
@@ -100,4 +346,9 @@ export async function POST(req: Request) {
             return error instanceof Error ? error.message : String(error);
         },
     });
+
+    const [buffered, live] = stream.tee();
+    after(bufferStream(streamId, buffered, abort));
+
+    return dataStreamResponse(live, streamId);
 }
@@ -0,0 +1,115 @@
+import {
+	type DataStreamWriter,
+	type FinishReason,
+	type LanguageModelUsage,
+	type LanguageModelV1,
+	type ProviderMetadata,
+	type UIMessage,
+	formatDataStreamPart,
+	jsonSchema,
+	streamObject,
+} from "ai";
+
+import {
+	type JsonSchema,
+	type StructuredOutput,
+	type StructuredOutputAnnotation,
+	checkStructuredOutput,
+} from "~/lib/structuredOutput";
+
+export type StructuredAnswer = {
+	text: string;
+	usage: LanguageModelUsage;
+	providerMetadata: ProviderMetadata | undefined;
+	// The annotation written once the answer is complete
+	output: StructuredOutputAnnotation;
+};
+
+/**
+ * Answers with a JSON object matching `schema`. The object streams to the client as the text of
+ * the answer, which parses what it has so far; once complete, it is checked against the schema.
+ * `onFinish` saves the answer before the client hears it is done, as `streamText`'s does.
+ */
+export async function streamStructuredAnswer({
+	model,
+	schema,
+	messageId,
+	dataStream,
+	onFinish,
+	...callSettings
+}: {
+	model: LanguageModelV1;
+	schema: JsonSchema;
+	messageId: string;
+	dataStream: DataStreamWriter;
+	onFinish: (answer: StructuredAnswer) => Promise<void>;
+	system?: string;
+	messages: UIMessage[];
+	providerOptions?: ProviderMetadata;
+	temperature?: number;
+	topP?: number;
+	maxTokens?: number;
+}) {
+	const annotate = (structuredOutput: StructuredOutput) => {
+		const annotation: StructuredOutputAnnotation = { structuredOutput };
+		dataStream.writeMessageAnnotation(annotation);
+		return annotation;
+	};
+
+	annotate({ state: "streaming" });
+	const result = streamObject({
+		model,
+		mode: "json",
+		schema: jsonSchema(schema),
+		// Retries and fallbacks are up to the failover model
+		maxRetries: 0,
+		...callSettings,
+		// Thrown below, for the data stream to report; the default only logs them
+		onError: () => {},
+	});
+
+	dataStream.write(formatDataStreamPart("start_step", { messageId }));
+
+	let text = "";
+	let finishReason: FinishReason = "unknown";
+	let usage: LanguageModelUsage = {
+		promptTokens: 0,
+		completionTokens: 0,
+		totalTokens: 0,
+	};
+	let providerMetadata: ProviderMetadata | undefined;
+	for await (const part of result.fullStream) {
+		switch (part.type) {
+			case "text-delta":
+				text += part.textDelta;
+				dataStream.write(formatDataStreamPart("text", part.textDelta));
+				break;
+			case "error":
+				throw part.error;
+			case "finish":
+				({ finishReason, usage, providerMetadata } = part);
+				break;
+		}
+	}
+
+	const output = annotate(checkStructuredOutput(schema, text));
+	await onFinish({ text, usage, providerMetadata, output });
+
+	const usageTokens = {
+		promptTokens: usage.promptTokens,
+		completionTokens: usage.completionTokens,
+	};
+	dataStream.write(
+		formatDataStreamPart("finish_step", {
+			finishReason,
+			usage: usageTokens,
+			isContinued: false,
+		}),
+	);
+	dataStream.write(
+		formatDataStreamPart("finish_message", {
+			finishReason,
+			usage: usageTokens,
+		}),
+	);
+}
@@ -0,0 +1,191 @@
+import { type UIMessage, generateText } from "ai";
+
+import { env } from "~/env";
+import { estimateTextTokens, getContextBudget } from "~/lib/contextWindow";
+import { getMessageText } from "~/lib/messages";
+import { getCost } from "~/lib/usage";
+import type { SessionUser } from "~/server/auth/access";
+import { loadDigest, saveSummary, saveTitle } from "~/server/db/conversations";
+import { checkLimits, recordUsage } from "./limits";
+import {
+	type ModelDef,
+	createLanguageModel,
+	getModelDef,
+	modelDefs,
+} from "./models";
+import { getStepUsage } from "./usage";
+
+const TITLE_MAX_LENGTH = 80;
+
+// A branch is summarized once it has this many messages, and again each time it grows by as many
+const SUMMARY_INTERVAL = 10;
+
+// Of each message, the summary model only reads the start
+const MESSAGE_EXCERPT_LENGTH = 2000;
+
+const TITLE_PROMPT =
+	"Write a title of at most six words for the conversation below. Reply with the title alone, without quotes or a trailing period.";
+
+const CONTEXT_SUMMARY_PROMPT =
+	"The conversation below no longer fits the context window and will be replaced by your summary. Keep every fact, decision, name, number and open question the conversation may need later. Reply with the summary alone.";
+
+// Room for the summary that replaces dropped messages
+export const CONTEXT_SUMMARY_MAX_TOKENS = 1000;
+
+const SUMMARY_PROMPT =
+	"Summarize the conversation below in at most three sentences: what the user is after and what has been settled so far. Reply with the summary alone.";
+
+function getSummaryModel(): ModelDef | undefined {
+	const def = env.SUMMARY_MODEL
+		? getModelDef(env.SUMMARY_MODEL)
+		: modelDefs.find(
+				(def) =>
+					env.CHAT_PROVIDERS.includes(def.provider) &&
+					def.id === `${def.provider}:default`,
+			);
+
+	return def && env.CHAT_PROVIDERS.includes(def.provider) ? def : undefined;
+}
+
+function transcriptEntry(message: UIMessage): string {
+	const text = getMessageText(message);
+	const excerpt =
+		text.length > MESSAGE_EXCERPT_LENGTH
+			? `${text.slice(0, MESSAGE_EXCERPT_LENGTH)}…`
+			: text;
+	return `${message.role === "user" ? "User" : "Assistant"}: ${excerpt}`;
+}
+
+const transcript = (path: UIMessage[]) =>
+	path.map(transcriptEntry).join("\n\n");
+
+// Models like to dress titles up regardless of the prompt
+function cleanTitle(text: string): string {
+	const title = (text.trim().split("\n")[0] ?? "")
+		.replace(/^(title:\s*)/i, "")
+		.replace(/^["'*#\s]+|["'*.\s]+$/g, "");
+
+	return title.length > TITLE_MAX_LENGTH
+		? `${title.slice(0, TITLE_MAX_LENGTH - 1)}…`
+		: title;
+}
+
+// Paid for by the user like their own messages, and held to the same token and spend limits: a
+// user who has reached one gets no reply, so nothing is saved. They aren't the user's requests
+async function complete(
+	user: SessionUser,
+	def: ModelDef,
+	system: string,
+	prompt: string,
+	maxTokens = 300,
+): Promise<string> {
+	if (await checkLimits(user, def, { countsAsRequest: false })) {
+		return "";
+	}
+
+	const result = await generateText({
+		model: createLanguageModel(def),
+		system,
+		prompt,
+		maxTokens,
+	});
+
+	const usage = getStepUsage(def, result.usage, result.providerMetadata);
+	await recordUsage(user, def, { ...usage, cost: getCost(def, usage) });
+
+	return result.text.trim();
+}
+
+/**
+ * Names the conversation after its first exchange, and keeps a rolling summary of long ones: each
+ * refresh folds the messages since the last summary into it. `path` is the branch that was just
+ * answered.
+ *
+ * Meant to run after the answer has been sent; it calls the summary model and may take a while.
+ */
+export async function updateDigest(
+	user: SessionUser,
+	conversationId: string,
+	path: UIMessage[],
+): Promise<void> {
+	const def = getSummaryModel();
+	const digest = await loadDigest(conversationId);
+	if (!def || !digest) {
+		return;
+	}
+
+	const nameConversation = async () => {
+		const firstAnswer = path.findIndex(
+			(message) => message.role === "assistant",
+		);
+		if (digest.name || firstAnswer === -1) {
+			return;
+		}
+
+		const title = cleanTitle(
+			await complete(
+				user,
+				def,
+				TITLE_PROMPT,
+				transcript(path.slice(0, firstAnswer + 1)),
+			),
+		);
+		if (title) {
+			await saveTitle(conversationId, title);
+		}
+	};
+
+	const summarize = async () => {
+		// Messages up to the summarized one; none if it was of another branch, which starts over
+		const covered =
+			path.findIndex((message) => message.id === digest.summaryMessageId) + 1;
+		const last = path.at(-1);
+		if (!last || path.length - covered < SUMMARY_INTERVAL) {
+			return;
+		}
+
+		const prompt =
+			covered > 0 && digest.summary
+				? `Summary of the conversation so far:\n${digest.summary}\n\nThe messages since:\n\n${transcript(path.slice(covered))}`
+				: transcript(path);
+		const summary = await complete(user, def, SUMMARY_PROMPT, prompt);
+		if (summary) {
+			await saveSummary(conversationId, summary, last.id);
+		}
+	};
+
+	await Promise.all([nameConversation(), summarize()]);
+}
+
+/**
+ * A summary of `messages` to send in their place when they no longer fit the context window, or
+ * nothing without a summary model or once the user has reached a limit. Messages the summary
+ * model can't read all of are summarized from the newest ones back.
+ */
+export async function summarizeForContext(
+	user: SessionUser,
+	messages: UIMessage[],
+): Promise<string | undefined> {
+	const def = getSummaryModel();
+	if (!def) {
+		return undefined;
+	}
+
+	const budget = getContextBudget(def, {
+		maxOutputTokens: CONTEXT_SUMMARY_MAX_TOKENS,
+	});
+	const entries = messages.map(transcriptEntry);
+	let tokens = estimateTextTokens(entries.join("\n\n"));
+	while (entries.length > 1 && tokens > budget) {
+		tokens -= estimateTextTokens(entries.shift() ?? "");
+	}
+
+	const summary = await complete(
+		user,
+		def,
+		CONTEXT_SUMMARY_PROMPT,
+		entries.join("\n\n"),
+		CONTEXT_SUMMARY_MAX_TOKENS,
+	);
+	return summary || undefined;
+}
@@ -0,0 +1,31 @@
+import type { StepTiming } from "~/lib/reasoning";
+
+/**
+ * Times the steps of an answer as its chunks stream in: when each started, how long until the
+ * model began to answer, which is the time spent reasoning whether or not it is shown, and how
+ * long the step took, tool calls included. Feed it every chunk and the end of every step.
+ */
+export function createStepTimer() {
+	const steps: Omit<StepTiming, "model">[] = [];
+	let startedAt = Date.now();
+	let answeredAt: number | undefined;
+
+	return {
+		steps,
+		chunk: (type: string) => {
+			if (answeredAt === undefined && type !== "reasoning") {
+				answeredAt = Date.now();
+			}
+		},
+		stepFinished: () => {
+			const now = Date.now();
+			steps.push({
+				startedAt: new Date(startedAt).toISOString(),
+				reasoningMs: (answeredAt ?? now) - startedAt,
+				durationMs: now - startedAt,
+			});
+			startedAt = now;
+			answeredAt = undefined;
+		},
+	};
+}
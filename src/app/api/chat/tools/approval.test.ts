@@ -0,0 +1,143 @@
+import type { ToolInvocation, UIMessage } from "ai";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+
+import { getToolApproval } from "~/lib/toolApproval";
+import { resolveToolApprovals } from "./approval";
+import { registerTool } from "./registry";
+
+import "./calculator";
+
+const sent: { to: string; body: string }[] = [];
+
+registerTool({
+	name: "send_email",
+	description: "Sends an email",
+	parameters: z.object({ to: z.string(), body: z.string() }),
+	execute: (args) => {
+		sent.push(args);
+		return { sent: true };
+	},
+	category: "test",
+	sideEffect: "write",
+	enabledByDefault: false,
+});
+
+const enabledTools = ["send_email", "calculator"];
+
+const prompt: UIMessage = {
+	id: "prompt",
+	role: "user",
+	content: "Email Ada",
+	parts: [{ type: "text", text: "Email Ada" }],
+};
+
+// An answer that ends in a call, as the client sends it back
+const answer = (invocation: Partial<ToolInvocation>): UIMessage => {
+	const toolInvocation = {
+		toolCallId: "call-1",
+		toolName: "send_email",
+		args: { to: "ada@example.com", body: "Hello" },
+		state: "result",
+		...invocation,
+	} as ToolInvocation;
+	return {
+		id: "answer",
+		role: "assistant",
+		content: "",
+		parts: [{ type: "tool-invocation", toolInvocation }],
+		toolInvocations: [toolInvocation],
+	};
+};
+
+const invocationOf = (message: UIMessage | undefined) =>
+	message?.parts.find((part) => part.type === "tool-invocation")
+		?.toolInvocation as (ToolInvocation & { result?: unknown }) | undefined;
+
+describe("resolveToolApprovals", () => {
+	it("runs an approved call and records the approval", async () => {
+		sent.length = 0;
+		const { messages, resolved } = await resolveToolApprovals(
+			[prompt, answer({ result: { toolApproval: "approved" } })],
+			enabledTools,
+		);
+
+		expect(sent).toEqual([{ to: "ada@example.com", body: "Hello" }]);
+		expect(invocationOf(messages[1])?.result).toEqual({ sent: true });
+		expect(resolved).toMatchObject([
+			{
+				toolCallId: "call-1",
+				result: { sent: true },
+				approval: { approved: true, args: undefined },
+			},
+		]);
+		expect(getToolApproval(messages[1] as UIMessage, "call-1")).toMatchObject({
+			toolName: "send_email",
+			approved: true,
+		});
+	});
+
+	it("runs an approved call with the arguments as edited", async () => {
+		sent.length = 0;
+		const edited = { to: "ada@example.com", body: "Hello, Ada" };
+		const { messages, resolved } = await resolveToolApprovals(
+			[prompt, answer({ result: { toolApproval: "approved", args: edited } })],
+			enabledTools,
+		);
+
+		expect(sent).toEqual([edited]);
+		expect(invocationOf(messages[1])?.args).toEqual(edited);
+		expect(resolved[0]?.approval).toMatchObject({
+			approved: true,
+			args: edited,
+		});
+	});
+
+	it("doesn't run a denied call", async () => {
+		sent.length = 0;
+		const { messages, resolved } = await resolveToolApprovals(
+			[prompt, answer({ result: { toolApproval: "denied" } })],
+			enabledTools,
+		);
+
+		expect(sent).toEqual([]);
+		expect(invocationOf(messages[1])?.result).toEqual({
+			error: "The user denied this tool call",
+		});
+		expect(resolved[0]?.approval).toMatchObject({ approved: false });
+	});
+
+	it("closes a call the user never answered", async () => {
+		sent.length = 0;
+		const { messages, resolved } = await resolveToolApprovals(
+			[prompt, answer({ state: "call" }), { ...prompt, id: "next" }],
+			enabledTools,
+		);
+
+		expect(sent).toEqual([]);
+		expect(invocationOf(messages[1])).toMatchObject({
+			state: "result",
+			result: { error: "The user didn't respond to this tool call" },
+		});
+		expect(resolved).toEqual([]);
+	});
+
+	it("ignores decisions on calls that weren't waiting for one", async () => {
+		const { messages, resolved } = await resolveToolApprovals(
+			[
+				prompt,
+				answer({
+					toolName: "calculator",
+					args: { expression: "6 * 7" },
+					result: { toolApproval: "approved" },
+				}),
+			],
+			enabledTools,
+		);
+
+		const error = { error: `Tool "calculator" doesn't wait for approval` };
+		expect(invocationOf(messages[1])?.result).toEqual(error);
+		expect(resolved).toEqual([{ toolCallId: "call-1", result: error }]);
+		expect(getToolApproval(messages[1] as UIMessage, "call-1")).toBeUndefined();
+	});
+});
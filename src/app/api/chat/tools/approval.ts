@@ -0,0 +1,137 @@
+import type { ToolInvocation, UIMessage } from "ai";
+
+import { type ToolApproval, isToolApprovalDecision } from "~/lib/toolApproval";
+import { executeTool, requiresConfirmation } from "./registry";
+
+export type ResolvedToolCall = {
+	toolCallId: string;
+	result: unknown;
+	approval?: ToolApproval;
+};
+
+type ResolvedInvocation = ToolInvocation & { state: "result" };
+
+/**
+ * Carries out the user's decisions on tool calls that needed confirmation: approved calls run
+ * (with the edited arguments, if any), denied ones get an error result, and the decision is
+ * recorded in the message's annotations. Calls that were never answered because the user moved on
+ * are closed with an error result too, as the model can't continue from an unanswered call.
+ *
+ * Only tools in `enabledTools` are run, and only decisions on tools that ask for confirmation are
+ * taken: for any other tool, the decision came from somewhere else than the approval controls, and
+ * the call gets an error result instead. Returns the updated messages and the calls resolved in the
+ * last message, which the client still has to be told about.
+ */
+export async function resolveToolApprovals(
+	messages: UIMessage[],
+	enabledTools: string[],
+): Promise<{ messages: UIMessage[]; resolved: ResolvedToolCall[] }> {
+	const resolved: ResolvedToolCall[] = [];
+
+	const resolve = async (
+		invocation: ToolInvocation,
+		isLastMessage: boolean,
+	): Promise<{ invocation: ResolvedInvocation; approval?: ToolApproval }> => {
+		if (invocation.state !== "result") {
+			return {
+				invocation: {
+					...invocation,
+					state: "result",
+					args: invocation.args,
+					result: {
+						error: "The user didn't respond to this tool call",
+					},
+				},
+			};
+		}
+
+		if (!isLastMessage || !isToolApprovalDecision(invocation.result)) {
+			return { invocation };
+		}
+
+		// Such a call ran when it was made, so there was nothing to decide
+		if (!requiresConfirmation(invocation.toolName)) {
+			const result = {
+				error: `Tool "${invocation.toolName}" doesn't wait for approval`,
+			};
+			resolved.push({ toolCallId: invocation.toolCallId, result });
+			return { invocation: { ...invocation, result } };
+		}
+
+		const decision = invocation.result;
+		const approved = decision.toolApproval === "approved";
+		const args =
+			decision.toolApproval === "approved" && decision.args !== undefined
+				? decision.args
+				: invocation.args;
+
+		let result: unknown;
+		if (!approved) {
+			result = { error: "The user denied this tool call" };
+		} else if (!enabledTools.includes(invocation.toolName)) {
+			result = { error: `Tool "${invocation.toolName}" is not enabled` };
+		} else {
+			result = await executeTool(invocation.toolName, args);
+		}
+
+		const approval: ToolApproval = {
+			toolCallId: invocation.toolCallId,
+			toolName: invocation.toolName,
+			approved,
+			args: args === invocation.args ? undefined : args,
+			decidedAt: new Date().toISOString(),
+		};
+		resolved.push({ toolCallId: invocation.toolCallId, result, approval });
+
+		return { invocation: { ...invocation, args, result }, approval };
+	};
+
+	const updated = await Promise.all(
+		messages.map(async (message, index): Promise<UIMessage> => {
+			if (message.role !== "assistant") {
+				return message;
+			}
+
+			const isLastMessage = index === messages.length - 1;
+			const approvals: ToolApproval[] = [];
+			const invocations = new Map<string, ResolvedInvocation>();
+
+			const parts = await Promise.all(
+				message.parts.map(async (part) => {
+					if (part.type !== "tool-invocation") {
+						return part;
+					}
+
+					const { invocation, approval } = await resolve(
+						part.toolInvocation,
+						isLastMessage,
+					);
+					invocations.set(invocation.toolCallId, invocation);
+					if (approval) {
+						approvals.push(approval);
+					}
+
+					return { ...part, toolInvocation: invocation };
+				}),
+			);
+
+			return {
+				...message,
+				parts,
+				// The legacy field is still read by `appendResponseMessages`
+				toolInvocations: message.toolInvocations?.map(
+					(invocation) => invocations.get(invocation.toolCallId) ?? invocation,
+				),
+				annotations:
+					approvals.length > 0
+						? [
+								...(message.annotations ?? []),
+								...approvals.map((toolApproval) => ({ toolApproval })),
+							]
+						: message.annotations,
+			};
+		}),
+	);
+
+	return { messages: updated, resolved };
+}
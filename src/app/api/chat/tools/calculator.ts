@@ -0,0 +1,166 @@
+import { z } from "zod";
+
+import { registerTool } from "./registry";
+
+const functions: Record<string, (value: number) => number> = {
+	abs: Math.abs,
+	ceil: Math.ceil,
+	cos: Math.cos,
+	exp: Math.exp,
+	floor: Math.floor,
+	ln: Math.log,
+	log: Math.log10,
+	round: Math.round,
+	sin: Math.sin,
+	sqrt: Math.sqrt,
+	tan: Math.tan,
+};
+
+const constants: Record<string, number> = {
+	e: Math.E,
+	pi: Math.PI,
+};
+
+const TOKEN = /\s*(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+|[a-z]+|\*\*|[-+*/%^(),])/iy;
+
+function tokenize(expression: string): string[] {
+	const tokens: string[] = [];
+	TOKEN.lastIndex = 0;
+
+	while (TOKEN.lastIndex < expression.length) {
+		if (expression.slice(TOKEN.lastIndex).trim() === "") {
+			break;
+		}
+
+		const start = TOKEN.lastIndex;
+		const match = TOKEN.exec(expression);
+		if (!match?.[1]) {
+			throw new Error(`Unexpected character at position ${start + 1}`);
+		}
+		tokens.push(match[1].toLowerCase());
+	}
+
+	return tokens;
+}
+
+/**
+ * Evaluates an arithmetic expression without `eval`, by recursive descent:
+ *
+ *   expression := term (("+" | "-") term)*
+ *   term       := unary (("*" | "/" | "%") unary)*
+ *   unary      := ("-" | "+") unary | power
+ *   power      := primary (("^" | "**") unary)?
+ *   primary    := number | constant | function "(" expression ")" | "(" expression ")"
+ */
+export function evaluate(expression: string): number {
+	const tokens = tokenize(expression);
+	let position = 0;
+
+	const peek = () => tokens[position];
+	const next = () => tokens[position++];
+	const expect = (token: string) => {
+		if (next() !== token) {
+			throw new Error(`Expected "${token}"`);
+		}
+	};
+
+	const parseExpression = (): number => {
+		let value = parseTerm();
+		while (peek() === "+" || peek() === "-") {
+			value = next() === "+" ? value + parseTerm() : value - parseTerm();
+		}
+		return value;
+	};
+
+	const parseTerm = (): number => {
+		let value = parseUnary();
+		for (let op = peek(); op === "*" || op === "/" || op === "%"; op = peek()) {
+			next();
+			const right = parseUnary();
+			value =
+				op === "*" ? value * right : op === "/" ? value / right : value % right;
+		}
+		return value;
+	};
+
+	const parseUnary = (): number => {
+		if (peek() === "-") {
+			next();
+			return -parseUnary();
+		}
+		if (peek() === "+") {
+			next();
+			return parseUnary();
+		}
+		return parsePower();
+	};
+
+	const parsePower = (): number => {
+		const base = parsePrimary();
+		if (peek() === "^" || peek() === "**") {
+			next();
+			// Right associative and binding tighter than a leading minus: -2^3^2 = -(2^9)
+			return base ** parseUnary();
+		}
+		return base;
+	};
+
+	const parsePrimary = (): number => {
+		const token = next();
+		if (token === undefined) {
+			throw new Error("Unexpected end of expression");
+		}
+
+		if (token === "(") {
+			const value = parseExpression();
+			expect(")");
+			return value;
+		}
+
+		if (/^[\d.]/.test(token)) {
+			return Number(token);
+		}
+
+		const constant = constants[token];
+		if (constant !== undefined) {
+			return constant;
+		}
+
+		const fn = functions[token];
+		if (fn) {
+			expect("(");
+			const value = parseExpression();
+			expect(")");
+			return fn(value);
+		}
+
+		throw new Error(`Unknown symbol "${token}"`);
+	};
+
+	const result = parseExpression();
+	if (position < tokens.length) {
+		throw new Error(`Unexpected "${tokens[position]}"`);
+	}
+
+	return result;
+}
+
+registerTool({
+	name: "calculator",
+	description:
+		"Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, the constants pi and e, and the functions abs, ceil, cos, exp, floor, ln, log (base 10), round, sin, sqrt and tan.",
+	parameters: z.object({
+		expression: z.string().describe("The expression, e.g. (3 + 4) * sqrt(2)"),
+	}),
+	execute: ({ expression }) => {
+		const result = evaluate(expression);
+		if (!Number.isFinite(result)) {
+			throw new Error(`"${expression}" does not evaluate to a finite number`);
+		}
+
+		return { expression, result };
+	},
+	category: "math",
+	sideEffect: "none",
+	enabledByDefault: true,
+});
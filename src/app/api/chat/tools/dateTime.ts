@@ -0,0 +1,39 @@
+import { z } from "zod";
+
+import { registerTool } from "./registry";
+
+registerTool({
+	name: "current_datetime",
+	description:
+		"Get the current date and time, optionally in a specific IANA time zone such as Europe/Berlin.",
+	parameters: z.object({
+		timeZone: z
+			.string()
+			.optional()
+			.describe("IANA time zone name; defaults to UTC"),
+	}),
+	execute: ({ timeZone = "UTC" }) => {
+		const now = new Date();
+
+		let formatter: Intl.DateTimeFormat;
+		try {
+			formatter = new Intl.DateTimeFormat("en-US", {
+				timeZone,
+				dateStyle: "full",
+				timeStyle: "long",
+			});
+		} catch {
+			throw new Error(`Unknown time zone "${timeZone}"`);
+		}
+
+		return {
+			timeZone,
+			formatted: formatter.format(now),
+			iso: now.toISOString(),
+			unixTimestamp: Math.floor(now.getTime() / 1000),
+		};
+	},
+	category: "time",
+	sideEffect: "read",
+	enabledByDefault: true,
+});
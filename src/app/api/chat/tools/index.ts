@@ -0,0 +1,16 @@
+// Importing a tool module registers it
+import "./calculator";
+import "./dateTime";
+import "./unitConversion";
+
+export { type ResolvedToolCall, resolveToolApprovals } from "./approval";
+export {
+	executeTool,
+	getDefaultToolNames,
+	getToolSet,
+	hasTool,
+	listTools,
+	requiresConfirmation,
+	type SideEffect,
+	type ToolInfo,
+} from "./registry";
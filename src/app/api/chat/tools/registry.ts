@@ -0,0 +1,162 @@
+import { type Schema, type ToolSet, tool } from "ai";
+import { z } from "zod";
+
+/**
+ * How much a tool can affect the world outside the conversation: `none` only computes, `read`
+ * looks things up, `write` changes something or costs money.
+ */
+export type SideEffect = "none" | "read" | "write";
+
+// Built-in tools use zod; tools discovered at runtime (e.g. over MCP) bring a JSON schema
+type ToolParameters = z.ZodTypeAny | Schema;
+
+type InferParameters<Parameters extends ToolParameters> =
+	Parameters extends z.ZodTypeAny
+		? z.infer<Parameters>
+		: Parameters extends Schema<infer T>
+			? T
+			: never;
+
+export type ToolDefinition<Parameters extends ToolParameters = ToolParameters> =
+	{
+		name: string;
+		description: string;
+		parameters: Parameters;
+		execute: (args: InferParameters<Parameters>) => unknown | Promise<unknown>;
+		category: string;
+		sideEffect: SideEffect;
+		// Whether conversations that never picked their tools get this one
+		enabledByDefault: boolean;
+		// Whether the user has to approve each call before it runs; defaults to true for `write` tools
+		requiresConfirmation?: boolean;
+	};
+
+/**
+ * What the client gets to see of a tool.
+ */
+export type ToolInfo = Pick<
+	ToolDefinition,
+	"name" | "description" | "category" | "sideEffect" | "enabledByDefault"
+> & { requiresConfirmation: boolean };
+
+const toolRegistry = new Map<string, ToolDefinition>();
+
+export function registerTool<Parameters extends ToolParameters>(
+	definition: ToolDefinition<Parameters>,
+) {
+	if (toolRegistry.has(definition.name)) {
+		throw new Error(`Tool "${definition.name}" is already registered`);
+	}
+
+	toolRegistry.set(definition.name, definition as unknown as ToolDefinition);
+}
+
+export function unregisterTool(name: string) {
+	toolRegistry.delete(name);
+}
+
+export function hasTool(name: string): boolean {
+	return toolRegistry.has(name);
+}
+
+const needsConfirmation = (definition: ToolDefinition) =>
+	definition.requiresConfirmation ?? definition.sideEffect === "write";
+
+export function requiresConfirmation(name: string): boolean {
+	const definition = toolRegistry.get(name);
+
+	return !!definition && needsConfirmation(definition);
+}
+
+export function listTools(): ToolInfo[] {
+	return [...toolRegistry.values()].map((definition) => ({
+		name: definition.name,
+		description: definition.description,
+		category: definition.category,
+		sideEffect: definition.sideEffect,
+		enabledByDefault: definition.enabledByDefault,
+		requiresConfirmation: needsConfirmation(definition),
+	}));
+}
+
+export function getDefaultToolNames(): string[] {
+	return listTools()
+		.filter((info) => info.enabledByDefault)
+		.map((info) => info.name);
+}
+
+function validateArgs(
+	parameters: ToolParameters,
+	args: unknown,
+): { success: true; value: unknown } | { success: false; error: string } {
+	if (parameters instanceof z.ZodType) {
+		const result = parameters.safeParse(args);
+		return result.success
+			? { success: true, value: result.data }
+			: {
+					success: false,
+					error: result.error.issues.map((issue) => issue.message).join("; "),
+				};
+	}
+
+	// JSON schemas without a validator are left to the tool itself
+	const result = parameters.validate?.(args) ?? { success: true, value: args };
+	return result.success
+		? result
+		: { success: false, error: result.error.message };
+}
+
+/**
+ * Runs a tool outside of `streamText`, e.g. once the user approved the call. The arguments are
+ * validated first, since the user may have edited them. Errors are returned as `{ error }`, like
+ * from the tools in `getToolSet`.
+ */
+export async function executeTool(name: string, args: unknown) {
+	const definition = toolRegistry.get(name);
+	if (!definition) {
+		return { error: `Unknown tool "${name}"` };
+	}
+
+	const parsedArgs = validateArgs(definition.parameters, args);
+	if (!parsedArgs.success) {
+		return { error: `Invalid arguments: ${parsedArgs.error}` };
+	}
+
+	try {
+		return await definition.execute(parsedArgs.value);
+	} catch (error) {
+		return {
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+}
+
+/**
+ * Builds the `tools` argument for `streamText` from the named tools. Executor errors are returned
+ * to the model as `{ error }` so it can correct itself instead of failing the whole response.
+ * Tools that require confirmation are sent without `execute`, so the call ends the response and
+ * waits for the user's decision (see `resolveToolApprovals`).
+ */
+export function getToolSet(names: string[]): ToolSet {
+	const tools: ToolSet = {};
+
+	for (const name of names) {
+		const definition = toolRegistry.get(name);
+		if (!definition) {
+			continue;
+		}
+
+		tools[name] = needsConfirmation(definition)
+			? tool({
+					description: definition.description,
+					parameters: definition.parameters,
+				})
+			: tool({
+					description: definition.description,
+					parameters: definition.parameters,
+					execute: (args) => executeTool(name, args),
+				});
+	}
+
+	return tools;
+}
@@ -0,0 +1,128 @@
+import { z } from "zod";
+
+import { registerTool } from "./registry";
+
+/**
+ * Linear units, as the factor that converts one of them into the dimension's base unit.
+ */
+const dimensions: Record<string, Record<string, number>> = {
+	length: {
+		mm: 0.001,
+		cm: 0.01,
+		m: 1,
+		km: 1000,
+		in: 0.0254,
+		ft: 0.3048,
+		yd: 0.9144,
+		mi: 1609.344,
+		nmi: 1852,
+	},
+	mass: {
+		mg: 0.000001,
+		g: 0.001,
+		kg: 1,
+		t: 1000,
+		oz: 0.028349523125,
+		lb: 0.45359237,
+		st: 6.35029318,
+	},
+	volume: {
+		ml: 0.001,
+		l: 1,
+		m3: 1000,
+		tsp: 0.00492892159375,
+		tbsp: 0.01478676478125,
+		floz: 0.0295735295625,
+		cup: 0.2365882365,
+		pt: 0.473176473,
+		qt: 0.946352946,
+		gal: 3.785411784,
+	},
+	speed: {
+		"m/s": 1,
+		"km/h": 1 / 3.6,
+		mph: 0.44704,
+		kn: 1852 / 3600,
+	},
+	time: {
+		ms: 0.001,
+		s: 1,
+		min: 60,
+		h: 3600,
+		d: 86400,
+		wk: 604800,
+	},
+	data: {
+		b: 1,
+		kb: 1000,
+		mb: 1000 ** 2,
+		gb: 1000 ** 3,
+		tb: 1000 ** 4,
+		kib: 1024,
+		mib: 1024 ** 2,
+		gib: 1024 ** 3,
+		tib: 1024 ** 4,
+	},
+};
+
+// Temperatures have offsets, so they convert through Kelvin instead of a factor
+const temperatures: Record<
+	string,
+	{ toKelvin: (value: number) => number; fromKelvin: (value: number) => number }
+> = {
+	c: { toKelvin: (v) => v + 273.15, fromKelvin: (v) => v - 273.15 },
+	f: {
+		toKelvin: (v) => ((v - 32) * 5) / 9 + 273.15,
+		fromKelvin: (v) => ((v - 273.15) * 9) / 5 + 32,
+	},
+	k: { toKelvin: (v) => v, fromKelvin: (v) => v },
+};
+
+export function convertUnits(value: number, from: string, to: string) {
+	const source = from.trim().toLowerCase();
+	const target = to.trim().toLowerCase();
+
+	const fromTemperature = temperatures[source];
+	const toTemperature = temperatures[target];
+	if (fromTemperature && toTemperature) {
+		return {
+			dimension: "temperature",
+			result: toTemperature.fromKelvin(fromTemperature.toKelvin(value)),
+		};
+	}
+
+	for (const [dimension, units] of Object.entries(dimensions)) {
+		const fromFactor = units[source];
+		const toFactor = units[target];
+		if (fromFactor !== undefined && toFactor !== undefined) {
+			return { dimension, result: (value * fromFactor) / toFactor };
+		}
+	}
+
+	throw new Error(
+		`Can't convert "${from}" to "${to}". Supported units: ${[
+			...Object.values(dimensions).flatMap((units) => Object.keys(units)),
+			...Object.keys(temperatures),
+		].join(", ")}`,
+	);
+}
+
+registerTool({
+	name: "convert_units",
+	description:
+		"Convert a value between units of length, mass, volume, speed, time, data size or temperature (c, f, k).",
+	parameters: z.object({
+		value: z.number(),
+		from: z.string().describe("Unit to convert from, e.g. km, lb, gal, mph, f"),
+		to: z.string().describe("Unit to convert to"),
+	}),
+	execute: ({ value, from, to }) => ({
+		value,
+		from,
+		to,
+		...convertUnits(value, from, to),
+	}),
+	category: "math",
+	sideEffect: "none",
+	enabledByDefault: true,
+});
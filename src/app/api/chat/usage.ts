@@ -0,0 +1,43 @@
+import type { LanguageModelUsage, ProviderMetadata } from "ai";
+
+import type { TokenUsage } from "~/lib/usage";
+import type { ModelDef } from "./models";
+
+const count = (value: unknown) =>
+	typeof value === "number" && Number.isFinite(value) ? value : 0;
+
+/**
+ * Normalizes the usage of one step. Providers report reasoning and cache hits in their own
+ * metadata: OpenAI counts cached tokens as part of the prompt, Anthropic reports them next to it.
+ */
+export function getStepUsage(
+	def: ModelDef,
+	usage: LanguageModelUsage,
+	providerMetadata: ProviderMetadata | undefined,
+): TokenUsage {
+	const metadata = providerMetadata?.[def.provider] ?? {};
+	const promptTokens = count(usage.promptTokens);
+
+	switch (def.provider) {
+		case "anthropic": {
+			// Cache writes are billed a little above the input price; counted as plain input here
+			const cachedPromptTokens = count(metadata.cacheReadInputTokens);
+			return {
+				promptTokens:
+					promptTokens +
+					cachedPromptTokens +
+					count(metadata.cacheCreationInputTokens),
+				completionTokens: count(usage.completionTokens),
+				reasoningTokens: 0,
+				cachedPromptTokens,
+			};
+		}
+		default:
+			return {
+				promptTokens,
+				completionTokens: count(usage.completionTokens),
+				reasoningTokens: count(metadata.reasoningTokens),
+				cachedPromptTokens: count(metadata.cachedPromptTokens),
+			};
+	}
+}
@@ -0,0 +1,39 @@
+import { auth } from "~/server/auth";
+import { loadSharedDocument } from "~/server/knowledge";
+
+/**
+ * Serves a file of the knowledge directories, which everyone's answers draw on, for sources to
+ * link to. Uploaded documents are served as attachments instead.
+ */
+export async function GET(
+	_req: Request,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	const session = await auth();
+	if (!session?.user) {
+		return new Response("Sign in to view files", { status: 401 });
+	}
+
+	const { id } = await params;
+	const document = await loadSharedDocument(id);
+	if (!document) {
+		return new Response("Not found", { status: 404 });
+	}
+
+	// Markdown and text are served as plain text, so nothing in them runs on our origin
+	const contentType =
+		document.contentType === "application/pdf"
+			? document.contentType
+			: "text/plain; charset=utf-8";
+
+	return new Response(new Uint8Array(document.data), {
+		headers: {
+			"Content-Type": contentType,
+			"Content-Length": String(document.data.length),
+			"Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(document.name)}`,
+			// The file changes whenever it is edited in the directory
+			"Cache-Control": "private, no-cache",
+			"X-Content-Type-Options": "nosniff",
+		},
+	});
+}
@@ -0,0 +1,54 @@
+import { formatBytes } from "~/lib/attachments";
+import {
+	MAX_KNOWLEDGE_FILE_BYTES,
+	getKnowledgeFileType,
+} from "~/lib/knowledge";
+import { auth } from "~/server/auth";
+import { uploadDocument } from "~/server/knowledge";
+
+/**
+ * Adds a file to the signed in user's knowledge base, sent as the `file` field of a multipart
+ * form. Responds with the indexed document.
+ */
+export async function POST(req: Request) {
+	const session = await auth();
+	if (!session?.user) {
+		return new Response("Sign in to upload files", { status: 401 });
+	}
+
+	const form = await req.formData().catch(() => undefined);
+	const file = form?.get("file");
+	if (!(file instanceof File)) {
+		return new Response('Expected a multipart form with a "file" field', {
+			status: 400,
+		});
+	}
+
+	const name = file.name || "document";
+	if (!getKnowledgeFileType(name, file.type)) {
+		return new Response("Only Markdown, text and PDF files can be added", {
+			status: 415,
+		});
+	}
+	if (file.size > MAX_KNOWLEDGE_FILE_BYTES) {
+		return new Response(
+			`Files can be at most ${formatBytes(MAX_KNOWLEDGE_FILE_BYTES)}`,
+			{ status: 413 },
+		);
+	}
+
+	try {
+		const document = await uploadDocument(session.user, {
+			name,
+			contentType: file.type,
+			data: new Uint8Array(await file.arrayBuffer()),
+		});
+		return Response.json(document);
+	} catch (error) {
+		// Files without text to read
+		return new Response(
+			error instanceof Error ? error.message : String(error),
+			{ status: 422 },
+		);
+	}
+}
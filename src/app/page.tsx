@@ -1,18 +1,43 @@
+import { generateId } from "ai";
+import { redirect } from "next/navigation";
+
+import { auth } from "~/server/auth";
 import { HydrateClient, api } from "~/trpc/server";
 import Chat from "./_components/Chat";
 import Sidebar from "./_components/Sidebar";
 
-export default async function Home() {
+export default async function Home({
+	searchParams,
+}: {
+	searchParams: Promise<{ c?: string; m?: string }>;
+}) {
+	const session = await auth();
+	if (!session?.user) {
+		redirect("/api/auth/signin");
+	}
+
+	const params = await searchParams;
+	// Without a selected conversation we start a fresh one; it is only stored once a message is sent
+	const conversationId = params.c ?? generateId();
+
 	void api.model.list.prefetch();
+	void api.tool.list.prefetch();
+	void api.chat.list.prefetch();
+	void api.chat.get.prefetch({ id: conversationId });
 
 	return (
 		<HydrateClient>
-			<div className="flex flex-row w-screen h-screen overflow-hidden">
+			<div className="flex h-screen w-screen flex-row overflow-hidden">
 				<div className="w-1/6">
-					<Sidebar />
+					<Sidebar user={session.user} />
 				</div>
-				<div className="flex w-5/6 h-full flex-col">
-					<Chat />
+				<div className="flex h-full w-5/6 flex-col">
+					<Chat
+						// Jumping to another message (e.g. from search) opens its branch afresh
+						key={`${conversationId}:${params.m ?? ""}`}
+						conversationId={conversationId}
+						focusMessageId={params.m}
+					/>
 				</div>
 			</div>
 		</HydrateClient>
@@ -7,9 +7,112 @@ export const env = createEnv({
 	 * isn't built with invalid env vars.
 	 */
 	server: {
+		AUTH_SECRET:
+			process.env.NODE_ENV === "production"
+				? z.string()
+				: z.string().optional(),
+		/**
+		 * GitHub OAuth app credentials. Sign-in with GitHub is offered when both are set.
+		 */
+		AUTH_GITHUB_ID: z.string().optional(),
+		AUTH_GITHUB_SECRET: z.string().optional(),
+		/**
+		 * Offers a password-less "dev login" that signs in with any email address. On by default in
+		 * development only; never enable it on a deployment others can reach.
+		 */
+		AUTH_DEV_LOGIN: z
+			.enum(["true", "false"])
+			.optional()
+			.transform((value) =>
+				value === undefined
+					? process.env.NODE_ENV === "development"
+					: value === "true",
+			),
+		/**
+		 * Comma-separated emails of the users that are made admins when they sign in.
+		 */
+		ADMIN_EMAILS: z
+			.string()
+			.default("")
+			.transform((value) =>
+				value
+					.split(",")
+					.map((email) => email.trim().toLowerCase())
+					.filter(Boolean),
+			),
 		DATABASE_URL: z.string().url(),
-		OPENAI_API_KEY: z.string(),
-		ANTHROPIC_API_KEY: z.string(),
+		/**
+		 * Comma-separated list of the providers offered in the model dropdown. Use `mock` alone to run
+		 * without any provider keys.
+		 */
+		CHAT_PROVIDERS: z
+			.string()
+			.default("openai,anthropic")
+			.transform((value) => value.split(",").map((provider) => provider.trim()))
+			.pipe(z.array(z.enum(["openai", "anthropic", "mock"])).nonempty()),
+		OPENAI_API_KEY: z.string().optional(),
+		ANTHROPIC_API_KEY: z.string().optional(),
+		/**
+		 * Path to a JSON file listing the MCP servers whose tools the chat may use, see
+		 * `mcp.example.json`.
+		 */
+		MCP_CONFIG: z.string().optional(),
+		/**
+		 * Directory where files attached to messages are stored.
+		 */
+		ATTACHMENT_DIR: z.string().default(".data/attachments"),
+		/**
+		 * Path to a JSON file with the request, token and spend limits, see `limits.example.json`.
+		 * Without one nothing is limited.
+		 */
+		RATE_LIMITS: z.string().optional(),
+		/**
+		 * Where rate limit counters are kept. `memory` is per process and forgets on restart, so it
+		 * is the default in development only.
+		 */
+		RATE_LIMIT_STORE: z
+			.enum(["postgres", "memory"])
+			.optional()
+			.transform(
+				(value) =>
+					value ??
+					(process.env.NODE_ENV === "development" ? "memory" : "postgres"),
+			),
+		/**
+		 * Where answers being generated are buffered for clients to reattach to. `memory` only works
+		 * with a single server process, so it is the default in development only.
+		 */
+		STREAM_STORE: z
+			.enum(["postgres", "memory"])
+			.optional()
+			.transform(
+				(value) =>
+					value ??
+					(process.env.NODE_ENV === "development" ? "memory" : "postgres"),
+			),
+		/**
+		 * Catalog model that names conversations and summarizes long ones, e.g. `openai:default`.
+		 * Defaults to the first enabled provider's default model.
+		 */
+		SUMMARY_MODEL: z.string().optional(),
+		/**
+		 * What embeds knowledge base documents: `local` hashes words, free and offline but matching
+		 * words rather than meaning; `openai` uses OpenAI's embedding model.
+		 */
+		KNOWLEDGE_EMBEDDER: z.enum(["local", "openai"]).default("local"),
+		/**
+		 * Comma-separated directories whose Markdown, text and PDF files are in everyone's knowledge
+		 * base, e.g. `docs,tasks`. An admin syncs them from the knowledge base panel.
+		 */
+		KNOWLEDGE_DIRS: z
+			.string()
+			.default("")
+			.transform((value) =>
+				value
+					.split(",")
+					.map((dir) => dir.trim())
+					.filter(Boolean),
+			),
 		NODE_ENV: z
 			.enum(["development", "test", "production"])
 			.default("development"),
@@ -29,9 +132,23 @@ export const env = createEnv({
 	 * middlewares) or client-side so we need to destruct manually.
 	 */
 	runtimeEnv: {
+		AUTH_SECRET: process.env.AUTH_SECRET,
+		AUTH_GITHUB_ID: process.env.AUTH_GITHUB_ID,
+		AUTH_GITHUB_SECRET: process.env.AUTH_GITHUB_SECRET,
+		AUTH_DEV_LOGIN: process.env.AUTH_DEV_LOGIN,
+		ADMIN_EMAILS: process.env.ADMIN_EMAILS,
 		DATABASE_URL: process.env.DATABASE_URL,
+		CHAT_PROVIDERS: process.env.CHAT_PROVIDERS,
 		OPENAI_API_KEY: process.env.OPENAI_API_KEY,
 		ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+		MCP_CONFIG: process.env.MCP_CONFIG,
+		ATTACHMENT_DIR: process.env.ATTACHMENT_DIR,
+		RATE_LIMITS: process.env.RATE_LIMITS,
+		RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE,
+		STREAM_STORE: process.env.STREAM_STORE,
+		SUMMARY_MODEL: process.env.SUMMARY_MODEL,
+		KNOWLEDGE_EMBEDDER: process.env.KNOWLEDGE_EMBEDDER,
+		KNOWLEDGE_DIRS: process.env.KNOWLEDGE_DIRS,
 		NODE_ENV: process.env.NODE_ENV,
 		// NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
 	},
@@ -46,3 +163,25 @@ export const env = createEnv({
 	 */
 	emptyStringAsUndefined: true,
 });
+
+/**
+ * Provider keys are only required for the providers that are in use.
+ */
+if (!process.env.SKIP_ENV_VALIDATION && typeof window === "undefined") {
+	const missingKeys = [
+		(env.CHAT_PROVIDERS.includes("openai") ||
+			env.KNOWLEDGE_EMBEDDER === "openai") &&
+		!env.OPENAI_API_KEY
+			? "OPENAI_API_KEY"
+			: undefined,
+		env.CHAT_PROVIDERS.includes("anthropic") && !env.ANTHROPIC_API_KEY
+			? "ANTHROPIC_API_KEY"
+			: undefined,
+	].filter(Boolean);
+
+	if (missingKeys.length > 0) {
+		throw new Error(
+			`❌ Invalid environment variables: ${missingKeys.join(", ")} required by CHAT_PROVIDERS or KNOWLEDGE_EMBEDDER`,
+		);
+	}
+}
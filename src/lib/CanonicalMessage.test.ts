@@ -0,0 +1,200 @@
+import type { LanguageModelV1Prompt, UIMessage } from "ai";
+import { describe, expect, it } from "vitest";
+
+import { type ModelDef, modelDefs } from "~/app/api/chat/models";
+import {
+	type ReasoningDetail,
+	toCanonicalMessage,
+	toUIMessage,
+	translateMessages,
+	translatePrompt,
+} from "./CanonicalMessage";
+import fixtures from "./fixtures/reasoning.json";
+
+type Fixture = keyof typeof fixtures;
+
+const prompt: UIMessage = {
+	id: "prompt",
+	role: "user",
+	content: "What is 6 * 7?",
+	parts: [{ type: "text", text: "What is 6 * 7?" }],
+};
+
+const answer = (fixture: Fixture, model: string): UIMessage => ({
+	id: "answer",
+	role: "assistant",
+	content: "42",
+	parts: [
+		{ type: "step-start" },
+		fixtures[fixture].part as UIMessage["parts"][number],
+		{ type: "text", text: "42" },
+	],
+	annotations: [{ model }],
+});
+
+const targetOf = (def: ModelDef) => ({
+	provider: def.provider,
+	reasoning: def.capabilities.reasoning,
+});
+
+// The details the fixture's reasoning normalizes to
+const detailsOf = (fixture: Fixture): ReasoningDetail[] => {
+	const part = fixtures[fixture].part;
+	if ("details" in part) {
+		return part.details as ReasoningDetail[];
+	}
+	return [
+		{
+			type: "text",
+			text: part.thinking.content,
+			signature: part.thinking.signature,
+		},
+	];
+};
+
+// What the translation has to do: replay reasoning natively to the provider that produced it when
+// the model reasons, Anthropic only with every block signed, and pass it on as text otherwise
+const expectNative = (fixture: Fixture, from: ModelDef, to: ModelDef) =>
+	to.capabilities.reasoning &&
+	from.provider === to.provider &&
+	(to.provider !== "anthropic" ||
+		detailsOf(fixture).every(
+			(detail) => detail.type === "redacted" || !!detail.signature,
+		));
+
+const pairs = modelDefs.flatMap((from) =>
+	modelDefs.map((to) => [from.id, to.id, from, to] as const),
+);
+
+describe("translateMessages", () => {
+	for (const fixture of Object.keys(fixtures) as Fixture[]) {
+		describe(fixtures[fixture].description, () => {
+			it.each(pairs)("%s → %s", (_from, _to, from, to) => {
+				const [user, translated] = translateMessages(
+					[prompt, answer(fixture, from.id)],
+					targetOf(to),
+				);
+
+				expect(user).toEqual(prompt);
+				expect(translated?.annotations).toEqual([{ model: from.id }]);
+				const parts = translated?.parts ?? [];
+				expect(parts[0]).toEqual({ type: "step-start" });
+				expect(parts.at(-1)).toEqual({ type: "text", text: "42" });
+
+				const reasoning = parts[1];
+				if (expectNative(fixture, from, to)) {
+					expect(reasoning).toMatchObject({
+						type: "reasoning",
+						details: detailsOf(fixture),
+					});
+					return;
+				}
+
+				expect(parts.some((part) => part.type === "reasoning")).toBe(false);
+				expect(reasoning?.type).toBe("text");
+				const text = reasoning?.type === "text" ? reasoning.text : "";
+				expect(text).toContain(
+					`<previous_reasoning source="${from.provider}">`,
+				);
+				for (const detail of detailsOf(fixture)) {
+					if (detail.type === "text") {
+						expect(text).toContain(detail.text.trim());
+					}
+				}
+				// Signatures and encrypted blocks mean nothing to anyone else
+				expect(text).not.toContain("fixture-signature");
+				expect(text).not.toContain("Zml4dHVyZS1yZWRhY3RlZA==");
+				if (fixture === "redacted") {
+					expect(text).toContain("[1 redacted reasoning block(s) omitted]");
+				}
+			});
+		});
+	}
+
+	it("keeps user messages and answers without reasoning as they are", () => {
+		const plain: UIMessage = {
+			id: "plain",
+			role: "assistant",
+			content: "42",
+			parts: [{ type: "text", text: "42" }],
+		};
+
+		expect(
+			translateMessages([prompt, plain], {
+				provider: "anthropic",
+				reasoning: true,
+			}),
+		).toEqual([prompt, plain]);
+	});
+});
+
+describe("toCanonicalMessage", () => {
+	it.each(Object.keys(fixtures) as Fixture[])(
+		"round-trips %s reasoning through the canonical format",
+		(fixture) => {
+			const message = answer(fixture, "anthropic:smart");
+			const canonical = toCanonicalMessage(message);
+
+			expect(canonical.provider).toBe("anthropic");
+			expect(canonical.parts[1]).toMatchObject({
+				type: "reasoning",
+				provider: "anthropic",
+				details: detailsOf(fixture),
+			});
+			// Legacy parts come back in the shape the AI SDK uses
+			expect(toUIMessage(canonical).parts[1]).toMatchObject({
+				type: "reasoning",
+				details: detailsOf(fixture),
+			});
+		},
+	);
+});
+
+describe("translatePrompt", () => {
+	// The prompt as the AI SDK converts it for a provider, reasoning as native parts
+	const promptFor = (fixture: Fixture): LanguageModelV1Prompt => [
+		{ role: "user", content: [{ type: "text", text: "What is 6 * 7?" }] },
+		{
+			role: "assistant",
+			content: [
+				...detailsOf(fixture).map((detail) =>
+					detail.type === "text"
+						? {
+								type: "reasoning" as const,
+								text: detail.text,
+								signature: detail.signature,
+							}
+						: { type: "redacted-reasoning" as const, data: detail.data },
+				),
+				{ type: "text", text: "42" },
+			],
+		},
+	];
+
+	for (const fixture of Object.keys(fixtures) as Fixture[]) {
+		it.each(pairs)(`${fixture}: %s → %s`, (_from, _to, from, to) => {
+			const original = promptFor(fixture);
+			const [user, assistant] = translatePrompt(
+				original,
+				from.provider,
+				targetOf(to),
+			);
+
+			expect(user).toEqual(original[0]);
+			if (expectNative(fixture, from, to)) {
+				expect(assistant).toEqual(original[1]);
+				return;
+			}
+
+			const content = assistant?.role === "assistant" ? assistant.content : [];
+			expect(content).toHaveLength(2);
+			expect(content[0]).toMatchObject({
+				type: "text",
+				text: expect.stringContaining(
+					`<previous_reasoning source="${from.provider}">`,
+				),
+			});
+			expect(content[1]).toEqual({ type: "text", text: "42" });
+		});
+	}
+});
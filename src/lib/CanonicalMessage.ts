@@ -0,0 +1,282 @@
+import type { LanguageModelV1Prompt, UIMessage } from "ai";
+
+import type { Provider } from "~/app/api/chat/models";
+import { getModelAnnotation } from "./messages";
+
+/**
+ * A single step of reasoning, in the shape the AI SDK uses for `ReasoningUIPart.details`.
+ *
+ * Anthropic attaches a `signature` to every thinking block and may return `redacted` blocks whose
+ * content is encrypted; OpenAI's reasoning summaries are plain text without a signature.
+ */
+export type ReasoningDetail =
+	| { type: "text"; text: string; signature?: string }
+	| { type: "redacted"; data: string };
+
+/**
+ * Provider-neutral reasoning. `provider` records who produced it, because signatures and redacted
+ * blocks are only meaningful to that provider.
+ */
+export type CanonicalReasoningPart = {
+	type: "reasoning";
+	provider?: Provider;
+	content: string;
+	details: ReasoningDetail[];
+};
+
+export type CanonicalMessagePart =
+	| Exclude<UIMessage["parts"][number], { type: "reasoning" }>
+	| CanonicalReasoningPart;
+
+export type CanonicalMessage = Omit<UIMessage, "parts"> & {
+	provider?: Provider;
+	parts: CanonicalMessagePart[];
+};
+
+/**
+ * What the next request will be sent to: the provider, and whether the selected model accepts
+ * reasoning input at all.
+ */
+export type ReasoningTarget = {
+	provider: Provider;
+	reasoning: boolean;
+};
+
+// Older clients persisted Anthropic reasoning as `{ thinking: { content, signature } }`
+type LegacyThinkingPart = {
+	type: "reasoning";
+	reasoning?: string;
+	details?: ReasoningDetail[];
+	thinking?: { content?: string; signature?: string };
+};
+
+export function getMessageProvider(message: UIMessage): Provider | undefined {
+	return getModelAnnotation(message)?.split(":")[0] as Provider | undefined;
+}
+
+function toCanonicalReasoning(
+	part: LegacyThinkingPart,
+	provider: Provider | undefined,
+): CanonicalReasoningPart {
+	let details = part.details ?? [];
+
+	if (details.length === 0 && part.thinking?.content) {
+		details = [
+			{
+				type: "text",
+				text: part.thinking.content,
+				signature: part.thinking.signature,
+			},
+		];
+	}
+
+	const content =
+		part.reasoning ||
+		details
+			.filter((detail) => detail.type === "text")
+			.map((detail) => detail.text)
+			.join("\n");
+
+	// The AI SDK expects every reasoning part to carry a details array
+	if (details.length === 0 && content) {
+		details = [{ type: "text", text: content }];
+	}
+
+	return { type: "reasoning", provider, content, details };
+}
+
+/**
+ * Converts a `UIMessage` into the canonical format, normalizing every reasoning part and tagging it
+ * with the provider that produced it. No data is dropped.
+ */
+export function toCanonicalMessage(message: UIMessage): CanonicalMessage {
+	const provider = getMessageProvider(message);
+
+	return {
+		...message,
+		provider,
+		parts: message.parts.map((part) =>
+			part.type === "reasoning"
+				? toCanonicalReasoning(part as LegacyThinkingPart, provider)
+				: part,
+		),
+	};
+}
+
+function toReasoningUIPart(
+	part: CanonicalReasoningPart,
+): UIMessage["parts"][number] {
+	return { type: "reasoning", reasoning: part.content, details: part.details };
+}
+
+/**
+ * Converts a canonical message back into the `UIMessage` it came from, reasoning details and
+ * signatures intact.
+ */
+export function toUIMessage(canonical: CanonicalMessage): UIMessage {
+	const { provider: _provider, ...message } = canonical;
+
+	return {
+		...message,
+		parts: canonical.parts.map((part) =>
+			part.type === "reasoning" ? toReasoningUIPart(part) : part,
+		),
+	};
+}
+
+/**
+ * Whether a reasoning part can be replayed to the target as native reasoning. It has to come from
+ * the same provider, the target model has to accept reasoning, and for Anthropic every thinking
+ * block needs the signature it was issued with.
+ */
+function canSendNatively(
+	part: CanonicalReasoningPart,
+	target: ReasoningTarget,
+): boolean {
+	if (!target.reasoning || part.provider !== target.provider) {
+		return false;
+	}
+
+	if (target.provider === "anthropic") {
+		return part.details.every(
+			(detail) => detail.type === "redacted" || !!detail.signature,
+		);
+	}
+
+	return true;
+}
+
+/**
+ * Renders reasoning another provider can't verify as plain text, so its content still reaches the
+ * model as context. Redacted blocks are encrypted for their provider and are only counted.
+ */
+export function formatReasoningContext(part: CanonicalReasoningPart): string {
+	const redacted = part.details.filter(
+		(detail) => detail.type === "redacted",
+	).length;
+
+	const lines = [
+		`<previous_reasoning source="${part.provider ?? "unknown"}">`,
+		part.content,
+	];
+	if (redacted > 0) {
+		lines.push(`[${redacted} redacted reasoning block(s) omitted]`);
+	}
+	lines.push("</previous_reasoning>");
+
+	return lines.join("\n");
+}
+
+/**
+ * Converts a canonical message into a `UIMessage` the target provider will accept: reasoning the
+ * target can verify is passed through natively, anything else is re-injected as text context.
+ */
+export function toProviderMessage(
+	canonical: CanonicalMessage,
+	target: ReasoningTarget,
+): UIMessage {
+	const message = toUIMessage(canonical);
+
+	return {
+		...message,
+		parts: canonical.parts.flatMap((part): UIMessage["parts"] => {
+			if (part.type !== "reasoning") {
+				return [part];
+			}
+
+			if (canSendNatively(part, target)) {
+				return [toReasoningUIPart(part)];
+			}
+
+			// Nothing readable to carry over, e.g. o3 reasoning without a summary
+			if (!part.content && part.details.length === 0) {
+				return [];
+			}
+
+			return [{ type: "text", text: formatReasoningContext(part) }];
+		}),
+	};
+}
+
+/**
+ * Prepares a conversation for the target provider, see `toProviderMessage`.
+ */
+export function translateMessages(
+	messages: UIMessage[],
+	target: ReasoningTarget,
+): UIMessage[] {
+	return messages.map((message) =>
+		message.role === "assistant"
+			? toProviderMessage(toCanonicalMessage(message), target)
+			: message,
+	);
+}
+
+type PromptMessage = LanguageModelV1Prompt[number];
+type AssistantPromptPart = Extract<
+	PromptMessage,
+	{ role: "assistant" }
+>["content"][number];
+
+/**
+ * `translateMessages` for a prompt already converted for another provider, as when a request
+ * fails over to a fallback model. Reasoning the prompt still carries natively is `from`'s: it is
+ * kept if the target can verify it, and re-injected as text context otherwise.
+ */
+export function translatePrompt(
+	prompt: LanguageModelV1Prompt,
+	from: Provider,
+	target: ReasoningTarget,
+): LanguageModelV1Prompt {
+	return prompt.map((message): PromptMessage => {
+		if (message.role !== "assistant") {
+			return message;
+		}
+
+		const content: AssistantPromptPart[] = [];
+		// Consecutive reasoning parts are the details of one reasoning part
+		let run: AssistantPromptPart[] = [];
+
+		const flush = () => {
+			if (run.length === 0) {
+				return;
+			}
+
+			const details = run.flatMap((part): ReasoningDetail[] =>
+				part.type === "reasoning"
+					? [{ type: "text", text: part.text, signature: part.signature }]
+					: part.type === "redacted-reasoning"
+						? [{ type: "redacted", data: part.data }]
+						: [],
+			);
+			const reasoning: CanonicalReasoningPart = {
+				type: "reasoning",
+				provider: from,
+				content: details
+					.map((detail) => (detail.type === "text" ? detail.text : ""))
+					.filter(Boolean)
+					.join("\n"),
+				details,
+			};
+
+			if (canSendNatively(reasoning, target)) {
+				content.push(...run);
+			} else {
+				content.push({ type: "text", text: formatReasoningContext(reasoning) });
+			}
+			run = [];
+		};
+
+		for (const part of message.content) {
+			if (part.type === "reasoning" || part.type === "redacted-reasoning") {
+				run.push(part);
+			} else {
+				flush();
+				content.push(part);
+			}
+		}
+		flush();
+
+		return { ...message, content };
+	});
+}
@@ -0,0 +1,77 @@
+import type { Attachment } from "ai";
+
+import type { ModelCapability, ModelDef } from "~/app/api/chat/models";
+
+/**
+ * Uploaded files are served from here, and messages reference them by this URL rather than
+ * carrying their content.
+ */
+export const ATTACHMENT_URL_PREFIX = "/api/attachments/";
+
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+/**
+ * How an attachment reaches the model: images and documents as files, which need the matching
+ * model capability, and text files inlined into the prompt, which every model can read.
+ */
+export type AttachmentKind = "image" | "document" | "text";
+
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+const DOCUMENT_TYPES = ["application/pdf"];
+const TEXT_TYPES = [
+	"application/json",
+	"application/xml",
+	"application/x-yaml",
+	"application/javascript",
+	"application/typescript",
+];
+
+export function getAttachmentKind(
+	contentType: string,
+): AttachmentKind | undefined {
+	const type = contentType.split(";")[0]?.trim().toLowerCase() ?? "";
+
+	if (IMAGE_TYPES.includes(type)) {
+		return "image";
+	}
+	if (DOCUMENT_TYPES.includes(type)) {
+		return "document";
+	}
+	if (type.startsWith("text/") || TEXT_TYPES.includes(type)) {
+		return "text";
+	}
+	return undefined;
+}
+
+/**
+ * The model capability an attachment kind requires, if any.
+ */
+export const attachmentCapabilities: Record<
+	AttachmentKind,
+	ModelCapability | undefined
+> = {
+	image: "vision",
+	document: "documents",
+	text: undefined,
+};
+
+export function canReadAttachment(def: ModelDef, kind: AttachmentKind) {
+	const capability = attachmentCapabilities[kind];
+	return !capability || def.capabilities[capability];
+}
+
+/**
+ * The id of an uploaded file, or `undefined` for attachments that live elsewhere.
+ */
+export function getAttachmentId(attachment: Attachment): string | undefined {
+	return attachment.url.startsWith(ATTACHMENT_URL_PREFIX)
+		? attachment.url.slice(ATTACHMENT_URL_PREFIX.length)
+		: undefined;
+}
+
+export const formatBytes = (bytes: number) =>
+	bytes >= 1024 * 1024
+		? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+		: bytes >= 1024
+			? `${Math.round(bytes / 1024)} KB`
+			: `${bytes} B`;
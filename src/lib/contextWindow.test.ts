@@ -0,0 +1,71 @@
+import type { UIMessage } from "ai";
+import { describe, expect, it } from "vitest";
+
+import {
+	type SizedAttachment,
+	compactMessages,
+	estimateMessageTokens,
+} from "./contextWindow";
+
+const message = (
+	id: string,
+	role: "user" | "assistant",
+	text: string,
+	attachments?: SizedAttachment[],
+): UIMessage => ({
+	id,
+	role,
+	content: text,
+	parts: [{ type: "text", text }],
+	experimental_attachments: attachments,
+});
+
+const log = (size?: number): SizedAttachment => ({
+	name: "server.log",
+	contentType: "text/plain",
+	url: "/api/attachments/file_log",
+	size,
+});
+
+describe("estimateMessageTokens", () => {
+	it("counts text files by their size", () => {
+		const withLog = message("1", "user", "", [log(8 * 1024 * 1024)]);
+		expect(estimateMessageTokens(withLog)).toBe(4 + 2 * 1024 * 1024);
+	});
+
+	it("falls back to a guess when the size isn't known", () => {
+		expect(estimateMessageTokens(message("1", "user", "", [log()]))).toBe(
+			4 + 3000,
+		);
+		const pdf = {
+			name: "paper.pdf",
+			contentType: "application/pdf",
+			url: "/api/attachments/file_pdf",
+			size: 8 * 1024 * 1024,
+		};
+		expect(estimateMessageTokens(message("1", "user", "", [pdf]))).toBe(
+			4 + 3000,
+		);
+	});
+});
+
+describe("compactMessages", () => {
+	it("drops an earlier message whose text file doesn't fit", () => {
+		const messages = [
+			message("1", "user", "What went wrong?", [log(4 * 1024 * 1024)]),
+			message("2", "assistant", "The disk filled up."),
+			message("3", "user", "How do I stop that?"),
+		];
+
+		const { messages: kept, compaction } = compactMessages(
+			messages,
+			100_000,
+			"drop-details",
+		);
+		expect(kept.map(({ id }) => id)).toEqual(["3"]);
+		expect(compaction).toMatchObject({
+			throughMessageId: "2",
+			droppedMessages: 2,
+		});
+	});
+});
@@ -0,0 +1,261 @@
+import type { Attachment, UIMessage } from "ai";
+
+import type { ModelDef } from "~/app/api/chat/models";
+import { getAttachmentKind } from "./attachments";
+import type { GenerationSettings } from "./generationSettings";
+
+/**
+ * What gives way when the history no longer fits the model's context window:
+ * - `drop-details`: reasoning and tool results of the oldest messages first, then whole messages
+ * - `drop-oldest`: whole messages, oldest first
+ * - `summarize`: the oldest messages, replaced by a summary of them
+ */
+export const contextStrategies = [
+	"drop-details",
+	"drop-oldest",
+	"summarize",
+] as const;
+
+export type ContextStrategy = (typeof contextStrategies)[number];
+
+export const DEFAULT_CONTEXT_STRATEGY: ContextStrategy = "drop-details";
+
+export const contextStrategyLabels: Record<ContextStrategy, string> = {
+	"drop-details": "Drop old reasoning and tool output first",
+	"drop-oldest": "Drop the oldest messages",
+	summarize: "Summarize the oldest messages",
+};
+
+// No tokenizer ships to the browser; English text and code average about four characters a token
+const CHARS_PER_TOKEN = 4;
+// Role markers and other framing of each message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Providers count images by size and PDFs by page; these are middle-of-the-road guesses
+const IMAGE_TOKENS = 1000;
+const DOCUMENT_TOKENS = 3000;
+// Estimates are rough, so only this share of the room is filled
+const SAFETY_MARGIN = 0.9;
+
+// What a tool result is replaced with when it is dropped
+export const OMITTED_TOOL_RESULT = "[Left out to fit the context window]";
+
+/**
+ * Where the history sent with an answer was compacted. `throughMessageId` is the last message the
+ * strategy dropped or changed; everything after it was sent as is.
+ */
+export type Compaction = {
+	strategy: ContextStrategy;
+	throughMessageId: string;
+	droppedMessages: number;
+	// Reasoning parts and tool results left out of the messages that were kept
+	droppedDetails: number;
+	// What the dropped messages were replaced with, for `summarize`
+	summary?: string;
+	estimatedTokens: { before: number; after: number; budget: number };
+};
+
+export type CompactionAnnotation = { compaction: Compaction };
+
+export const estimateTextTokens = (text: string) =>
+	Math.ceil(text.length / CHARS_PER_TOKEN);
+
+function estimatePartTokens(part: UIMessage["parts"][number]): number {
+	switch (part.type) {
+		case "text":
+			return estimateTextTokens(part.text);
+		case "reasoning":
+			return estimateTextTokens(part.reasoning);
+		case "tool-invocation":
+			return estimateTextTokens(JSON.stringify(part.toolInvocation));
+		case "source":
+			return estimateTextTokens(JSON.stringify(part.source));
+		case "file":
+			return part.mimeType.startsWith("image/")
+				? IMAGE_TOKENS
+				: DOCUMENT_TOKENS;
+		default:
+			return 0;
+	}
+}
+
+/**
+ * An attachment with the size of its file, as `resolveAttachments` leaves uploads. Text files are
+ * sent whole, so their size says what they take; only the browser's copies go without it.
+ */
+export type SizedAttachment = Attachment & { size?: number };
+
+function estimateAttachmentTokens(attachment: SizedAttachment): number {
+	const contentType = attachment.contentType ?? "";
+	if (contentType.startsWith("image/")) {
+		return IMAGE_TOKENS;
+	}
+	if (
+		attachment.size !== undefined &&
+		getAttachmentKind(contentType) === "text"
+	) {
+		return Math.ceil(attachment.size / CHARS_PER_TOKEN);
+	}
+	return DOCUMENT_TOKENS;
+}
+
+export function estimateMessageTokens(message: UIMessage): number {
+	const attachments = (message.experimental_attachments ?? []).map(
+		estimateAttachmentTokens,
+	);
+
+	return [...message.parts.map(estimatePartTokens), ...attachments].reduce(
+		(sum, tokens) => sum + tokens,
+		MESSAGE_OVERHEAD_TOKENS,
+	);
+}
+
+export const estimateTokens = (messages: UIMessage[]) =>
+	messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+
+/**
+ * Tokens the history may take in a request to `def`: the context window (or the conversation's
+ * lower limit) less the room kept for the answer and the system prompt.
+ */
+export function getContextBudget(
+	def: ModelDef,
+	settings: GenerationSettings,
+): number {
+	const window = Math.min(
+		settings.maxContextTokens ?? def.contextWindow,
+		def.contextWindow,
+	);
+	const answer = Math.min(
+		settings.maxOutputTokens ?? def.maxOutputTokens,
+		window / 2,
+	);
+	const system = estimateTextTokens(settings.systemPrompt ?? "");
+
+	return Math.max(0, Math.floor((window - answer - system) * SAFETY_MARGIN));
+}
+
+// Reasoning is left out and tool results replaced, keeping the calls and their order intact
+function dropDetails(message: UIMessage): {
+	message: UIMessage;
+	dropped: number;
+} {
+	let dropped = 0;
+	const parts = message.parts.flatMap((part): UIMessage["parts"] => {
+		if (part.type === "reasoning") {
+			dropped++;
+			return [];
+		}
+		if (
+			part.type === "tool-invocation" &&
+			part.toolInvocation.state === "result" &&
+			part.toolInvocation.result !== OMITTED_TOOL_RESULT
+		) {
+			dropped++;
+			return [
+				{
+					...part,
+					toolInvocation: {
+						...part.toolInvocation,
+						result: OMITTED_TOOL_RESULT,
+					},
+				},
+			];
+		}
+		return [part];
+	});
+
+	return { message: { ...message, parts }, dropped };
+}
+
+/**
+ * Fits `messages` into `budget` estimated tokens with one of the strategies that don't need a
+ * model. The last message, the one being answered, is always kept whole; the history is only cut
+ * before a user message, as providers expect it to start with one.
+ */
+export function compactMessages(
+	messages: UIMessage[],
+	budget: number,
+	strategy: Exclude<ContextStrategy, "summarize">,
+): { messages: UIMessage[]; compaction?: Compaction } {
+	const before = estimateTokens(messages);
+	if (before <= budget) {
+		return { messages };
+	}
+
+	const compacted = [...messages];
+	let tokens = before;
+	let through = -1;
+	// Per message, as messages may still be dropped after their details
+	const droppedDetails: number[] = [];
+
+	if (strategy === "drop-details") {
+		for (
+			let index = 0;
+			index < compacted.length - 1 && tokens > budget;
+			index++
+		) {
+			const message = compacted[index] as UIMessage;
+			const { message: stripped, dropped } = dropDetails(message);
+			if (dropped > 0) {
+				tokens +=
+					estimateMessageTokens(stripped) - estimateMessageTokens(message);
+				compacted[index] = stripped;
+				droppedDetails[index] = dropped;
+				through = index;
+			}
+		}
+	}
+
+	let start = 0;
+	const dropMessage = () => {
+		tokens -= estimateMessageTokens(compacted[start] as UIMessage);
+		start++;
+	};
+	while (start < compacted.length - 1 && tokens > budget) {
+		dropMessage();
+	}
+	while (
+		start > 0 &&
+		start < compacted.length - 1 &&
+		compacted[start]?.role !== "user"
+	) {
+		dropMessage();
+	}
+	through = Math.max(through, start - 1);
+
+	const throughMessage = compacted[through];
+	if (!throughMessage) {
+		return { messages };
+	}
+
+	return {
+		messages: compacted.slice(start),
+		compaction: {
+			strategy,
+			throughMessageId: throughMessage.id,
+			droppedMessages: start,
+			droppedDetails: droppedDetails
+				.slice(start)
+				.reduce((sum, dropped = 0) => sum + dropped, 0),
+			estimatedTokens: { before, after: tokens, budget },
+		},
+	};
+}
+
+function hasCompactionProperty(
+	annotation: unknown,
+): annotation is CompactionAnnotation {
+	return (
+		annotation !== null &&
+		typeof annotation === "object" &&
+		"compaction" in annotation &&
+		typeof (annotation as { compaction: unknown }).compaction === "object"
+	);
+}
+
+/**
+ * How the history was compacted for this answer, if it was.
+ */
+export function getCompaction(message: UIMessage): Compaction | undefined {
+	return (message.annotations ?? []).filter(hasCompactionProperty).at(-1)
+		?.compaction;
+}
@@ -0,0 +1,166 @@
+import type { UIMessage } from "ai";
+import { z } from "zod";
+
+import {
+	type GenerationSettings,
+	generationSettingsSchema,
+} from "./generationSettings";
+import type { MessageNode } from "./messageTree";
+import { getModelAnnotation } from "./messages";
+
+export const exportFormats = [
+	"markdown",
+	"json",
+	"openai-chat",
+	"openai-responses",
+	"anthropic",
+	"reasoning",
+] as const;
+
+export type ExportFormat = (typeof exportFormats)[number];
+
+export const CONVERSATION_EXPORT_FORMAT = "chatbot-next.conversation";
+
+/**
+ * An uploaded attachment carried inside an export, so the conversation can be imported elsewhere.
+ */
+export type ExportedFile = {
+	name: string;
+	contentType: string;
+	// Base64
+	data: string;
+};
+
+/**
+ * The lossless export: every branch of the conversation, each message exactly as stored (parts,
+ * reasoning details, tool invocations and annotations), and the files its messages attach, keyed
+ * by the URL the messages reference them by.
+ */
+export type ConversationExport = {
+	format: typeof CONVERSATION_EXPORT_FORMAT;
+	version: 1;
+	exportedAt: string;
+	conversation: {
+		name: string | null;
+		settings: GenerationSettings;
+		activeLeafId: string | null;
+	};
+	messages: MessageNode[];
+	files: Record<string, ExportedFile>;
+};
+
+// Messages are taken as they were exported; only the fields everything else relies on are checked
+const uiMessageSchema = z
+	.object({
+		id: z.string().min(1),
+		role: z.enum(["system", "user", "assistant", "data"]),
+		content: z.string(),
+		parts: z.array(z.object({ type: z.string() }).passthrough()),
+		createdAt: z.coerce.date().optional(),
+	})
+	.passthrough();
+
+export const conversationExportSchema = z.object({
+	format: z.literal(CONVERSATION_EXPORT_FORMAT),
+	version: z.literal(1),
+	exportedAt: z.string(),
+	conversation: z.object({
+		name: z.string().nullable(),
+		settings: generationSettingsSchema,
+		activeLeafId: z.string().nullable(),
+	}),
+	messages: z.array(
+		z.object({
+			message: uiMessageSchema.transform((message) => message as UIMessage),
+			parentId: z.string().nullable(),
+		}),
+	),
+	files: z.record(
+		z.object({ name: z.string(), contentType: z.string(), data: z.string() }),
+	),
+});
+
+const fence = (text: string, language = "") => {
+	// A fence longer than any backtick run inside, so the content can't close it
+	const longest = Math.max(
+		2,
+		...(text.match(/`+/g) ?? []).map((run) => run.length),
+	);
+	const marker = "`".repeat(longest + 1);
+	return `${marker}${language}\n${text}\n${marker}`;
+};
+
+const json = (value: unknown) => fence(JSON.stringify(value, null, 2), "json");
+
+function messageToMarkdown(message: UIMessage): string {
+	const model = getModelAnnotation(message);
+	const heading =
+		message.role === "user"
+			? "## You"
+			: message.role === "assistant"
+				? `## AI${model ? ` (${model})` : ""}`
+				: `## ${message.role}`;
+
+	const sections = [heading];
+
+	for (const attachment of message.experimental_attachments ?? []) {
+		const name = attachment.name ?? "attachment";
+		sections.push(
+			attachment.contentType?.startsWith("image/")
+				? `![${name}](${attachment.url})`
+				: `📎 [${name}](${attachment.url})`,
+		);
+	}
+
+	for (const part of message.parts) {
+		switch (part.type) {
+			case "text":
+				if (part.text) {
+					sections.push(part.text);
+				}
+				break;
+			case "reasoning":
+				sections.push(
+					`<details>\n<summary>Reasoning</summary>\n\n${part.reasoning}\n\n</details>`,
+				);
+				break;
+			case "tool-invocation": {
+				const { toolName, args } = part.toolInvocation;
+				const lines = [`**Tool call:** \`${toolName}\``, json(args)];
+				if (part.toolInvocation.state === "result") {
+					lines.push("**Result:**", json(part.toolInvocation.result));
+				}
+				sections.push(lines.join("\n\n"));
+				break;
+			}
+			case "source":
+				sections.push(
+					`Source: [${part.source.title ?? part.source.url}](${part.source.url})`,
+				);
+				break;
+			case "file":
+				sections.push(`📎 File (${part.mimeType})`);
+				break;
+		}
+	}
+
+	return sections.join("\n\n");
+}
+
+/**
+ * Renders a path through the conversation as Markdown, for pasting into a PR or a doc. Reasoning is
+ * folded into `<details>`, tool calls are shown with their arguments and results as JSON.
+ */
+export function toMarkdown(
+	name: string | null,
+	settings: GenerationSettings,
+	path: UIMessage[],
+): string {
+	const sections = [`# ${name ?? "Untitled chat"}`];
+	if (settings.systemPrompt) {
+		sections.push(`## System\n\n${settings.systemPrompt}`);
+	}
+	sections.push(...path.map(messageToMarkdown));
+
+	return `${sections.join("\n\n")}\n`;
+}
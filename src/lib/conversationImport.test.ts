@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+
+import { ImportError, parseImport } from "./conversationImport";
+import anthropic from "./fixtures/imports/anthropic.json";
+import openaiChat from "./fixtures/imports/openai-chat.json";
+import openaiResponses from "./fixtures/imports/openai-responses.json";
+
+const parse = (payload: unknown) => parseImport(JSON.stringify(payload));
+
+const calculatorResult = {
+	type: "tool-invocation",
+	toolInvocation: {
+		state: "result",
+		toolCallId: expect.any(String),
+		toolName: "calculator",
+		args: { expression: "6 * 7" },
+		result: { expression: "6 * 7", result: 42 },
+	},
+};
+
+describe("parseImport of provider message arrays", () => {
+	it("imports OpenAI chat completions messages", () => {
+		const imported = parse(openaiChat);
+
+		expect(imported.settings).toEqual({ systemPrompt: "Answer briefly." });
+		expect(imported.messages.map(({ message }) => message.role)).toEqual([
+			"user",
+			"assistant",
+			"user",
+			"assistant",
+		]);
+
+		const [prompt, answer, thanks, welcome] = imported.messages.map(
+			({ message }) => message,
+		);
+		expect(prompt?.content).toBe("What is 6 * 7?");
+		expect(prompt?.experimental_attachments).toEqual([
+			{
+				name: "image",
+				contentType: "image/png",
+				url: "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAA=",
+			},
+		]);
+		// The tool call, its result and the text after it are one answer
+		expect(answer?.parts).toEqual([
+			calculatorResult,
+			{ type: "step-start" },
+			{ type: "text", text: "6 * 7 is 42." },
+		]);
+		expect(answer?.annotations).toEqual([{ model: "openai:imported" }]);
+		expect(thanks?.content).toBe("Thanks!");
+		expect(welcome?.content).toBe("You're welcome.");
+	});
+
+	it("keeps the order as a single branch", () => {
+		const { messages, activeLeafId } = parse(openaiChat);
+
+		expect(messages.map(({ parentId }) => parentId)).toEqual([
+			null,
+			...messages.slice(0, -1).map(({ message }) => message.id),
+		]);
+		expect(activeLeafId).toBe(messages.at(-1)?.message.id);
+	});
+
+	it("imports OpenAI responses input items", () => {
+		const imported = parse(openaiResponses);
+
+		expect(imported.settings).toEqual({ systemPrompt: "Answer briefly." });
+		const [prompt, answer] = imported.messages.map(({ message }) => message);
+		expect(prompt?.content).toBe("What is 6 * 7?");
+		expect(answer?.annotations).toEqual([{ model: "openai:o3" }]);
+		expect(answer?.parts).toEqual([
+			{
+				type: "reasoning",
+				reasoning:
+					"**Multiplying**\n\nA quick product.\n\n**Checking**\n\nWith the calculator.",
+				details: [
+					{
+						type: "text",
+						text: "**Multiplying**\n\nA quick product.\n\n**Checking**\n\nWith the calculator.",
+					},
+				],
+			},
+			calculatorResult,
+			{ type: "step-start" },
+			{ type: "text", text: "6 * 7 is 42." },
+		]);
+	});
+
+	it("imports Anthropic messages with signed and redacted thinking", () => {
+		const imported = parse(anthropic);
+
+		expect(imported.settings).toEqual({ systemPrompt: "Answer briefly." });
+		expect(imported.messages).toHaveLength(2);
+		const [prompt, answer] = imported.messages.map(({ message }) => message);
+		expect(prompt?.experimental_attachments).toEqual([
+			{
+				name: "notes.txt",
+				contentType: "text/plain",
+				url: `data:text/plain;base64,${Buffer.from("6 * 7 = 42").toString("base64")}`,
+			},
+		]);
+		expect(answer?.annotations).toEqual([
+			{ model: "anthropic:claude-3-7-sonnet-20250219" },
+		]);
+		expect(answer?.parts).toEqual([
+			{
+				type: "reasoning",
+				reasoning: "The notes say 42; let me check.",
+				details: [
+					{
+						type: "text",
+						text: "The notes say 42; let me check.",
+						signature: "fixture-signature-1",
+					},
+				],
+			},
+			{
+				type: "reasoning",
+				reasoning: "",
+				details: [{ type: "redacted", data: "Zml4dHVyZS1yZWRhY3RlZA==" }],
+			},
+			calculatorResult,
+			{ type: "step-start" },
+			{ type: "text", text: "6 * 7 is 42." },
+		]);
+	});
+
+	it("takes the messages of a bare array or a request payload alike", () => {
+		const bare = parse(anthropic.messages);
+
+		expect(bare.messages.map(({ message }) => message.parts)).toEqual(
+			parse(anthropic).messages.map(({ message }) => message.parts),
+		);
+		// Without the payload's model, the provider is guessed from the blocks
+		expect(bare.messages[1]?.message.annotations).toEqual([
+			{ model: "anthropic:imported" },
+		]);
+	});
+
+	it("rejects what it can't read", () => {
+		expect(() => parseImport("not json")).toThrow(ImportError);
+		expect(() => parse({ hello: "world" })).toThrow(ImportError);
+		expect(() => parse([])).toThrow("The conversation has no messages");
+		expect(() =>
+			parse({ format: "chatbot-next.conversation", version: 2 }),
+		).toThrow("Invalid conversation export");
+	});
+});
@@ -0,0 +1,605 @@
+import type { Attachment, JSONValue, UIMessage } from "ai";
+import { z } from "zod";
+
+import type { Provider } from "~/app/api/chat/models";
+import type { ReasoningDetail } from "./CanonicalMessage";
+import {
+	CONVERSATION_EXPORT_FORMAT,
+	conversationExportSchema,
+} from "./conversationExport";
+import type { GenerationSettings } from "./generationSettings";
+import type { MessageNode } from "./messageTree";
+
+/**
+ * A conversation ready to be stored. Message ids are the ones from the source and still have to
+ * be made unique; attachments may be data URLs, which still have to be uploaded.
+ */
+export type ImportedConversation = {
+	name: string | null;
+	settings: GenerationSettings;
+	messages: MessageNode[];
+	activeLeafId: string | null;
+};
+
+export class ImportError extends Error {}
+
+// Content blocks of OpenAI chat completions, OpenAI responses and Anthropic messages. Their `type`s
+// don't overlap (apart from the identical `text`), so one union covers all three
+const contentBlockSchema = z.discriminatedUnion("type", [
+	z.object({ type: z.literal("text"), text: z.string() }),
+	z.object({ type: z.literal("input_text"), text: z.string() }),
+	z.object({ type: z.literal("output_text"), text: z.string() }),
+	z.object({ type: z.literal("refusal"), refusal: z.string() }),
+	z.object({
+		type: z.literal("image_url"),
+		image_url: z.object({ url: z.string() }),
+	}),
+	z.object({ type: z.literal("input_image"), image_url: z.string() }),
+	z.object({
+		type: z.literal("file"),
+		file: z.object({
+			filename: z.string().optional(),
+			file_data: z.string().optional(),
+		}),
+	}),
+	z.object({
+		type: z.literal("input_file"),
+		filename: z.string().optional(),
+		file_data: z.string().optional(),
+	}),
+	z.object({
+		type: z.enum(["image", "document"]),
+		title: z.string().nullish(),
+		source: z.discriminatedUnion("type", [
+			z.object({
+				type: z.literal("base64"),
+				media_type: z.string(),
+				data: z.string(),
+			}),
+			z.object({ type: z.literal("url"), url: z.string() }),
+			z.object({
+				type: z.literal("text"),
+				media_type: z.string().optional(),
+				data: z.string(),
+			}),
+		]),
+	}),
+	z.object({
+		type: z.literal("thinking"),
+		thinking: z.string(),
+		signature: z.string().optional(),
+	}),
+	z.object({ type: z.literal("redacted_thinking"), data: z.string() }),
+	z.object({
+		type: z.literal("tool_use"),
+		id: z.string(),
+		name: z.string(),
+		input: z.unknown(),
+	}),
+	z.object({
+		type: z.literal("tool_result"),
+		tool_use_id: z.string(),
+		content: z
+			.union([
+				z.string(),
+				z.array(z.object({ type: z.string(), text: z.string().optional() })),
+			])
+			.optional(),
+		is_error: z.boolean().optional(),
+	}),
+]);
+
+type ContentBlock = z.infer<typeof contentBlockSchema>;
+
+// Blocks we don't know (audio, server tools, …) are dropped rather than failing the import
+const contentSchema = z
+	.union([
+		z.string(),
+		z.array(
+			z.union([
+				contentBlockSchema,
+				z.object({ type: z.string() }).passthrough(),
+			]),
+		),
+	])
+	.nullish();
+
+const chatMessageSchema = z.object({
+	type: z.literal("message").optional(),
+	role: z.enum(["system", "developer", "user", "assistant", "tool"]),
+	content: contentSchema,
+	// OpenAI chat completions
+	tool_calls: z
+		.array(
+			z.object({
+				id: z.string(),
+				function: z.object({ name: z.string(), arguments: z.string() }),
+			}),
+		)
+		.optional(),
+	tool_call_id: z.string().optional(),
+});
+
+// Items of an OpenAI responses `input` that aren't messages
+const responseItemSchema = z.discriminatedUnion("type", [
+	z.object({
+		type: z.literal("function_call"),
+		call_id: z.string(),
+		name: z.string(),
+		arguments: z.string(),
+	}),
+	z.object({
+		type: z.literal("function_call_output"),
+		call_id: z.string(),
+		output: z.string(),
+	}),
+	z.object({
+		type: z.literal("reasoning"),
+		summary: z.array(z.object({ text: z.string() })).default([]),
+	}),
+]);
+
+const itemSchema = z.union([chatMessageSchema, responseItemSchema]);
+type Item = z.infer<typeof itemSchema>;
+
+const providerPayloadSchema = z.union([
+	z.array(itemSchema),
+	z.object({
+		model: z.string().optional(),
+		// Anthropic
+		system: z
+			.union([z.string(), z.array(z.object({ text: z.string() }))])
+			.optional(),
+		messages: z.array(itemSchema),
+	}),
+	z.object({
+		model: z.string().optional(),
+		// OpenAI responses
+		instructions: z.string().optional(),
+		input: z.array(itemSchema),
+	}),
+]);
+
+const ANTHROPIC_BLOCKS = new Set([
+	"image",
+	"document",
+	"thinking",
+	"redacted_thinking",
+	"tool_use",
+	"tool_result",
+]);
+
+const getBlocks = (item: Item): ContentBlock[] =>
+	"content" in item && Array.isArray(item.content)
+		? (item.content.filter(
+				(block) => contentBlockSchema.safeParse(block).success,
+			) as ContentBlock[])
+		: [];
+
+function guessProvider(items: Item[], model: string | undefined): Provider {
+	if (model) {
+		return model.startsWith("claude") ? "anthropic" : "openai";
+	}
+
+	const isAnthropic = items.some((item) =>
+		getBlocks(item).some((block) => ANTHROPIC_BLOCKS.has(block.type)),
+	);
+	return isAnthropic ? "anthropic" : "openai";
+}
+
+const parseArguments = (text: string): JSONValue => {
+	try {
+		return JSON.parse(text) as JSONValue;
+	} catch {
+		return text;
+	}
+};
+
+const dataUrl = (contentType: string, base64: string) =>
+	`data:${contentType};base64,${base64}`;
+
+function toAttachment(block: ContentBlock): Attachment | undefined {
+	switch (block.type) {
+		case "image_url":
+			return {
+				name: "image",
+				contentType: guessImageType(block.image_url.url),
+				url: block.image_url.url,
+			};
+		case "input_image":
+			return {
+				name: "image",
+				contentType: guessImageType(block.image_url),
+				url: block.image_url,
+			};
+		case "file":
+			return block.file.file_data
+				? fileAttachment(block.file.filename, block.file.file_data)
+				: undefined;
+		case "input_file":
+			return block.file_data
+				? fileAttachment(block.filename, block.file_data)
+				: undefined;
+		case "image":
+		case "document": {
+			const name = block.title ?? block.type;
+			switch (block.source.type) {
+				case "base64":
+					return {
+						name,
+						contentType: block.source.media_type,
+						url: dataUrl(block.source.media_type, block.source.data),
+					};
+				case "url":
+					return {
+						name,
+						contentType:
+							block.type === "image"
+								? guessImageType(block.source.url)
+								: "application/pdf",
+						url: block.source.url,
+					};
+				case "text":
+					return {
+						name,
+						contentType: "text/plain",
+						url: dataUrl(
+							"text/plain",
+							Buffer.from(block.source.data).toString("base64"),
+						),
+					};
+			}
+		}
+	}
+	return undefined;
+}
+
+function guessImageType(url: string): string {
+	const dataType = /^data:([^;,]+)/.exec(url)?.[1];
+	if (dataType) {
+		return dataType;
+	}
+	const extension = /\.(png|jpe?g|gif|webp)(?:$|\?)/i.exec(url)?.[1];
+	return `image/${extension?.toLowerCase().replace("jpg", "jpeg") ?? "png"}`;
+}
+
+function fileAttachment(
+	name: string | undefined,
+	fileData: string,
+): Attachment {
+	const contentType = /^data:([^;,]+)/.exec(fileData)?.[1] ?? "application/pdf";
+	return {
+		name: name ?? "file",
+		contentType,
+		url: fileData.startsWith("data:")
+			? fileData
+			: dataUrl(contentType, fileData),
+	};
+}
+
+const toolResultText = (
+	content: Extract<ContentBlock, { type: "tool_result" }>["content"],
+) =>
+	typeof content === "string"
+		? content
+		: (content ?? []).map((block) => block.text ?? "").join("\n");
+
+/**
+ * Converts a provider's message array into messages: OpenAI chat completions messages, OpenAI
+ * responses input items, or Anthropic messages, either bare or as the request payload that holds
+ * them. System prompts become the conversation's system prompt, and the assistant turns of one
+ * answer (tool calls, their results and the text after them) are merged into one message, as the
+ * chat shows them.
+ */
+function fromProviderMessages(payload: unknown): ImportedConversation {
+	const parsed = providerPayloadSchema.safeParse(payload);
+	if (!parsed.success) {
+		throw new ImportError(
+			"Expected an exported conversation, or an OpenAI or Anthropic message array",
+		);
+	}
+
+	const data = parsed.data;
+	const items = Array.isArray(data)
+		? data
+		: "messages" in data
+			? data.messages
+			: data.input;
+	const model = Array.isArray(data) ? undefined : data.model;
+	const provider = guessProvider(items, model);
+
+	const systemPrompts: string[] = [];
+	if (!Array.isArray(data)) {
+		if ("system" in data && data.system) {
+			systemPrompts.push(
+				typeof data.system === "string"
+					? data.system
+					: data.system.map((block) => block.text).join("\n"),
+			);
+		}
+		if ("instructions" in data && data.instructions) {
+			systemPrompts.push(data.instructions);
+		}
+	}
+
+	const messages: UIMessage[] = [];
+	const start = Date.now();
+
+	const newMessage = (role: "user" | "assistant"): UIMessage => {
+		const message: UIMessage = {
+			id: `imported-${messages.length}`,
+			role,
+			content: "",
+			parts: [],
+			// Keeps the order when stored
+			createdAt: new Date(start + messages.length),
+			...(role === "assistant"
+				? {
+						annotations: [
+							{
+								model: model ? `${provider}:${model}` : `${provider}:imported`,
+							},
+						],
+					}
+				: {}),
+		};
+		messages.push(message);
+		return message;
+	};
+
+	// Tool results continue the answer that made the calls, in a new step
+	let continueAnswer = false;
+	const assistant = (): UIMessage => {
+		const last = messages.at(-1);
+		if (last?.role === "assistant") {
+			if (continueAnswer) {
+				last.parts.push({ type: "step-start" });
+				continueAnswer = false;
+			}
+			return last;
+		}
+		continueAnswer = false;
+		return newMessage("assistant");
+	};
+
+	const setToolResult = (toolCallId: string, result: unknown) => {
+		for (const message of messages) {
+			for (const part of message.parts) {
+				if (
+					part.type === "tool-invocation" &&
+					part.toolInvocation.toolCallId === toolCallId
+				) {
+					part.toolInvocation = {
+						...part.toolInvocation,
+						state: "result",
+						result,
+					};
+					continueAnswer = true;
+					return;
+				}
+			}
+		}
+	};
+
+	const addReasoning = (text: string, details: ReasoningDetail[]) =>
+		assistant().parts.push({ type: "reasoning", reasoning: text, details });
+
+	for (const item of items) {
+		if (item.type === "function_call") {
+			assistant().parts.push({
+				type: "tool-invocation",
+				toolInvocation: {
+					state: "call",
+					toolCallId: item.call_id,
+					toolName: item.name,
+					args: parseArguments(item.arguments),
+				},
+			});
+			continue;
+		}
+		if (item.type === "function_call_output") {
+			setToolResult(item.call_id, parseArguments(item.output));
+			continue;
+		}
+		if (item.type === "reasoning") {
+			const text = item.summary.map((summary) => summary.text).join("\n\n");
+			addReasoning(text, text ? [{ type: "text", text }] : []);
+			continue;
+		}
+
+		const text = typeof item.content === "string" ? item.content : undefined;
+		const blocks = getBlocks(item);
+
+		switch (item.role) {
+			case "system":
+			case "developer":
+				systemPrompts.push(
+					text ??
+						blocks
+							.map((block) => ("text" in block ? block.text : ""))
+							.join("\n"),
+				);
+				break;
+
+			case "tool":
+				if (item.tool_call_id) {
+					setToolResult(
+						item.tool_call_id,
+						parseArguments(
+							text ??
+								blocks
+									.map((block) => ("text" in block ? block.text : ""))
+									.join("\n"),
+						),
+					);
+				}
+				break;
+
+			case "user": {
+				// Anthropic returns tool results in user messages
+				for (const block of blocks) {
+					if (block.type === "tool_result") {
+						const output = toolResultText(block.content);
+						setToolResult(
+							block.tool_use_id,
+							block.is_error ? { error: output } : parseArguments(output),
+						);
+					}
+				}
+
+				const texts = text !== undefined ? [text] : [];
+				const attachments: Attachment[] = [];
+				for (const block of blocks) {
+					if (block.type === "text" || block.type === "input_text") {
+						texts.push(block.text);
+					}
+					const attachment = toAttachment(block);
+					if (attachment) {
+						attachments.push(attachment);
+					}
+				}
+				if (texts.length === 0 && attachments.length === 0) {
+					break;
+				}
+
+				const message = newMessage("user");
+				message.parts = texts.map((text) => ({ type: "text", text }));
+				if (attachments.length > 0) {
+					message.experimental_attachments = attachments;
+				}
+				break;
+			}
+
+			case "assistant": {
+				const message = assistant();
+				if (text) {
+					message.parts.push({ type: "text", text });
+				}
+				for (const block of blocks) {
+					switch (block.type) {
+						case "text":
+						case "output_text":
+							message.parts.push({ type: "text", text: block.text });
+							break;
+						case "refusal":
+							message.parts.push({ type: "text", text: block.refusal });
+							break;
+						case "thinking":
+							addReasoning(block.thinking, [
+								{
+									type: "text",
+									text: block.thinking,
+									signature: block.signature,
+								},
+							]);
+							break;
+						case "redacted_thinking":
+							addReasoning("", [{ type: "redacted", data: block.data }]);
+							break;
+						case "tool_use":
+							message.parts.push({
+								type: "tool-invocation",
+								toolInvocation: {
+									state: "call",
+									toolCallId: block.id,
+									toolName: block.name,
+									args: block.input,
+								},
+							});
+							break;
+					}
+				}
+				for (const call of item.tool_calls ?? []) {
+					message.parts.push({
+						type: "tool-invocation",
+						toolInvocation: {
+							state: "call",
+							toolCallId: call.id,
+							toolName: call.function.name,
+							args: parseArguments(call.function.arguments),
+						},
+					});
+				}
+				break;
+			}
+		}
+	}
+
+	if (messages.length === 0) {
+		throw new ImportError("The conversation has no messages");
+	}
+
+	for (const message of messages) {
+		message.content = message.parts
+			.filter((part) => part.type === "text")
+			.map((part) => part.text)
+			.join("\n");
+	}
+
+	const systemPrompt = systemPrompts.filter(Boolean).join("\n\n");
+
+	return {
+		name: null,
+		settings: systemPrompt ? { systemPrompt } : {},
+		messages: messages.map((message, index) => ({
+			message,
+			parentId: messages[index - 1]?.id ?? null,
+		})),
+		activeLeafId: messages.at(-1)?.id ?? null,
+	};
+}
+
+/**
+ * Parses an import: our own JSON export, whose messages are taken over as they are, or a provider's
+ * message array (see `fromProviderMessages`). Attachments carried in an export are inlined as data
+ * URLs.
+ */
+export function parseImport(text: string): ImportedConversation {
+	let payload: unknown;
+	try {
+		payload = JSON.parse(text);
+	} catch {
+		throw new ImportError("The file is not valid JSON");
+	}
+
+	const isExport =
+		payload !== null &&
+		typeof payload === "object" &&
+		"format" in payload &&
+		payload.format === CONVERSATION_EXPORT_FORMAT;
+	if (!isExport) {
+		return fromProviderMessages(payload);
+	}
+
+	const parsed = conversationExportSchema.safeParse(payload);
+	if (!parsed.success) {
+		const issues = parsed.error.issues
+			.slice(0, 3)
+			.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+			.join("; ");
+		throw new ImportError(`Invalid conversation export: ${issues}`);
+	}
+
+	const { conversation, messages, files } = parsed.data;
+	return {
+		name: conversation.name,
+		settings: conversation.settings,
+		activeLeafId: conversation.activeLeafId,
+		messages: messages.map(({ message, parentId }) => {
+			if (!message.experimental_attachments) {
+				return { message, parentId };
+			}
+
+			const attachments = message.experimental_attachments.map((attachment) => {
+				const file = files[attachment.url];
+				return file
+					? { ...attachment, url: dataUrl(file.contentType, file.data) }
+					: attachment;
+			});
+			return {
+				message: { ...message, experimental_attachments: attachments },
+				parentId,
+			};
+		}),
+	};
+}
@@ -0,0 +1,219 @@
+import type { ProviderMetadata } from "ai";
+import { z } from "zod";
+
+import type { ModelDef } from "~/app/api/chat/models";
+import { contextStrategies } from "./contextWindow";
+import type { JsonSchema } from "./structuredOutput";
+
+export const DEFAULT_MAX_STEPS = 10;
+
+/**
+ * Per-conversation generation settings. Every field is optional; unset fields fall back to the
+ * model's defaults from the catalog.
+ */
+export const generationSettingsSchema = z.object({
+	systemPrompt: z.string().max(20000).optional(),
+	temperature: z.number().min(0).max(2).optional(),
+	topP: z.number().min(0).max(1).optional(),
+	maxOutputTokens: z.number().int().positive().optional(),
+	// OpenAI reasoning models
+	reasoningEffort: z.enum(["low", "medium", "high"]).optional(),
+	// Anthropic extended thinking
+	thinkingBudget: z.number().int().min(1024).optional(),
+	maxSteps: z.number().int().min(1).max(25).optional(),
+	// Names of the enabled tools; unset means the registry's defaults
+	tools: z.array(z.string()).optional(),
+	// Answers draw on the user's knowledge base: the passages closest to the prompt go along, to be cited
+	knowledgeBase: z.boolean().optional(),
+	// How the history is shortened when it outgrows the context, see `~/lib/contextWindow`
+	contextStrategy: z.enum(contextStrategies).optional(),
+	// Keeps requests below the model's context window, e.g. to spend less on long chats
+	maxContextTokens: z.number().int().min(1000).optional(),
+	// JSON Schema the answer has to match; turns on structured output, see `~/lib/structuredOutput`.
+	// Providers want an object at the top
+	outputSchema: z
+		.custom<JsonSchema>(
+			(value) =>
+				value !== null &&
+				typeof value === "object" &&
+				!Array.isArray(value) &&
+				JSON.stringify(value).length <= 20000,
+			{
+				message: "The schema must be a JSON object of at most 20000 characters",
+			},
+		)
+		.refine((schema) => schema.type === "object", {
+			message: 'The schema must describe an object ("type": "object")',
+		})
+		.optional(),
+});
+
+export type GenerationSettings = z.infer<typeof generationSettingsSchema>;
+
+/**
+ * Which reasoning knob a model exposes, if any.
+ */
+export function getReasoningControl(
+	def: ModelDef,
+): "effort" | "budget" | undefined {
+	if (!def.capabilities.reasoning) {
+		return undefined;
+	}
+
+	switch (def.provider) {
+		case "openai":
+			return "effort";
+		case "anthropic":
+			return "budget";
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * The settings schema narrowed to what `def` supports, so e.g. a thinking budget can't be sent to
+ * a model without extended thinking.
+ */
+export function settingsSchemaFor(def: ModelDef) {
+	return generationSettingsSchema.superRefine((settings, ctx) => {
+		const reasoningControl = getReasoningControl(def);
+
+		if (
+			settings.maxOutputTokens !== undefined &&
+			settings.maxOutputTokens > def.maxOutputTokens
+		) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.too_big,
+				path: ["maxOutputTokens"],
+				type: "number",
+				maximum: def.maxOutputTokens,
+				inclusive: true,
+				message: `${def.displayName} produces at most ${def.maxOutputTokens} output tokens`,
+			});
+		}
+
+		if (
+			settings.maxContextTokens !== undefined &&
+			settings.maxContextTokens > def.contextWindow
+		) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.too_big,
+				path: ["maxContextTokens"],
+				type: "number",
+				maximum: def.contextWindow,
+				inclusive: true,
+				message: `${def.displayName} reads at most ${def.contextWindow} tokens`,
+			});
+		}
+
+		// Reasoning models fix their own sampling parameters
+		for (const key of ["temperature", "topP"] as const) {
+			if (def.capabilities.reasoning && settings[key] !== undefined) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: [key],
+					message: `${def.displayName} doesn't support ${key}`,
+				});
+			}
+		}
+
+		if (
+			settings.reasoningEffort !== undefined &&
+			reasoningControl !== "effort"
+		) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["reasoningEffort"],
+				message: `${def.displayName} doesn't support a reasoning effort`,
+			});
+		}
+
+		if (settings.thinkingBudget !== undefined) {
+			if (reasoningControl !== "budget") {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: ["thinkingBudget"],
+					message: `${def.displayName} doesn't support a thinking budget`,
+				});
+			} else if (
+				settings.thinkingBudget >=
+				(settings.maxOutputTokens ?? def.maxOutputTokens)
+			) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: ["thinkingBudget"],
+					message: "The thinking budget must be below the max output tokens",
+				});
+			}
+		}
+
+		if (
+			settings.outputSchema !== undefined &&
+			!def.capabilities.structuredOutput
+		) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["outputSchema"],
+				message: `${def.displayName} doesn't support structured output`,
+			});
+		}
+
+		if (
+			settings.maxSteps !== undefined &&
+			settings.maxSteps > 1 &&
+			!def.capabilities.tools
+		) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["maxSteps"],
+				message: `${def.displayName} doesn't support tools, so it only takes one step`,
+			});
+		}
+	});
+}
+
+/**
+ * The settings without the ones `def` doesn't support, for sending a conversation's settings to a
+ * model other than the one they were chosen for.
+ */
+export function supportedSettings(
+	def: ModelDef,
+	settings: GenerationSettings,
+): GenerationSettings {
+	const parsed = settingsSchemaFor(def).safeParse(settings);
+	const unsupported = new Set(
+		parsed.error?.issues.map((issue) => issue.path[0]),
+	);
+
+	return Object.fromEntries(
+		Object.entries(settings).filter(([key]) => !unsupported.has(key)),
+	);
+}
+
+/**
+ * Merges the reasoning settings into the model's default provider options.
+ */
+export function getProviderOptions(
+	def: ModelDef,
+	settings: GenerationSettings,
+): ProviderMetadata {
+	const options: ProviderMetadata[string] = { ...def.providerOptions };
+
+	switch (getReasoningControl(def)) {
+		case "effort":
+			if (settings.reasoningEffort) {
+				options.reasoningEffort = settings.reasoningEffort;
+			}
+			break;
+		case "budget":
+			if (settings.thinkingBudget) {
+				options.thinking = {
+					type: "enabled",
+					budgetTokens: settings.thinkingBudget,
+				};
+			}
+			break;
+	}
+
+	return { [def.provider]: options };
+}
@@ -0,0 +1,257 @@
+import type { UIMessage } from "ai";
+
+import { estimateTextTokens } from "./contextWindow";
+
+// Chunks are small enough that a handful fit in a request next to the conversation
+const MAX_CHUNK_TOKENS = 400;
+// A chunk cut for size starts with the end of the one before, if that's short, so a passage that
+// straddles the cut is still found whole in one of them
+const OVERLAP_TOKENS = 80;
+
+export const MAX_KNOWLEDGE_FILE_BYTES = 10 * 1024 * 1024;
+
+// Where the files of the knowledge directories are served, by document id. Uploads are served as
+// attachments
+export const KNOWLEDGE_URL_PREFIX = "/api/knowledge/";
+
+/**
+ * The size of the stored vectors. Every embedder produces vectors of this size, so switching
+ * embedders only takes embedding the chunks again, not a schema change.
+ */
+export const EMBEDDING_DIMENSIONS = 512;
+
+/**
+ * The files the knowledge base takes: Markdown is chunked along its headings, plain text and the
+ * text of PDFs along paragraphs.
+ */
+export type KnowledgeFileType = "markdown" | "text" | "pdf";
+
+export const KNOWLEDGE_FILE_EXTENSIONS = [".md", ".markdown", ".txt", ".pdf"];
+
+/**
+ * The type of a file by its content type, or by its extension, as browsers send none for
+ * Markdown.
+ */
+export function getKnowledgeFileType(
+	name: string,
+	contentType: string,
+): KnowledgeFileType | undefined {
+	const type = contentType.split(";")[0]?.trim().toLowerCase() ?? "";
+	const extension = name.toLowerCase().match(/\.[a-z]+$/)?.[0] ?? "";
+
+	if (type === "text/markdown" || [".md", ".markdown"].includes(extension)) {
+		return "markdown";
+	}
+	if (type === "application/pdf" || extension === ".pdf") {
+		return "pdf";
+	}
+	if (type === "text/plain" || extension === ".txt") {
+		return "text";
+	}
+	return undefined;
+}
+
+export type Chunk = {
+	// The headings the chunk starts under, e.g. `Architecture › Storage`
+	heading: string | null;
+	content: string;
+};
+
+type Block = { heading: string | null; text: string; section: boolean };
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+// Paragraphs, each code block whole, with the headings they appear under. `section` marks the
+// first block under a top or second level heading, where a new chunk starts
+function splitBlocks(text: string, markdown: boolean): Block[] {
+	const blocks: Block[] = [];
+	const headings: string[] = [];
+	let lines: string[] = [];
+	let fence: string | undefined;
+	let section = false;
+
+	const flush = () => {
+		const text = lines.join("\n").trim();
+		if (text) {
+			blocks.push({
+				heading: headings.filter(Boolean).join(" › ") || null,
+				text,
+				section,
+			});
+			section = false;
+		}
+		lines = [];
+	};
+
+	for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+		const fenceMatch = markdown ? FENCE.exec(line) : null;
+		if (fence) {
+			lines.push(line);
+			if (fenceMatch?.[1] === fence) {
+				fence = undefined;
+				flush();
+			}
+			continue;
+		}
+		if (fenceMatch) {
+			flush();
+			fence = fenceMatch[1];
+			lines.push(line);
+			continue;
+		}
+
+		const heading = markdown ? HEADING.exec(line) : null;
+		if (heading?.[1] && heading[2]) {
+			flush();
+			const level = heading[1].length;
+			// Levels skipped, e.g. `#` then `###`, leave gaps, dropped when joined
+			headings.length = level - 1;
+			headings[level - 1] = heading[2];
+			section ||= level <= 2;
+			continue;
+		}
+
+		if (line.trim() === "") {
+			flush();
+		} else {
+			lines.push(line);
+		}
+	}
+	flush();
+
+	return blocks;
+}
+
+// A block too long for one chunk, in pieces that fit: by sentence or line, cut hard if one alone
+// is still too long
+function splitLong(text: string): string[] {
+	const maxChars = Math.floor(
+		(MAX_CHUNK_TOKENS * text.length) / estimateTextTokens(text),
+	);
+	const pieces: string[] = [];
+	let current = "";
+
+	for (const sentence of text.match(/[^\n.!?]+(?:[.!?]+|\n|$)\s*/g) ?? [text]) {
+		if (current && current.length + sentence.length > maxChars) {
+			pieces.push(current.trim());
+			current = "";
+		}
+		current += sentence;
+		while (current.length > maxChars) {
+			pieces.push(current.slice(0, maxChars).trim());
+			current = current.slice(maxChars);
+		}
+	}
+	if (current.trim()) {
+		pieces.push(current.trim());
+	}
+
+	return pieces;
+}
+
+/**
+ * Splits a document into chunks of a few hundred tokens for embedding. Paragraphs and code blocks
+ * are kept whole where they fit, and Markdown sections start a new chunk.
+ */
+export function chunkDocument(text: string, type: KnowledgeFileType): Chunk[] {
+	const chunks: Chunk[] = [];
+	let current: Block[] = [];
+	let tokens = 0;
+
+	const flush = () => {
+		const [first] = current;
+		if (first) {
+			chunks.push({
+				heading: first.heading,
+				content: current.map((block) => block.text).join("\n\n"),
+			});
+		}
+	};
+
+	for (const block of splitBlocks(text, type === "markdown")) {
+		const pieces =
+			estimateTextTokens(block.text) > MAX_CHUNK_TOKENS
+				? splitLong(block.text).map((text) => ({ ...block, text }))
+				: [block];
+
+		for (const piece of pieces) {
+			const pieceTokens = estimateTextTokens(piece.text);
+			if (piece.section || tokens + pieceTokens > MAX_CHUNK_TOKENS) {
+				flush();
+				const last = current.at(-1);
+				const overlap =
+					!piece.section &&
+					last &&
+					current.length > 1 &&
+					estimateTextTokens(last.text) <= OVERLAP_TOKENS &&
+					estimateTextTokens(last.text) + pieceTokens <= MAX_CHUNK_TOKENS
+						? [last]
+						: [];
+				current = overlap;
+				tokens = overlap.reduce(
+					(sum, block) => sum + estimateTextTokens(block.text),
+					0,
+				);
+			}
+			current.push(piece);
+			tokens += pieceTokens;
+		}
+	}
+	flush();
+
+	return chunks;
+}
+
+/**
+ * A passage from the knowledge base an answer was given with, cited in it as `[number]`.
+ */
+export type KnowledgeSource = {
+	number: number;
+	documentId: string;
+	documentName: string;
+	heading: string | null;
+	content: string;
+	// Where the whole document can be opened; answers from before shared documents were served
+	// have none for theirs
+	url: string | null;
+	// Cosine similarity to the prompt
+	score: number;
+};
+
+/**
+ * The passages an answer was given with, on the answer.
+ */
+export type KnowledgeAnnotation = { knowledge: KnowledgeSource[] };
+
+/**
+ * The instructions and passages added to the system prompt for an answer from the knowledge base.
+ */
+export const knowledgePrompt = (sources: KnowledgeSource[]) =>
+	[
+		"Passages from the user's knowledge base that may help with the answer follow. Base the answer on them where they are relevant, cite the ones used by their number, e.g. [2], and say so when they don't cover the question.",
+		...sources.map(
+			(source) =>
+				`[${source.number}] ${[source.documentName, source.heading].filter(Boolean).join(" › ")}\n${source.content}`,
+		),
+	].join("\n\n");
+
+function hasKnowledgeProperty(
+	annotation: unknown,
+): annotation is KnowledgeAnnotation {
+	return (
+		annotation !== null &&
+		typeof annotation === "object" &&
+		"knowledge" in annotation &&
+		Array.isArray((annotation as { knowledge: unknown }).knowledge)
+	);
+}
+
+/**
+ * The passages the answer cites from, if it was given from the knowledge base.
+ */
+export function getKnowledgeSources(message: UIMessage): KnowledgeSource[] {
+	return (
+		(message.annotations ?? []).find(hasKnowledgeProperty)?.knowledge ?? []
+	);
+}
@@ -0,0 +1,88 @@
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+const isMathDelimiter = (line: string) => line.trim() === "$$";
+
+/**
+ * Rewrites the LaTeX delimiters models like to use, `\(…\)` and `\[…\]`, into the `$$` that
+ * remark-math understands. Single dollars are left alone: they are far more often prices than math.
+ */
+export function normalizeMathDelimiters(block: string): string {
+	if (FENCE.test(block)) {
+		return block;
+	}
+
+	return block
+		.replace(
+			/\\\[([\s\S]*?)\\\]/g,
+			(_, math: string) => `\n$$\n${math.trim()}\n$$\n`,
+		)
+		.replace(/\\\(([\s\S]*?)\\\)/g, (_, math: string) => `$$${math.trim()}$$`);
+}
+
+/**
+ * Splits Markdown into top-level blocks at blank lines, but never inside a code fence or a `$$`
+ * math block, so a streamed answer only re-renders the block that is still growing.
+ *
+ * The text may stop anywhere mid-stream: a code fence or math block left open at the end is
+ * closed, so it renders as code or math straight away instead of flashing as plain text.
+ */
+export function splitMarkdownBlocks(text: string): string[] {
+	const blocks: string[] = [];
+	let current: string[] = [];
+	// The opening marker while inside a code fence
+	let fence: string | undefined;
+	let inMath = false;
+
+	const endBlock = () => {
+		if (current.length === 0) {
+			return;
+		}
+
+		const block = current.join("\n");
+		// Indented lines continue the previous block (list items, indented code)
+		if (/^\s/.test(block) && blocks.length > 0) {
+			blocks[blocks.length - 1] += `\n\n${block}`;
+		} else {
+			blocks.push(block);
+		}
+		current = [];
+	};
+
+	for (const line of text.split("\n")) {
+		const fenceMatch = FENCE.exec(line)?.[1];
+
+		if (fence) {
+			if (
+				fenceMatch !== undefined &&
+				fenceMatch[0] === fence[0] &&
+				fenceMatch.length >= fence.length &&
+				line.trim() === fenceMatch
+			) {
+				fence = undefined;
+			}
+		} else if (inMath) {
+			inMath = !isMathDelimiter(line);
+		} else if (fenceMatch) {
+			fence = fenceMatch;
+		} else if (isMathDelimiter(line)) {
+			inMath = true;
+		} else if (line.trim() === "") {
+			endBlock();
+			continue;
+		}
+
+		current.push(line);
+	}
+
+	if ((fence || inMath) && current.at(-1) === "") {
+		current.pop();
+	}
+	if (fence) {
+		current.push(fence);
+	} else if (inMath) {
+		current.push("$$");
+	}
+	endBlock();
+
+	return blocks;
+}
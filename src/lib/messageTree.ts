@@ -0,0 +1,93 @@
+import type { UIMessage } from "ai";
+
+/**
+ * A message together with the message it answers or follows. Editing a user message or
+ * regenerating an answer adds a sibling under the same parent instead of replacing it, so a
+ * conversation is a tree and the chat shows one path through it.
+ */
+export type MessageNode = {
+	message: UIMessage;
+	parentId: string | null;
+};
+
+export type MessageTree = Record<string, MessageNode>;
+
+const timestamp = (message: UIMessage) =>
+	message.createdAt ? new Date(message.createdAt).getTime() : 0;
+
+export function buildTree(nodes: MessageNode[]): MessageTree {
+	return Object.fromEntries(nodes.map((node) => [node.message.id, node]));
+}
+
+/**
+ * Records a path (as held by `useChat`) in the tree: every message's parent is the message before
+ * it. Messages already in the tree are updated in place.
+ */
+export function mergePath(tree: MessageTree, path: UIMessage[]): MessageTree {
+	const merged = { ...tree };
+
+	path.forEach((message, index) => {
+		merged[message.id] = {
+			message,
+			parentId: path[index - 1]?.id ?? null,
+		};
+	});
+
+	return merged;
+}
+
+/**
+ * Children of a message (or the roots, for `null`) in the order they were created.
+ */
+export function getChildren(
+	tree: MessageTree,
+	parentId: string | null,
+): MessageNode[] {
+	return Object.values(tree)
+		.filter((node) => node.parentId === parentId)
+		.sort((a, b) => timestamp(a.message) - timestamp(b.message));
+}
+
+/**
+ * The message itself and its alternatives, in creation order.
+ */
+export function getSiblings(tree: MessageTree, id: string): MessageNode[] {
+	const node = tree[id];
+
+	return node ? getChildren(tree, node.parentId) : [];
+}
+
+/**
+ * Follows the most recent child from `id` down to a leaf.
+ */
+export function getLatestLeaf(
+	tree: MessageTree,
+	id: string | null,
+): string | null {
+	let current = id;
+
+	for (;;) {
+		const latest = getChildren(tree, current).at(-1);
+		if (!latest) {
+			return current;
+		}
+		current = latest.message.id;
+	}
+}
+
+/**
+ * The messages from the root down to `leafId`, i.e. what gets shown and sent to `/api/chat`.
+ */
+export function getPath(tree: MessageTree, leafId: string | null): UIMessage[] {
+	const path: UIMessage[] = [];
+	const seen = new Set<string>();
+
+	let node = leafId ? tree[leafId] : undefined;
+	while (node && !seen.has(node.message.id)) {
+		seen.add(node.message.id);
+		path.unshift(node.message);
+		node = node.parentId ? tree[node.parentId] : undefined;
+	}
+
+	return path;
+}
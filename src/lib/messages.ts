@@ -0,0 +1,31 @@
+import type { UIMessage } from "ai";
+
+// Helper function to check if an annotation has a model property
+export function hasModelProperty(
+	annotation: unknown,
+): annotation is { model: string } {
+	return (
+		annotation !== null &&
+		typeof annotation === "object" &&
+		"model" in annotation &&
+		typeof (annotation as { model: unknown }).model === "string"
+	);
+}
+
+/**
+ * Returns the `provider:modelClass` string that `route.ts` annotated an assistant message with, if
+ * any.
+ */
+export function getModelAnnotation(message: UIMessage): string | undefined {
+	return (message.annotations ?? []).find(hasModelProperty)?.model;
+}
+
+/**
+ * Flattens the text parts of a message into a single string, for previews and search.
+ */
+export function getMessageText(message: UIMessage): string {
+	return message.parts
+		.filter((part) => part.type === "text")
+		.map((part) => part.text)
+		.join("\n");
+}
@@ -0,0 +1,73 @@
+import type { UIMessage } from "ai";
+
+import type { GenerationSettings } from "./generationSettings";
+
+// `{{name}}`, spaces inside the braces allowed
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+export const MAX_TEMPLATE_LENGTH = 20_000;
+
+/**
+ * A version of a template, as listed in the library.
+ */
+export type PromptTemplate = {
+	id: string;
+	name: string;
+	description: string | null;
+	shared: boolean;
+	// Whether the signed in user may edit it
+	owned: boolean;
+	version: number;
+	body: string;
+	model: string | null;
+	settings: GenerationSettings | null;
+};
+
+/**
+ * The template a prompt was written from, on the user message. The version pins the exact text,
+ * as the template may have been edited since.
+ */
+export type TemplateAnnotation = {
+	template: { id: string; name: string; version: number };
+};
+
+/**
+ * The variables of a template, each once, in the order they first appear.
+ */
+export function getTemplateVariables(body: string): string[] {
+	return [
+		...new Set(Array.from(body.matchAll(VARIABLE_PATTERN), ([, name]) => name)),
+	].filter((name): name is string => name !== undefined);
+}
+
+/**
+ * Fills the variables in. Variables without a value are left as they are, for the user to see.
+ */
+export const renderTemplate = (
+	body: string,
+	values: Record<string, string>,
+): string =>
+	body.replace(
+		VARIABLE_PATTERN,
+		(placeholder, name: string) => values[name] ?? placeholder,
+	);
+
+function hasTemplateProperty(
+	annotation: unknown,
+): annotation is TemplateAnnotation {
+	return (
+		annotation !== null &&
+		typeof annotation === "object" &&
+		"template" in annotation &&
+		typeof (annotation as { template: unknown }).template === "object"
+	);
+}
+
+/**
+ * The template the prompt was written from, if it was.
+ */
+export function getTemplateAnnotation(
+	message: UIMessage,
+): TemplateAnnotation["template"] | undefined {
+	return (message.annotations ?? []).find(hasTemplateProperty)?.template;
+}
@@ -0,0 +1,83 @@
+import { formatCost } from "./usage";
+
+/**
+ * What a limit counts, each over its own fixed window: requests per minute, tokens (prompt and
+ * completion, reasoning included) per UTC day, and cost in USD per UTC month.
+ */
+export const limitMetrics = ["requests", "tokens", "cost"] as const;
+export type LimitMetric = (typeof limitMetrics)[number];
+
+/**
+ * The body of the 429 `route.ts` responds with when a limit is reached. `scope` is `all` for the
+ * limits on every model together, or the model class (the part of the model id after the colon,
+ * e.g. `smart`).
+ */
+export type RateLimitExceeded = {
+	error: "rate_limited";
+	message: string;
+	scope: string;
+	metric: LimitMetric;
+	limit: number;
+	used: number;
+	resetsAt: string;
+};
+
+const formatLimit = (metric: LimitMetric, limit: number) => {
+	switch (metric) {
+		case "requests":
+			return `${limit} ${limit === 1 ? "request" : "requests"} per minute`;
+		case "tokens":
+			return `${limit.toLocaleString("en-US")} tokens per day`;
+		case "cost":
+			return `${formatCost(limit)} per month`;
+	}
+};
+
+export function describeLimit({
+	scope,
+	metric,
+	limit,
+}: Pick<RateLimitExceeded, "scope" | "metric" | "limit">): string {
+	const models = scope === "all" ? "all models" : `"${scope}" models`;
+	return `${formatLimit(metric, limit)} on ${models}`;
+}
+
+/**
+ * The rate limit behind an error from `useChat`, whose message is the body of the failed response.
+ */
+export function parseRateLimitError(
+	error: Error | undefined,
+): RateLimitExceeded | undefined {
+	try {
+		const body: unknown = JSON.parse(error?.message ?? "");
+		return body !== null &&
+			typeof body === "object" &&
+			(body as { error?: unknown }).error === "rate_limited"
+			? (body as RateLimitExceeded)
+			: undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * A countdown like `2d 3h`, `4m 05s` or `12s`.
+ */
+export function formatDuration(ms: number): string {
+	const seconds = Math.max(0, Math.ceil(ms / 1000));
+	const days = Math.floor(seconds / 86_400);
+	const hours = Math.floor((seconds % 86_400) / 3600);
+	const minutes = Math.floor((seconds % 3600) / 60);
+	const rest = seconds % 60;
+
+	if (days > 0) {
+		return `${days}d ${hours}h`;
+	}
+	if (hours > 0) {
+		return `${hours}h ${String(minutes).padStart(2, "0")}m`;
+	}
+	if (minutes > 0) {
+		return `${minutes}m ${String(rest).padStart(2, "0")}s`;
+	}
+	return `${rest}s`;
+}
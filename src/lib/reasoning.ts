@@ -0,0 +1,280 @@
+import type { UIMessage } from "ai";
+
+import { estimateTextTokens } from "./contextWindow";
+import { type MessageNode, buildTree } from "./messageTree";
+import { getMessageText, getModelAnnotation } from "./messages";
+import { getStepUsages } from "./usage";
+
+/**
+ * When one step (model call) of an answer ran, and which model answered it. `reasoningMs` is the
+ * time until the answer began, reasoning included whether or not the provider shows it.
+ */
+export type StepTiming = {
+	model: string;
+	startedAt: string;
+	reasoningMs: number;
+	durationMs: number;
+};
+
+/**
+ * What `route.ts` annotates an assistant message with, next to its usage: the timing of every
+ * step. A message continued after a tool approval gets one annotation per request.
+ */
+export type TimingAnnotation = { timing: StepTiming[] };
+
+function hasTimingProperty(
+	annotation: unknown,
+): annotation is TimingAnnotation {
+	return (
+		annotation !== null &&
+		typeof annotation === "object" &&
+		"timing" in annotation &&
+		Array.isArray((annotation as { timing: unknown }).timing)
+	);
+}
+
+/**
+ * The timing of each step of an assistant message, in the order they ran. Empty for answers from
+ * before timing was recorded.
+ */
+export function getStepTimings(message: UIMessage): StepTiming[] {
+	return (message.annotations ?? [])
+		.filter(hasTimingProperty)
+		.flatMap(({ timing }) => timing);
+}
+
+/**
+ * One block of reasoning as the provider sent it. Signatures (Anthropic) and redacted data are
+ * opaque: only the provider that produced them can read or verify them.
+ */
+export type ReasoningBlock =
+	| { type: "text"; text: string; signature: string | null }
+	| { type: "redacted"; data: string };
+
+/**
+ * The reasoning of one step of an answer, with what is known about it from the answer's
+ * annotations.
+ */
+export type ReasoningStep = {
+	// `<answer id>/<step>`
+	id: string;
+	answerId: string;
+	// The user message the answer is to, and its text
+	promptId: string | null;
+	prompt: string;
+	model: string | null;
+	provider: string | null;
+	// Position of the step (model call) within the answer, from 0
+	step: number;
+	blocks: ReasoningBlock[];
+	// The text of the step's answer, after the reasoning
+	answer: string;
+	// As reported by the provider, or estimated from the text for those that don't report them
+	// (Anthropic)
+	reasoningTokens: number;
+	estimatedTokens: boolean;
+	timing: Omit<StepTiming, "model"> | null;
+};
+
+export type ReasoningStatus = "signed" | "unsigned" | "redacted" | "hidden";
+
+/**
+ * The statuses a step has: reasoning signed by the provider, shown without a signature, redacted,
+ * or hidden altogether, with only its tokens reported (OpenAI without summaries).
+ */
+export function getReasoningStatuses(step: ReasoningStep): ReasoningStatus[] {
+	if (step.blocks.length === 0) {
+		return ["hidden"];
+	}
+
+	const statuses: ReasoningStatus[] = [];
+	const textBlocks = step.blocks.filter((block) => block.type === "text");
+	if (textBlocks.some((block) => block.signature)) {
+		statuses.push("signed");
+	}
+	if (textBlocks.some((block) => !block.signature)) {
+		statuses.push("unsigned");
+	}
+	if (step.blocks.some((block) => block.type === "redacted")) {
+		statuses.push("redacted");
+	}
+	return statuses;
+}
+
+/**
+ * The text of the reasoning blocks, as the provider shows it.
+ */
+export const getReasoningText = (blocks: ReasoningBlock[]) =>
+	blocks.map((block) => (block.type === "text" ? block.text : "")).join("");
+
+// The parts of each step, split at the `step-start` parts that begin them. Messages saved without
+// those are a single step
+function splitSteps(parts: UIMessage["parts"]): UIMessage["parts"][] {
+	const steps: UIMessage["parts"][] = [];
+	for (const part of parts) {
+		if (part.type === "step-start" || steps.length === 0) {
+			steps.push([]);
+		}
+		if (part.type !== "step-start") {
+			steps.at(-1)?.push(part);
+		}
+	}
+	return steps;
+}
+
+const timestamp = (message: UIMessage) =>
+	message.createdAt ? new Date(message.createdAt).getTime() : 0;
+
+/**
+ * The reasoning in every branch of a conversation, a step at a time, oldest prompt first. Answers
+ * to the same prompt, e.g. from a comparison, follow each other. Steps without reasoning are
+ * left out, unless the provider reports reasoning tokens for them.
+ */
+export function getReasoningSteps(nodes: MessageNode[]): ReasoningStep[] {
+	const tree = buildTree(nodes);
+
+	const findPrompt = (node: MessageNode) => {
+		let parent = node.parentId ? tree[node.parentId] : undefined;
+		while (parent && parent.message.role !== "user") {
+			parent = parent.parentId ? tree[parent.parentId] : undefined;
+		}
+		return parent?.message;
+	};
+
+	const answers = nodes
+		.filter(({ message }) => message.role === "assistant")
+		.map((node) => ({ message: node.message, prompt: findPrompt(node) }))
+		.sort(
+			(a, b) =>
+				(a.prompt ? timestamp(a.prompt) : 0) -
+					(b.prompt ? timestamp(b.prompt) : 0) ||
+				timestamp(a.message) - timestamp(b.message),
+		);
+
+	return answers.flatMap(({ message, prompt }) => {
+		const usages = getStepUsages(message);
+		const timings = getStepTimings(message);
+		const answeredBy = getModelAnnotation(message) ?? null;
+
+		return splitSteps(message.parts).flatMap((parts, step): ReasoningStep[] => {
+			const blocks = parts.flatMap((part): ReasoningBlock[] =>
+				part.type === "reasoning"
+					? part.details.map((detail) =>
+							detail.type === "text"
+								? {
+										type: "text",
+										text: detail.text,
+										signature: detail.signature ?? null,
+									}
+								: { type: "redacted", data: detail.data },
+						)
+					: [],
+			);
+			const reportedTokens = usages[step]?.reasoningTokens ?? 0;
+			if (blocks.length === 0 && reportedTokens === 0) {
+				return [];
+			}
+
+			const timing = timings[step];
+			const model = timing?.model ?? answeredBy;
+			const estimatedTokens = reportedTokens === 0;
+
+			return [
+				{
+					id: `${message.id}/${step}`,
+					answerId: message.id,
+					promptId: prompt?.id ?? null,
+					prompt: prompt ? getMessageText(prompt) : "",
+					model,
+					provider: model?.split(":")[0] ?? null,
+					step,
+					blocks,
+					answer: parts
+						.filter((part) => part.type === "text")
+						.map((part) => part.text)
+						.join(""),
+					reasoningTokens: estimatedTokens
+						? estimateTextTokens(getReasoningText(blocks))
+						: reportedTokens,
+					estimatedTokens,
+					timing: timing
+						? {
+								startedAt: timing.startedAt,
+								reasoningMs: timing.reasoningMs,
+								durationMs: timing.durationMs,
+							}
+						: null,
+				},
+			];
+		});
+	});
+}
+
+export const REASONING_EXPORT_FORMAT = "chatbot-next.reasoning";
+
+/**
+ * The reasoning of one step of an answer in the provider-neutral export.
+ */
+export type ReasoningTrace = {
+	answerId: string;
+	step: number;
+	model: string | null;
+	provider: string | null;
+	status: ReasoningStatus[];
+	blocks: ReasoningBlock[];
+	text: string;
+	tokens: { reasoning: number; estimated: boolean };
+	timing: ReasoningStep["timing"];
+	answer: string;
+};
+
+/**
+ * The provider-neutral export of a conversation's reasoning, documented in
+ * `docs/reasoning-trace-format.md`. Traces are grouped by the prompt they answer, so the reasoning
+ * of different models about the same prompt sits side by side.
+ */
+export type ReasoningExport = {
+	format: typeof REASONING_EXPORT_FORMAT;
+	version: 1;
+	exportedAt: string;
+	conversation: { id: string; name: string | null };
+	prompts: { id: string | null; text: string; traces: ReasoningTrace[] }[];
+};
+
+export function toReasoningExport(
+	conversation: { id: string; name: string | null },
+	steps: ReasoningStep[],
+): ReasoningExport {
+	const prompts = new Map<string | null, ReasoningExport["prompts"][number]>();
+	for (const step of steps) {
+		const prompt = prompts.get(step.promptId) ?? {
+			id: step.promptId,
+			text: step.prompt,
+			traces: [],
+		};
+		prompts.set(step.promptId, prompt);
+		prompt.traces.push({
+			answerId: step.answerId,
+			step: step.step,
+			model: step.model,
+			provider: step.provider,
+			status: getReasoningStatuses(step),
+			blocks: step.blocks,
+			text: getReasoningText(step.blocks),
+			tokens: {
+				reasoning: step.reasoningTokens,
+				estimated: step.estimatedTokens,
+			},
+			timing: step.timing,
+			answer: step.answer,
+		});
+	}
+
+	return {
+		format: REASONING_EXPORT_FORMAT,
+		version: 1,
+		exportedAt: new Date().toISOString(),
+		conversation,
+		prompts: [...prompts.values()],
+	};
+}
@@ -0,0 +1,25 @@
+// Around the matched terms in search snippets. Private-use characters can't clash with message
+// text, and leave the highlighting to the client instead of trusting markup from the database
+export const HIGHLIGHT_START = "\uE000";
+export const HIGHLIGHT_END = "\uE001";
+
+/**
+ * Splits a search snippet into its plain and highlighted runs, in order.
+ */
+export function splitHighlights(
+	snippet: string,
+): { text: string; highlighted: boolean }[] {
+	return snippet
+		.split(HIGHLIGHT_START)
+		.flatMap((chunk, index) => {
+			if (index === 0) {
+				return [{ text: chunk, highlighted: false }];
+			}
+			const [highlighted = "", rest = ""] = chunk.split(HIGHLIGHT_END);
+			return [
+				{ text: highlighted, highlighted: true },
+				{ text: rest, highlighted: false },
+			];
+		})
+		.filter((run) => run.text !== "");
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import { validateJson } from "./structuredOutput";
+
+describe("validateJson", () => {
+	it("follows references into nested values", () => {
+		const tree = {
+			type: "object",
+			properties: {
+				name: { type: "string" },
+				children: { type: "array", items: { $ref: "#" } },
+			},
+		};
+
+		expect(
+			validateJson(tree, {
+				name: "a",
+				children: [{ name: "b", children: [] }],
+			}),
+		).toEqual([]);
+		expect(validateJson(tree, { children: [{ name: 1 }] })).toEqual([
+			"$.children[0].name: expected string, got integer",
+		]);
+	});
+
+	it("stops at references that come back to the same value", () => {
+		expect(validateJson({ $ref: "#" }, {})).toEqual([
+			"$: the schema's # refers back to itself",
+		]);
+		expect(
+			validateJson(
+				{
+					$defs: {
+						a: { $ref: "#/$defs/b" },
+						b: { allOf: [{ $ref: "#/$defs/a" }] },
+					},
+					$ref: "#/$defs/a",
+				},
+				{},
+			),
+		).toEqual(["$: the schema's #/$defs/a refers back to itself"]);
+	});
+
+	it("reports a pattern that isn't a regular expression as the schema's", () => {
+		const schema = {
+			type: "object",
+			properties: { code: { type: "string", pattern: "([a-z" } },
+		};
+
+		expect(validateJson(schema, { code: "abc" })).toEqual([
+			"$.code: the schema's pattern ([a-z isn't a valid regular expression",
+		]);
+	});
+});
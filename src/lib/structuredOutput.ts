@@ -0,0 +1,361 @@
+import type { UIMessage } from "ai";
+
+/**
+ * A JSON Schema, as set in a conversation's `outputSchema`. Providers take a subset of the spec
+ * for structured output; `validateJson` checks the same subset.
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Where an answer in structured output mode stands: streaming, or checked against the schema once
+ * complete. Errors read `$.items[0].price: expected number, got string`.
+ */
+export type StructuredOutput =
+	| { state: "streaming" }
+	| { state: "valid" }
+	| { state: "invalid"; errors: string[] };
+
+export type StructuredOutputAnnotation = { structuredOutput: StructuredOutput };
+
+const MAX_ERRORS = 20;
+
+const typeOf = (value: unknown) =>
+	value === null
+		? "null"
+		: Array.isArray(value)
+			? "array"
+			: Number.isInteger(value)
+				? "integer"
+				: typeof value;
+
+const matchesType = (value: unknown, type: unknown) =>
+	typeOf(value) === type || (type === "number" && typeOf(value) === "integer");
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+	typeOf(value) === "object";
+
+// Enough for the values JSON Schema compares: what JSON.parse produces
+const isEqual = (a: unknown, b: unknown) =>
+	JSON.stringify(a) === JSON.stringify(b);
+
+const childPath = (path: string, key: string | number) =>
+	typeof key === "number"
+		? `${path}[${key}]`
+		: /^[A-Za-z_$][\w$]*$/.test(key)
+			? `${path}.${key}`
+			: `${path}[${JSON.stringify(key)}]`;
+
+// Local references only, e.g. `#/$defs/address`
+function resolveRef(root: JsonSchema, ref: string): unknown {
+	if (!ref.startsWith("#")) {
+		return undefined;
+	}
+
+	return ref
+		.slice(1)
+		.split("/")
+		.filter(Boolean)
+		.map((key) => key.replaceAll("~1", "/").replaceAll("~0", "~"))
+		.reduce<unknown>(
+			(node, key) => (isObject(node) ? node[key] : undefined),
+			root,
+		);
+}
+
+// Invalid in the schema rather than in the answer, so the message says whose it is
+function matchesPattern(pattern: string, value: string): boolean | string {
+	try {
+		return new RegExp(pattern, "u").test(value);
+	} catch {
+		return `the schema's pattern ${pattern} isn't a valid regular expression`;
+	}
+}
+
+// `refs` are the references followed to get to `schema` for the same value; one that comes round
+// again, e.g. `{"$ref": "#"}` at the top, would never get anywhere
+function check(
+	schema: unknown,
+	value: unknown,
+	path: string,
+	root: JsonSchema,
+	errors: string[],
+	refs: ReadonlySet<string> = new Set(),
+) {
+	if (schema === false) {
+		errors.push(`${path}: not allowed`);
+		return;
+	}
+	if (!isObject(schema)) {
+		return;
+	}
+	if (typeof schema.$ref === "string") {
+		if (refs.has(schema.$ref)) {
+			errors.push(`${path}: the schema's ${schema.$ref} refers back to itself`);
+			return;
+		}
+		check(
+			resolveRef(root, schema.$ref),
+			value,
+			path,
+			root,
+			errors,
+			new Set([...refs, schema.$ref]),
+		);
+		return;
+	}
+
+	if (schema.type !== undefined) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!types.some((type) => matchesType(value, type))) {
+			errors.push(
+				`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`,
+			);
+			return;
+		}
+	}
+
+	if (
+		Array.isArray(schema.enum) &&
+		!schema.enum.some((option) => isEqual(option, value))
+	) {
+		errors.push(
+			`${path}: expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`,
+		);
+	}
+	if ("const" in schema && !isEqual(schema.const, value)) {
+		errors.push(`${path}: expected ${JSON.stringify(schema.const)}`);
+	}
+
+	if (typeof value === "string") {
+		if (
+			typeof schema.minLength === "number" &&
+			value.length < schema.minLength
+		) {
+			errors.push(`${path}: shorter than ${schema.minLength} characters`);
+		}
+		if (
+			typeof schema.maxLength === "number" &&
+			value.length > schema.maxLength
+		) {
+			errors.push(`${path}: longer than ${schema.maxLength} characters`);
+		}
+		if (typeof schema.pattern === "string") {
+			const matches = matchesPattern(schema.pattern, value);
+			if (matches !== true) {
+				errors.push(`${path}: ${matches || `doesn't match ${schema.pattern}`}`);
+			}
+		}
+	}
+
+	if (typeof value === "number") {
+		if (typeof schema.minimum === "number" && value < schema.minimum) {
+			errors.push(`${path}: below the minimum of ${schema.minimum}`);
+		}
+		if (typeof schema.maximum === "number" && value > schema.maximum) {
+			errors.push(`${path}: above the maximum of ${schema.maximum}`);
+		}
+		if (
+			typeof schema.exclusiveMinimum === "number" &&
+			value <= schema.exclusiveMinimum
+		) {
+			errors.push(`${path}: not above ${schema.exclusiveMinimum}`);
+		}
+		if (
+			typeof schema.exclusiveMaximum === "number" &&
+			value >= schema.exclusiveMaximum
+		) {
+			errors.push(`${path}: not below ${schema.exclusiveMaximum}`);
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+			errors.push(`${path}: fewer than ${schema.minItems} items`);
+		}
+		if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+			errors.push(`${path}: more than ${schema.maxItems} items`);
+		}
+		if (schema.items !== undefined) {
+			for (const [index, item] of value.entries()) {
+				check(schema.items, item, childPath(path, index), root, errors);
+			}
+		}
+	}
+
+	if (isObject(value)) {
+		const properties = isObject(schema.properties) ? schema.properties : {};
+		if (Array.isArray(schema.required)) {
+			for (const key of schema.required) {
+				if (typeof key === "string" && !(key in value)) {
+					errors.push(`${childPath(path, key)}: missing`);
+				}
+			}
+		}
+		for (const [key, item] of Object.entries(value)) {
+			if (key in properties) {
+				check(properties[key], item, childPath(path, key), root, errors);
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${childPath(path, key)}: not in the schema`);
+			} else if (schema.additionalProperties !== undefined) {
+				check(
+					schema.additionalProperties,
+					item,
+					childPath(path, key),
+					root,
+					errors,
+				);
+			}
+		}
+	}
+
+	if (Array.isArray(schema.allOf)) {
+		for (const option of schema.allOf) {
+			check(option, value, path, root, errors, refs);
+		}
+	}
+
+	const matching = (options: unknown[]) =>
+		options.filter((option) => {
+			const optionErrors: string[] = [];
+			check(option, value, path, root, optionErrors, refs);
+			return optionErrors.length === 0;
+		}).length;
+	if (Array.isArray(schema.anyOf) && matching(schema.anyOf) === 0) {
+		errors.push(`${path}: doesn't match any of the allowed shapes`);
+	}
+	if (Array.isArray(schema.oneOf) && matching(schema.oneOf) !== 1) {
+		errors.push(`${path}: doesn't match exactly one of the allowed shapes`);
+	}
+}
+
+/**
+ * Checks `value` against `schema`: types, `properties`, `required`, `additionalProperties`,
+ * `items`, `enum`, `const`, length and range limits, `pattern`, local `$ref`s and the
+ * `allOf`/`anyOf`/`oneOf` combinators. Returns the problems found, none if it matches.
+ */
+export function validateJson(schema: JsonSchema, value: unknown): string[] {
+	const errors: string[] = [];
+	check(schema, value, "$", schema, errors);
+
+	return errors.slice(0, MAX_ERRORS);
+}
+
+/**
+ * Parses a complete answer and checks it against the schema.
+ */
+export function checkStructuredOutput(
+	schema: JsonSchema,
+	text: string,
+): StructuredOutput {
+	let value: unknown;
+	try {
+		value = JSON.parse(text);
+	} catch (error) {
+		return {
+			state: "invalid",
+			errors: [
+				`The answer isn't valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+			],
+		};
+	}
+
+	const errors = validateJson(schema, value);
+	return errors.length > 0 ? { state: "invalid", errors } : { state: "valid" };
+}
+
+// Closes the strings, arrays and objects still open at the end of `text`. Also finds the last
+// point a value can be cut off at: after a comma, or inside a bracket
+function closeJson(text: string): { closed: string; boundary: number } {
+	const closers: string[] = [];
+	let inString = false;
+	let escaped = false;
+	let boundary = 0;
+
+	for (let index = 0; index < text.length; index++) {
+		const char = text[index];
+		if (inString) {
+			if (escaped) {
+				escaped = false;
+			} else if (char === "\\") {
+				escaped = true;
+			} else if (char === '"') {
+				inString = false;
+			}
+			continue;
+		}
+
+		if (char === '"') {
+			inString = true;
+		} else if (char === "{" || char === "[") {
+			closers.push(char === "{" ? "}" : "]");
+			boundary = index + 1;
+		} else if (char === "}" || char === "]") {
+			closers.pop();
+		} else if (char === ",") {
+			boundary = index;
+		}
+	}
+
+	const body = escaped ? text.slice(0, -1) : text;
+	return {
+		closed: `${body}${inString ? '"' : ""}${closers.reverse().join("")}`,
+		boundary,
+	};
+}
+
+const tryParse = (text: string): { value: unknown } | undefined => {
+	try {
+		return { value: JSON.parse(text) };
+	} catch {
+		return undefined;
+	}
+};
+
+/**
+ * As much of a JSON value as has streamed in so far, e.g. `{"a": [1, 2` reads as `{"a": [1, 2]}`.
+ * Undefined until there is something to show.
+ */
+export function parsePartialJson(text: string): unknown {
+	const complete = tryParse(text);
+	if (complete) {
+		return complete.value;
+	}
+
+	const { closed, boundary } = closeJson(text);
+	// A value cut off mid-token, e.g. `tru` or a key without its value, is left out
+	return (
+		tryParse(closed) ?? tryParse(closeJson(text.slice(0, boundary)).closed)
+	)?.value;
+}
+
+/**
+ * The follow-up prompt that asks for an answer to be fixed.
+ */
+export const repairPrompt = (errors: string[]) =>
+	[
+		"Your last answer doesn't match the JSON Schema:",
+		...errors.map((error) => `- ${error}`),
+		"Answer again with the complete, corrected JSON.",
+	].join("\n");
+
+function hasStructuredOutputProperty(
+	annotation: unknown,
+): annotation is StructuredOutputAnnotation {
+	return (
+		annotation !== null &&
+		typeof annotation === "object" &&
+		"structuredOutput" in annotation &&
+		typeof (annotation as { structuredOutput: unknown }).structuredOutput ===
+			"object"
+	);
+}
+
+/**
+ * How far a structured answer has got, if the message is one.
+ */
+export function getStructuredOutput(
+	message: UIMessage,
+): StructuredOutput | undefined {
+	return (message.annotations ?? []).filter(hasStructuredOutputProperty).at(-1)
+		?.structuredOutput;
+}
@@ -0,0 +1,61 @@
+import type { JSONValue, UIMessage } from "ai";
+
+/**
+ * What the client sends back via `addToolResult` for a call that needs confirmation. `route.ts`
+ * replaces it with the tool's actual result before the model sees it.
+ */
+export type ToolApprovalDecision =
+	| { toolApproval: "approved"; args?: JSONValue }
+	| { toolApproval: "denied" };
+
+/**
+ * The decision as recorded in the annotations of the assistant message that made the call.
+ * `args` is only set when the user edited the arguments.
+ */
+export type ToolApproval = {
+	toolCallId: string;
+	toolName: string;
+	approved: boolean;
+	args?: JSONValue;
+	decidedAt: string;
+};
+
+export function isToolApprovalDecision(
+	result: unknown,
+): result is ToolApprovalDecision {
+	return (
+		result !== null &&
+		typeof result === "object" &&
+		"toolApproval" in result &&
+		((result as { toolApproval: unknown }).toolApproval === "approved" ||
+			(result as { toolApproval: unknown }).toolApproval === "denied")
+	);
+}
+
+function hasToolApprovalProperty(
+	annotation: unknown,
+): annotation is { toolApproval: ToolApproval } {
+	return (
+		annotation !== null &&
+		typeof annotation === "object" &&
+		"toolApproval" in annotation &&
+		typeof (annotation as { toolApproval: unknown }).toolApproval === "object"
+	);
+}
+
+/**
+ * The approval recorded for a tool call of `message`, if it needed one.
+ */
+export function getToolApproval(
+	message: UIMessage,
+	toolCallId: string,
+): ToolApproval | undefined {
+	const annotation = (message.annotations ?? []).find(
+		(annotation) =>
+			hasToolApprovalProperty(annotation) &&
+			annotation.toolApproval.toolCallId === toolCallId,
+	);
+
+	return (annotation as { toolApproval: ToolApproval } | undefined)
+		?.toolApproval;
+}
@@ -0,0 +1,146 @@
+import type { UIMessage } from "ai";
+
+import type { ModelDef } from "~/app/api/chat/models";
+
+/**
+ * Token counts of one model call, normalized across providers: `promptTokens` includes the cached
+ * ones, and `completionTokens` includes the reasoning ones.
+ */
+export type TokenUsage = {
+	promptTokens: number;
+	completionTokens: number;
+	reasoningTokens: number;
+	cachedPromptTokens: number;
+};
+
+/**
+ * What `route.ts` annotates an assistant message with: the usage of every step (model call) that
+ * produced it, and their total cost in USD. A message continued after a tool approval gets one
+ * annotation per request.
+ */
+export type UsageAnnotation = {
+	usage: TokenUsage & {
+		cost: number;
+		steps: TokenUsage[];
+	};
+};
+
+export type MessageUsage = TokenUsage & { cost: number };
+
+export const emptyUsage: MessageUsage = {
+	promptTokens: 0,
+	completionTokens: 0,
+	reasoningTokens: 0,
+	cachedPromptTokens: 0,
+	cost: 0,
+};
+
+export function addUsage<T extends TokenUsage>(a: T, b: TokenUsage): T {
+	return {
+		...a,
+		promptTokens: a.promptTokens + b.promptTokens,
+		completionTokens: a.completionTokens + b.completionTokens,
+		reasoningTokens: a.reasoningTokens + b.reasoningTokens,
+		cachedPromptTokens: a.cachedPromptTokens + b.cachedPromptTokens,
+	};
+}
+
+/**
+ * The cost in USD of `usage` at the model's catalog prices. Cached prompt tokens are billed at the
+ * cached rate where the provider has one; models without pricing are free.
+ */
+export function getCost(def: ModelDef | undefined, usage: TokenUsage): number {
+	const pricing = def?.pricing;
+	if (!pricing) {
+		return 0;
+	}
+
+	const uncachedPromptTokens = usage.promptTokens - usage.cachedPromptTokens;
+	const cachedRate = pricing.cachedInput ?? pricing.input;
+
+	return (
+		(uncachedPromptTokens * pricing.input +
+			usage.cachedPromptTokens * cachedRate +
+			usage.completionTokens * pricing.output) /
+		1_000_000
+	);
+}
+
+function hasUsageProperty(annotation: unknown): annotation is UsageAnnotation {
+	return (
+		annotation !== null &&
+		typeof annotation === "object" &&
+		"usage" in annotation &&
+		typeof (annotation as { usage: unknown }).usage === "object"
+	);
+}
+
+/**
+ * The usage of each step of an assistant message, in the order they ran, across its annotations.
+ */
+export function getStepUsages(message: UIMessage): TokenUsage[] {
+	return (message.annotations ?? [])
+		.filter(hasUsageProperty)
+		.flatMap(({ usage }) => usage.steps ?? []);
+}
+
+export function sumUsage(usages: MessageUsage[]): MessageUsage {
+	return usages.reduce(
+		(total, usage) => ({
+			...addUsage(total, usage),
+			cost: total.cost + usage.cost,
+		}),
+		emptyUsage,
+	);
+}
+
+/**
+ * The message without its usage annotations, and the annotations themselves. Usage is only
+ * recorded where it is measured: messages sent by clients or imported can't bring their own.
+ */
+export function splitUsage(message: UIMessage): {
+	message: UIMessage;
+	usage: UsageAnnotation[];
+} {
+	const { annotations } = message;
+	if (!annotations) {
+		return { message, usage: [] };
+	}
+
+	return {
+		message: {
+			...message,
+			annotations: annotations.filter(
+				(annotation) => !hasUsageProperty(annotation),
+			),
+		},
+		usage: annotations.filter(hasUsageProperty),
+	};
+}
+
+/**
+ * The usage and cost of an assistant message, summed over its annotations, or `undefined` if it
+ * has none (user messages, or answers from before usage was recorded).
+ */
+export function getMessageUsage(message: UIMessage): MessageUsage | undefined {
+	const annotations = (message.annotations ?? []).filter(hasUsageProperty);
+	if (annotations.length === 0) {
+		return undefined;
+	}
+
+	return sumUsage(annotations.map(({ usage }) => usage));
+}
+
+export const formatTokens = (tokens: number) =>
+	tokens >= 10_000
+		? `${Math.round(tokens / 1000)}k`
+		: tokens >= 1000
+			? `${(tokens / 1000).toFixed(1)}k`
+			: `${tokens}`;
+
+export const formatCost = (cost: number) =>
+	cost === 0
+		? "$0"
+		: cost < 0.01
+			? `$${cost.toFixed(4)}`
+			: `$${cost.toFixed(2)}`;
@@ -1,4 +1,10 @@
+import { chatRouter } from "~/server/api/routers/chatRouter";
+import { knowledgeRouter } from "~/server/api/routers/knowledgeRouter";
+import { mcpRouter } from "~/server/api/routers/mcpRouter";
 import { modelRouter } from "~/server/api/routers/modelRouter";
+import { promptRouter } from "~/server/api/routers/promptRouter";
+import { toolRouter } from "~/server/api/routers/toolRouter";
+import { usageRouter } from "~/server/api/routers/usageRouter";
 import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
 
 /**
@@ -8,6 +14,12 @@ import { createCallerFactory, createTRPCRouter } from "~/server/api/trpc";
  */
 export const appRouter = createTRPCRouter({
 	model: modelRouter,
+	chat: chatRouter,
+	tool: toolRouter,
+	mcp: mcpRouter,
+	usage: usageRouter,
+	prompt: promptRouter,
+	knowledge: knowledgeRouter,
 });
 
 // export type definition of API
@@ -0,0 +1,230 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+import type { ConversationExport } from "~/lib/conversationExport";
+import anthropic from "~/lib/fixtures/imports/anthropic.json";
+import openaiChat from "~/lib/fixtures/imports/openai-chat.json";
+import { createCaller } from "~/server/api/root";
+import { db } from "~/server/db";
+import { loadMessages } from "~/server/db/conversations";
+import { users } from "~/server/db/schema";
+import { streamStore } from "~/server/streams";
+import exported from "./fixtures/conversation-export.json";
+
+vi.mock("~/server/db", async () => ({
+	db: await (await import("~/server/db/testing")).createTestDb(),
+}));
+vi.mock("~/server/auth", () => ({ auth: async () => null }));
+
+const user = { id: "user-1", role: "member" as const };
+
+const caller = createCaller({
+	db,
+	session: { user, expires: "" },
+	headers: new Headers(),
+});
+
+beforeAll(async () => {
+	await db.insert(users).values({ id: user.id, email: "user-1@example.com" });
+});
+
+async function roundTrip(content: string) {
+	const { id } = await caller.chat.import({ content });
+	const { content: json } = await caller.chat.export({ id, format: "json" });
+	return { id, export: JSON.parse(json) as ConversationExport };
+}
+
+// Imports give messages and uploads new ids; number them in order instead, so exports compare
+function normalize({ conversation, messages, files }: ConversationExport) {
+	const ids = new Map(
+		messages.map(({ message }, index) => [message.id, `message-${index}`]),
+	);
+	const urls = new Map(
+		Object.keys(files).map((url, index) => [url, `file-${index}`]),
+	);
+
+	return {
+		conversation: {
+			...conversation,
+			activeLeafId: conversation.activeLeafId
+				? ids.get(conversation.activeLeafId)
+				: null,
+		},
+		messages: messages.map(({ message, parentId }) => ({
+			parentId: parentId ? ids.get(parentId) : null,
+			message: {
+				...message,
+				id: ids.get(message.id),
+				experimental_attachments: message.experimental_attachments?.map(
+					(attachment) => ({ ...attachment, url: urls.get(attachment.url) }),
+				),
+			},
+		})),
+		files: Object.fromEntries(
+			Object.entries(files).map(([url, file]) => [urls.get(url), file]),
+		),
+	};
+}
+
+describe("exporting and importing conversations", () => {
+	it("keeps everything but the usage through export, import and export", async () => {
+		const first = await roundTrip(JSON.stringify(exported));
+		const second = await roundTrip(JSON.stringify(first.export));
+
+		expect(second.id).not.toBe(first.id);
+		expect(normalize(second.export)).toEqual(normalize(first.export));
+
+		// Usage can't be checked, so imports leave it out; everything else is as exported
+		const withoutUsage = {
+			...exported,
+			messages: exported.messages.map(({ message, parentId }) => ({
+				parentId,
+				message: {
+					...message,
+					annotations: message.annotations?.filter(
+						(annotation) => !("usage" in annotation),
+					),
+				},
+			})),
+		} as unknown as ConversationExport;
+		expect(normalize(first.export)).toEqual(normalize(withoutUsage));
+	});
+
+	it("keeps reasoning, tool invocations, annotations, branches and files", async () => {
+		const { export: result } = await roundTrip(JSON.stringify(exported));
+		const [prompt, answer, regenerated, followUp] = result.messages;
+
+		// Both answers to the prompt are kept, and the branch that was shown
+		expect(answer?.parentId).toBe(prompt?.message.id);
+		expect(regenerated?.parentId).toBe(prompt?.message.id);
+		expect(followUp?.parentId).toBe(regenerated?.message.id);
+		expect(result.conversation.activeLeafId).toBe(answer?.message.id);
+		expect(result.conversation.settings).toEqual(
+			exported.conversation.settings,
+		);
+
+		expect(answer?.message.parts).toContainEqual({
+			type: "reasoning",
+			reasoning: "The notes say 6 * 7 = 42; I'll confirm with the calculator.",
+			details: [
+				{
+					type: "text",
+					text: "The notes say 6 * 7 = 42; I'll confirm with the calculator.",
+					signature: "fixture-signature-1",
+				},
+				{ type: "redacted", data: "Zml4dHVyZS1yZWRhY3RlZA==" },
+			],
+		});
+		expect(answer?.message.parts).toContainEqual(
+			expect.objectContaining({
+				type: "tool-invocation",
+				toolInvocation: expect.objectContaining({
+					state: "result",
+					result: { expression: "6 * 7", result: 42 },
+				}),
+			}),
+		);
+		expect(answer?.message.annotations).toEqual([
+			{ model: "anthropic:smart" },
+			expect.objectContaining({ knowledge: expect.any(Array) }),
+			expect.objectContaining({ timing: expect.any(Array) }),
+		]);
+
+		// The files are uploaded again, under new URLs
+		const attachments = prompt?.message.experimental_attachments ?? [];
+		expect(attachments.map(({ name }) => name)).toEqual([
+			"notes.txt",
+			"photo.png",
+		]);
+		for (const [attachment, original] of attachments.map(
+			(attachment, index) =>
+				[
+					attachment,
+					exported.messages[0]?.message.experimental_attachments?.[index],
+				] as const,
+		)) {
+			expect(attachment.url).toMatch(/^\/api\/attachments\/file-/);
+			expect(attachment.url).not.toBe(original?.url);
+			expect(result.files[attachment.url]).toEqual(
+				exported.files[original?.url as keyof typeof exported.files],
+			);
+		}
+	});
+
+	it("imports a provider's message array", async () => {
+		const { id } = await caller.chat.import({
+			content: JSON.stringify(openaiChat),
+		});
+
+		const nodes = await loadMessages(id);
+		expect(nodes.map(({ message }) => message.content)).toEqual([
+			"What is 6 * 7?",
+			"6 * 7 is 42.",
+			"Thanks!",
+			"You're welcome.",
+		]);
+		expect(nodes.map(({ parentId }) => parentId)).toEqual([
+			null,
+			...nodes.slice(0, -1).map(({ message }) => message.id),
+		]);
+
+		// The inline image is uploaded
+		const [image] = nodes[0]?.message.experimental_attachments ?? [];
+		expect(image).toMatchObject({
+			contentType: "image/png",
+			url: expect.stringMatching(/^\/api\/attachments\/file-/),
+		});
+
+		const conversation = await caller.chat.get({ id });
+		expect(conversation?.settings).toEqual({ systemPrompt: "Answer briefly." });
+	});
+
+	it("imports Anthropic reasoning as it was signed", async () => {
+		const { id } = await caller.chat.import({
+			content: JSON.stringify(anthropic),
+		});
+
+		const [, answer] = await loadMessages(id);
+		expect(answer?.message.annotations).toEqual([
+			{ model: "anthropic:claude-3-7-sonnet-20250219" },
+		]);
+		expect(
+			answer?.message.parts.flatMap((part) =>
+				part.type === "reasoning" ? part.details : [],
+			),
+		).toEqual([
+			{
+				type: "text",
+				text: "The notes say 42; let me check.",
+				signature: "fixture-signature-1",
+			},
+			{ type: "redacted", data: "Zml4dHVyZS1yZWRhY3RlZA==" },
+		]);
+	});
+
+	it("rejects files it can't read", async () => {
+		await expect(
+			caller.chat.import({ content: '{"hello": "world"}' }),
+		).rejects.toThrow("Expected an exported conversation");
+	});
+});
+
+describe("getting a conversation", () => {
+	it("names the stream of an answer still being generated", async () => {
+		const { id } = await caller.chat.import({
+			content: JSON.stringify(openaiChat),
+		});
+		expect((await caller.chat.get({ id }))?.activeStreamId).toBeNull();
+
+		const leaf = (await loadMessages(id)).at(-1)?.message.id ?? "";
+		await streamStore.create({
+			id: "stream-1",
+			conversationId: id,
+			userId: user.id,
+			messageId: leaf,
+		});
+		expect((await caller.chat.get({ id }))?.activeStreamId).toBe("stream-1");
+
+		await streamStore.finish("stream-1", "done");
+		expect((await caller.chat.get({ id }))?.activeStreamId).toBeNull();
+	});
+});
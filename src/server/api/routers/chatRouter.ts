@@ -0,0 +1,334 @@
+import { TRPCError } from "@trpc/server";
+import { generateId } from "ai";
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import { z } from "zod";
+
+import { providerSchema } from "~/app/api/chat/models";
+import { getProviderPayload } from "~/app/api/chat/payload";
+import {
+	CONVERSATION_EXPORT_FORMAT,
+	type ConversationExport,
+	exportFormats,
+	toMarkdown,
+} from "~/lib/conversationExport";
+import { ImportError, parseImport } from "~/lib/conversationImport";
+import { generationSettingsSchema } from "~/lib/generationSettings";
+import { buildTree, getLatestLeaf, getPath } from "~/lib/messageTree";
+import { getModelAnnotation } from "~/lib/messages";
+import { getReasoningSteps, toReasoningExport } from "~/lib/reasoning";
+import {
+	loadAttachmentFiles,
+	storeInlineAttachments,
+} from "~/server/attachments";
+import { type SessionUser, canAccess, ownedBy } from "~/server/auth/access";
+import { importConversation, loadMessages } from "~/server/db/conversations";
+import { comparisons, conversations, messages } from "~/server/db/schema";
+import { searchMessages } from "~/server/db/search";
+import { cancelStream, isFinal, streamStore } from "~/server/streams";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+
+// The conversation, if the signed in user may see it
+const ownConversation = (id: string, user: SessionUser) =>
+	and(eq(conversations.id, id), ownedBy(conversations.userId, user));
+
+export const chatRouter = createTRPCRouter({
+	create: protectedProcedure
+		.input(z.object({ name: z.string().max(256).optional() }).optional())
+		.mutation(async ({ ctx, input }) => {
+			const [conversation] = await ctx.db
+				.insert(conversations)
+				.values({
+					id: generateId(),
+					userId: ctx.session.user.id,
+					name: input?.name,
+				})
+				.returning();
+
+			return conversation;
+		}),
+
+	list: protectedProcedure.query(async ({ ctx }) => {
+		return ctx.db.query.conversations.findMany({
+			where: ownedBy(conversations.userId, ctx.session.user),
+			orderBy: [
+				desc(
+					sql`coalesce(${conversations.updatedAt}, ${conversations.createdAt})`,
+				),
+			],
+		});
+	}),
+
+	get: protectedProcedure
+		.input(z.object({ id: z.string() }))
+		.query(async ({ ctx, input }) => {
+			const conversation = await ctx.db.query.conversations.findFirst({
+				where: ownConversation(input.id, ctx.session.user),
+			});
+
+			if (!conversation) {
+				return null;
+			}
+
+			const stream =
+				conversation.activeLeafId &&
+				(await streamStore.findByMessage(conversation.activeLeafId));
+
+			return {
+				...conversation,
+				messages: await loadMessages(conversation.id),
+				// The stream of an answer to the active branch that is still being generated
+				activeStreamId: stream && !isFinal(stream.status) ? stream.id : null,
+			};
+		}),
+
+	/**
+	 * Stops generating an answer, keeping what was generated so far.
+	 */
+	cancelStream: protectedProcedure
+		.input(z.object({ streamId: z.string() }))
+		.mutation(async ({ ctx, input }) => {
+			const stream = await streamStore.get(input.streamId);
+			if (!stream || !canAccess(ctx.session.user, stream.userId)) {
+				throw new TRPCError({ code: "NOT_FOUND" });
+			}
+
+			await cancelStream(stream.id);
+		}),
+
+	search: protectedProcedure
+		.input(
+			z.object({
+				query: z.string().trim().min(1).max(256),
+				model: z.string().optional(),
+				provider: providerSchema.optional(),
+				role: z.enum(["user", "assistant"]).optional(),
+				from: z.date().optional(),
+				to: z.date().optional(),
+				includeReasoning: z.boolean().default(false),
+				includeToolResults: z.boolean().default(false),
+			}),
+		)
+		.query(({ ctx, input }) =>
+			searchMessages({ ...input, user: ctx.session.user }),
+		),
+
+	rename: protectedProcedure
+		.input(z.object({ id: z.string(), name: z.string().min(1).max(256) }))
+		.mutation(async ({ ctx, input }) => {
+			await ctx.db
+				.update(conversations)
+				.set({ name: input.name })
+				.where(ownConversation(input.id, ctx.session.user));
+		}),
+
+	// Conversations that haven't been stored yet pick their settings up with their first message
+	updateSettings: protectedProcedure
+		.input(z.object({ id: z.string(), settings: generationSettingsSchema }))
+		.mutation(async ({ ctx, input }) => {
+			await ctx.db
+				.update(conversations)
+				.set({ settings: input.settings })
+				.where(ownConversation(input.id, ctx.session.user));
+		}),
+
+	selectBranch: protectedProcedure
+		.input(z.object({ id: z.string(), leafId: z.string() }))
+		.mutation(async ({ ctx, input }) => {
+			await ctx.db
+				.update(conversations)
+				.set({ activeLeafId: input.leafId })
+				.where(ownConversation(input.id, ctx.session.user));
+		}),
+
+	/**
+	 * Records which of several answers to one prompt the user picked in compare mode, and shows its
+	 * branch from now on.
+	 */
+	pickWinner: protectedProcedure
+		.input(
+			z.object({
+				id: z.string(),
+				promptId: z.string(),
+				winnerId: z.string(),
+				candidateIds: z.array(z.string()).min(2).max(8),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const conversation = await ctx.db.query.conversations.findFirst({
+				where: ownConversation(input.id, ctx.session.user),
+			});
+			if (!conversation) {
+				throw new TRPCError({ code: "NOT_FOUND" });
+			}
+
+			const answers = await ctx.db.query.messages.findMany({
+				where: and(
+					eq(messages.conversationId, conversation.id),
+					eq(messages.parentId, input.promptId),
+					eq(messages.role, "assistant"),
+					inArray(messages.id, input.candidateIds),
+				),
+				columns: { id: true, model: true },
+			});
+			const winner = answers.find(({ id }) => id === input.winnerId);
+			if (!winner) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "The picked answer isn't one of the compared answers",
+				});
+			}
+
+			await ctx.db.transaction(async (tx) => {
+				await tx.insert(comparisons).values({
+					id: generateId(),
+					userId: ctx.session.user.id,
+					conversationId: conversation.id,
+					promptMessageId: input.promptId,
+					winnerMessageId: winner.id,
+					winnerModel: winner.model,
+					candidates: answers.map(({ id, model }) => ({
+						messageId: id,
+						model,
+					})),
+				});
+				await tx
+					.update(conversations)
+					.set({ activeLeafId: winner.id })
+					.where(eq(conversations.id, conversation.id));
+			});
+		}),
+
+	/**
+	 * The conversation as a file: Markdown or a provider payload of the branch that is shown, or our
+	 * lossless JSON or the reasoning traces of every branch.
+	 */
+	export: protectedProcedure
+		.input(z.object({ id: z.string(), format: z.enum(exportFormats) }))
+		.query(async ({ ctx, input }) => {
+			const conversation = await ctx.db.query.conversations.findFirst({
+				where: ownConversation(input.id, ctx.session.user),
+			});
+			if (!conversation) {
+				throw new TRPCError({ code: "NOT_FOUND" });
+			}
+
+			const nodes = await loadMessages(conversation.id);
+			const tree = buildTree(nodes);
+			const path = getPath(
+				tree,
+				conversation.activeLeafId ?? getLatestLeaf(tree, null),
+			);
+			const basename =
+				(conversation.name ?? "conversation")
+					.replace(/[^\w.-]+/g, "-")
+					.replace(/^-+|-+$/g, "")
+					.slice(0, 64) || "conversation";
+
+			switch (input.format) {
+				case "markdown":
+					return {
+						filename: `${basename}.md`,
+						contentType: "text/markdown",
+						content: toMarkdown(conversation.name, conversation.settings, path),
+					};
+
+				case "json": {
+					const data: ConversationExport = {
+						format: CONVERSATION_EXPORT_FORMAT,
+						version: 1,
+						exportedAt: new Date().toISOString(),
+						conversation: {
+							name: conversation.name,
+							settings: conversation.settings,
+							activeLeafId: conversation.activeLeafId,
+						},
+						messages: nodes,
+						files: await loadAttachmentFiles(
+							nodes.map(({ message }) => message),
+							ctx.session.user,
+						),
+					};
+					return {
+						filename: `${basename}.json`,
+						contentType: "application/json",
+						content: JSON.stringify(data, null, 2),
+					};
+				}
+
+				case "reasoning":
+					return {
+						filename: `${basename}.reasoning.json`,
+						contentType: "application/json",
+						content: JSON.stringify(
+							toReasoningExport(
+								{ id: conversation.id, name: conversation.name },
+								getReasoningSteps(nodes),
+							),
+							null,
+							2,
+						),
+					};
+
+				default: {
+					const payload = await getProviderPayload(input.format, {
+						path,
+						settings: conversation.settings,
+						preferredModel: path.map(getModelAnnotation).filter(Boolean).pop(),
+						user: ctx.session.user,
+					}).catch((error: unknown) => {
+						throw new TRPCError({
+							code: "BAD_REQUEST",
+							message: error instanceof Error ? error.message : String(error),
+						});
+					});
+					return {
+						filename: `${basename}.${input.format}.json`,
+						contentType: "application/json",
+						content: JSON.stringify(payload, null, 2),
+					};
+				}
+			}
+		}),
+
+	/**
+	 * Creates a conversation from an export or a provider's message array, see `parseImport`.
+	 */
+	import: protectedProcedure
+		.input(z.object({ content: z.string().min(1) }))
+		.mutation(async ({ ctx, input }) => {
+			let imported: ReturnType<typeof parseImport>;
+			try {
+				imported = parseImport(input.content);
+			} catch (error) {
+				if (error instanceof ImportError) {
+					throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+				}
+				throw error;
+			}
+
+			const messages = [];
+			for (const node of imported.messages) {
+				messages.push({
+					...node,
+					message: await storeInlineAttachments(
+						node.message,
+						ctx.session.user.id,
+					),
+				});
+			}
+
+			const id = await importConversation(ctx.session.user.id, {
+				...imported,
+				messages,
+			});
+			return { id };
+		}),
+
+	delete: protectedProcedure
+		.input(z.object({ id: z.string() }))
+		.mutation(async ({ ctx, input }) => {
+			await ctx.db
+				.delete(conversations)
+				.where(ownConversation(input.id, ctx.session.user));
+		}),
+});
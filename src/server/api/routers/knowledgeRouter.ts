@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+import { env } from "~/env";
+import {
+	deleteDocument,
+	listDocuments,
+	syncKnowledgeDirs,
+} from "~/server/knowledge";
+import { adminProcedure, createTRPCRouter, protectedProcedure } from "../trpc";
+
+// Uploads go through `/api/knowledge`, as they are files
+export const knowledgeRouter = createTRPCRouter({
+	list: protectedProcedure.query(async ({ ctx }) => ({
+		documents: await listDocuments(ctx.session.user),
+		canSync: ctx.session.user.role === "admin" && env.KNOWLEDGE_DIRS.length > 0,
+	})),
+
+	delete: protectedProcedure
+		.input(z.object({ id: z.string() }))
+		.mutation(async ({ ctx, input }) => {
+			await deleteDocument(ctx.session.user, input.id);
+		}),
+
+	// The knowledge directories are shared by everyone
+	sync: adminProcedure.mutation(() => syncKnowledgeDirs()),
+});
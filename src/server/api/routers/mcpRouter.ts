@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+import { getMcpStatus, reconnectMcpServer } from "~/app/api/chat/mcp";
+import { adminProcedure, createTRPCRouter, protectedProcedure } from "../trpc";
+
+export const mcpRouter = createTRPCRouter({
+	status: protectedProcedure.query(() => {
+		return getMcpStatus();
+	}),
+
+	// MCP servers are shared by everyone
+	reconnect: adminProcedure
+		.input(z.object({ name: z.string() }))
+		.mutation(async ({ input }) => {
+			await reconnectMcpServer(input.name);
+		}),
+});
@@ -1,8 +1,8 @@
-import { createTRPCRouter, publicProcedure } from "../trpc";
 import { generateProviders } from "~/app/api/chat/models";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
 
 export const modelRouter = createTRPCRouter({
-    list: publicProcedure.query(async ({ ctx }) => {
-        return generateProviders();
-    }),
+	list: protectedProcedure.query(async ({ ctx }) => {
+		return generateProviders();
+	}),
 });
@@ -0,0 +1,188 @@
+import { TRPCError } from "@trpc/server";
+import { generateId } from "ai";
+import { type SQL, and, asc, desc, eq, or } from "drizzle-orm";
+import { z } from "zod";
+
+import { getModelDef } from "~/app/api/chat/models";
+import { generationSettingsSchema } from "~/lib/generationSettings";
+import {
+	MAX_TEMPLATE_LENGTH,
+	type PromptTemplate,
+} from "~/lib/promptTemplates";
+import { type SessionUser, canAccess, ownedBy } from "~/server/auth/access";
+import { db } from "~/server/db";
+import { promptTemplateVersions, promptTemplates } from "~/server/db/schema";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+
+const templateInput = z.object({
+	name: z.string().trim().min(1).max(128),
+	description: z.string().trim().max(512).nullable(),
+	body: z.string().trim().min(1).max(MAX_TEMPLATE_LENGTH),
+	model: z.string().nullable(),
+	settings: generationSettingsSchema.nullable(),
+	shared: z.boolean(),
+});
+
+// Templates the user may use: their own and the shared ones
+const visibleTo = (user: SessionUser) =>
+	or(ownedBy(promptTemplates.userId, user), eq(promptTemplates.shared, true));
+
+// The template with the content of `version`, or of its latest version
+async function findTemplates(
+	user: SessionUser,
+	where: SQL | undefined,
+	version?: number,
+): Promise<PromptTemplate[]> {
+	const rows = await db
+		.select({
+			id: promptTemplates.id,
+			userId: promptTemplates.userId,
+			name: promptTemplates.name,
+			description: promptTemplates.description,
+			shared: promptTemplates.shared,
+			version: promptTemplateVersions.version,
+			body: promptTemplateVersions.body,
+			model: promptTemplateVersions.model,
+			settings: promptTemplateVersions.settings,
+		})
+		.from(promptTemplates)
+		.innerJoin(
+			promptTemplateVersions,
+			and(
+				eq(promptTemplateVersions.templateId, promptTemplates.id),
+				eq(promptTemplateVersions.version, version ?? promptTemplates.version),
+			),
+		)
+		.where(and(visibleTo(user), where))
+		.orderBy(asc(promptTemplates.name));
+
+	return rows.map(({ userId, ...template }) => ({
+		...template,
+		owned: canAccess(user, userId),
+	}));
+}
+
+function checkModel(model: string | null) {
+	if (model && !getModelDef(model)) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: `Unknown model "${model}"`,
+		});
+	}
+}
+
+export const promptRouter = createTRPCRouter({
+	list: protectedProcedure.query(({ ctx }) =>
+		findTemplates(ctx.session.user, undefined),
+	),
+
+	// A template as it was at `version`, e.g. for a prompt sent from an older one
+	get: protectedProcedure
+		.input(z.object({ id: z.string(), version: z.number().int().optional() }))
+		.query(async ({ ctx, input }) => {
+			const [template] = await findTemplates(
+				ctx.session.user,
+				eq(promptTemplates.id, input.id),
+				input.version,
+			);
+			if (!template) {
+				throw new TRPCError({ code: "NOT_FOUND" });
+			}
+
+			return template;
+		}),
+
+	versions: protectedProcedure
+		.input(z.object({ id: z.string() }))
+		.query(async ({ ctx, input }) => {
+			const template = await ctx.db.query.promptTemplates.findFirst({
+				where: and(
+					eq(promptTemplates.id, input.id),
+					visibleTo(ctx.session.user),
+				),
+				columns: { id: true },
+			});
+			if (!template) {
+				throw new TRPCError({ code: "NOT_FOUND" });
+			}
+
+			return ctx.db.query.promptTemplateVersions.findMany({
+				where: eq(promptTemplateVersions.templateId, template.id),
+				orderBy: [desc(promptTemplateVersions.version)],
+			});
+		}),
+
+	create: protectedProcedure
+		.input(templateInput)
+		.mutation(async ({ ctx, input }) => {
+			checkModel(input.model);
+			const { body, model, settings, ...template } = input;
+			const id = generateId();
+
+			await ctx.db.transaction(async (tx) => {
+				await tx
+					.insert(promptTemplates)
+					.values({ ...template, id, userId: ctx.session.user.id });
+				await tx
+					.insert(promptTemplateVersions)
+					.values({ templateId: id, version: 1, body, model, settings });
+			});
+
+			return { id, version: 1 };
+		}),
+
+	/**
+	 * Renames or (un)shares a template in place. A change to what it sends, its text, model or
+	 * settings, becomes a new version.
+	 */
+	update: protectedProcedure
+		.input(templateInput.extend({ id: z.string() }))
+		.mutation(async ({ ctx, input }) => {
+			checkModel(input.model);
+			const { id, body, model, settings, ...details } = input;
+
+			const [current] = await findTemplates(
+				ctx.session.user,
+				and(
+					eq(promptTemplates.id, id),
+					ownedBy(promptTemplates.userId, ctx.session.user),
+				),
+			);
+			if (!current) {
+				throw new TRPCError({ code: "NOT_FOUND" });
+			}
+
+			const changed =
+				body !== current.body ||
+				model !== current.model ||
+				JSON.stringify(settings) !== JSON.stringify(current.settings);
+			const version = changed ? current.version + 1 : current.version;
+
+			await ctx.db.transaction(async (tx) => {
+				if (changed) {
+					await tx
+						.insert(promptTemplateVersions)
+						.values({ templateId: id, version, body, model, settings });
+				}
+				await tx
+					.update(promptTemplates)
+					.set({ ...details, version })
+					.where(eq(promptTemplates.id, id));
+			});
+
+			return { id, version };
+		}),
+
+	delete: protectedProcedure
+		.input(z.object({ id: z.string() }))
+		.mutation(async ({ ctx, input }) => {
+			await ctx.db
+				.delete(promptTemplates)
+				.where(
+					and(
+						eq(promptTemplates.id, input.id),
+						ownedBy(promptTemplates.userId, ctx.session.user),
+					),
+				);
+		}),
+});
@@ -0,0 +1,11 @@
+import { connectMcpServers } from "~/app/api/chat/mcp";
+import { listTools } from "~/app/api/chat/tools";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+
+export const toolRouter = createTRPCRouter({
+	list: protectedProcedure.query(async () => {
+		// MCP servers add their tools to the registry once connected
+		await connectMcpServers();
+		return listTools();
+	}),
+});
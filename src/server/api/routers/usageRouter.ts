@@ -0,0 +1,57 @@
+import { and, eq, gte, isNotNull, lt, sql } from "drizzle-orm";
+import { z } from "zod";
+
+import { ownedBy } from "~/server/auth/access";
+import { conversations, messages } from "~/server/db/schema";
+import { createTRPCRouter, protectedProcedure } from "../trpc";
+
+export const usageRouter = createTRPCRouter({
+	/**
+	 * Token counts and cost per model and (UTC) day, most recent first. All branches count, since
+	 * regenerated answers were paid for too. Members see their own usage, admins everyone's.
+	 */
+	summary: protectedProcedure
+		.input(
+			z
+				.object({
+					from: z.date().optional(),
+					to: z.date().optional(),
+					conversationId: z.string().optional(),
+				})
+				.optional(),
+		)
+		.query(async ({ ctx, input }) => {
+			const day = sql<string>`to_char(${messages.createdAt} at time zone 'UTC', 'YYYY-MM-DD')`;
+
+			const rows = await ctx.db
+				.select({
+					day,
+					model: messages.model,
+					messages: sql<number>`count(*)::int`,
+					promptTokens: sql<number>`sum(${messages.promptTokens})::int`,
+					completionTokens: sql<number>`sum(${messages.completionTokens})::int`,
+					reasoningTokens: sql<number>`sum(${messages.reasoningTokens})::int`,
+					cachedPromptTokens: sql<number>`sum(${messages.cachedPromptTokens})::int`,
+					cost: sql<number>`sum(${messages.cost})::float`,
+				})
+				.from(messages)
+				.innerJoin(conversations, eq(messages.conversationId, conversations.id))
+				.where(
+					and(
+						ctx.session.user.role === "admin"
+							? undefined
+							: ownedBy(conversations.userId, ctx.session.user),
+						isNotNull(messages.cost),
+						input?.from ? gte(messages.createdAt, input.from) : undefined,
+						input?.to ? lt(messages.createdAt, input.to) : undefined,
+						input?.conversationId
+							? eq(messages.conversationId, input.conversationId)
+							: undefined,
+					),
+				)
+				.groupBy(day, messages.model)
+				.orderBy(sql`1 desc`, messages.model);
+
+			return rows;
+		}),
+});
@@ -0,0 +1,185 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { type Attachment, type UIMessage, createIdGenerator } from "ai";
+import { eq } from "drizzle-orm";
+
+import { env } from "~/env";
+import {
+	ATTACHMENT_URL_PREFIX,
+	MAX_ATTACHMENT_BYTES,
+	getAttachmentId,
+	getAttachmentKind,
+} from "~/lib/attachments";
+import type { ExportedFile } from "~/lib/conversationExport";
+import { type SessionUser, canAccess } from "./auth/access";
+import { db } from "./db";
+import { attachments } from "./db/schema";
+
+const generateAttachmentId = createIdGenerator({ prefix: "file", size: 16 });
+
+// Ids are generated here, but they arrive back in URLs; never let one name a path outside the store
+const ATTACHMENT_ID = /^file-[a-zA-Z0-9]+$/;
+
+export type StoredAttachment = typeof attachments.$inferSelect & {
+	url: string;
+};
+
+const getPath = (id: string) => path.resolve(env.ATTACHMENT_DIR, id);
+
+const withUrl = (row: typeof attachments.$inferSelect): StoredAttachment => ({
+	...row,
+	url: `${ATTACHMENT_URL_PREFIX}${row.id}`,
+});
+
+/**
+ * Stores an uploaded file on the local filesystem and records its name, type and owner.
+ */
+export async function saveAttachment(file: {
+	userId: string;
+	name: string;
+	contentType: string;
+	data: Uint8Array;
+}): Promise<StoredAttachment> {
+	const id = generateAttachmentId();
+
+	await mkdir(env.ATTACHMENT_DIR, { recursive: true });
+	await writeFile(getPath(id), file.data);
+
+	const [row] = await db
+		.insert(attachments)
+		.values({
+			id,
+			userId: file.userId,
+			name: file.name.slice(0, 256),
+			contentType: file.contentType,
+			size: file.data.byteLength,
+		})
+		.returning();
+
+	if (!row) {
+		throw new Error("Failed to save the attachment");
+	}
+	return withUrl(row);
+}
+
+/**
+ * The metadata of an uploaded file, without reading the file, or `undefined` if there is no such
+ * file or it isn't `user`'s.
+ */
+export async function findAttachment(
+	id: string,
+	user: SessionUser,
+): Promise<StoredAttachment | undefined> {
+	if (!ATTACHMENT_ID.test(id)) {
+		return undefined;
+	}
+
+	const row = await db.query.attachments.findFirst({
+		where: eq(attachments.id, id),
+	});
+	return row && canAccess(user, row.userId) ? withUrl(row) : undefined;
+}
+
+/**
+ * Loads an uploaded file with its metadata, or `undefined` if there is no such file or it isn't
+ * `user`'s.
+ */
+export async function loadAttachment(
+	id: string,
+	user: SessionUser,
+): Promise<(StoredAttachment & { data: Buffer }) | undefined> {
+	const stored = await findAttachment(id, user);
+	if (!stored) {
+		return undefined;
+	}
+
+	try {
+		return { ...stored, data: await readFile(getPath(id)) };
+	} catch {
+		// The record outlived its file, e.g. after the store directory was cleared
+		return undefined;
+	}
+}
+
+/**
+ * Removes an uploaded file and its record, for callers that have checked it is theirs to remove.
+ */
+export async function deleteAttachment(id: string) {
+	await db.delete(attachments).where(eq(attachments.id, id));
+	await rm(getPath(id), { force: true });
+}
+
+/**
+ * The uploaded files the messages attach, keyed by the URL they are referenced by, for a
+ * self-contained export. Files that are gone are left out.
+ */
+export async function loadAttachmentFiles(
+	messages: UIMessage[],
+	user: SessionUser,
+): Promise<Record<string, ExportedFile>> {
+	const files: Record<string, ExportedFile> = {};
+
+	for (const message of messages) {
+		for (const attachment of message.experimental_attachments ?? []) {
+			const id = getAttachmentId(attachment);
+			const stored =
+				id && !files[attachment.url] && (await loadAttachment(id, user));
+			if (stored) {
+				files[attachment.url] = {
+					name: stored.name,
+					contentType: stored.contentType,
+					data: stored.data.toString("base64"),
+				};
+			}
+		}
+	}
+
+	return files;
+}
+
+/**
+ * Uploads the attachments an import carries inline as data URLs, so its messages reference them
+ * like any other upload, owned by `userId`. Files we don't accept are dropped from the message.
+ */
+export async function storeInlineAttachments(
+	message: UIMessage,
+	userId: string,
+): Promise<UIMessage> {
+	if (!message.experimental_attachments) {
+		return message;
+	}
+
+	const attachments: Attachment[] = [];
+	for (const attachment of message.experimental_attachments) {
+		const match = /^data:([^;,]+)(;base64)?,(.*)$/s.exec(attachment.url);
+		if (!match) {
+			attachments.push(attachment);
+			continue;
+		}
+
+		const [, contentType = "", base64, content = ""] = match;
+		const data = base64
+			? Buffer.from(content, "base64")
+			: Buffer.from(decodeURIComponent(content));
+		if (
+			!getAttachmentKind(contentType) ||
+			data.byteLength > MAX_ATTACHMENT_BYTES
+		) {
+			continue;
+		}
+
+		const stored = await saveAttachment({
+			userId,
+			name: attachment.name ?? "attachment",
+			contentType,
+			data,
+		});
+		attachments.push({
+			name: stored.name,
+			contentType: stored.contentType,
+			url: stored.url,
+		});
+	}
+
+	return { ...message, experimental_attachments: attachments };
+}
@@ -0,0 +1,19 @@
+import { type Column, eq, isNull, or } from "drizzle-orm";
+import type { Session } from "next-auth";
+
+export type SessionUser = Session["user"];
+
+/**
+ * Whether `user` may use something owned by `ownerId`. Everyone owns their own; data from before
+ * accounts existed has no owner and is left to admins.
+ */
+export const canAccess = (user: SessionUser, ownerId: string | null) =>
+	ownerId === user.id || (ownerId === null && user.role === "admin");
+
+/**
+ * `canAccess` as a query condition on an owner column.
+ */
+export const ownedBy = (column: Column, user: SessionUser) =>
+	user.role === "admin"
+		? or(eq(column, user.id), isNull(column))
+		: eq(column, user.id);
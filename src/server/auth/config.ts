@@ -0,0 +1,131 @@
+import { DrizzleAdapter } from "@auth/drizzle-adapter";
+import { eq } from "drizzle-orm";
+import type { DefaultSession, NextAuthConfig } from "next-auth";
+import type { Provider } from "next-auth/providers";
+import Credentials from "next-auth/providers/credentials";
+import GitHub from "next-auth/providers/github";
+import { z } from "zod";
+
+import { env } from "~/env";
+import { db } from "~/server/db";
+import {
+	type Role,
+	accounts,
+	sessions,
+	users,
+	verificationTokens,
+} from "~/server/db/schema";
+
+/**
+ * Module augmentation for `next-auth` types. Allows us to add custom properties to the `session`
+ * object and keep type safety.
+ *
+ * @see https://next-auth.js.org/getting-started/typescript#module-augmentation
+ */
+declare module "next-auth" {
+	interface Session extends DefaultSession {
+		user: {
+			id: string;
+			role: Role;
+		} & DefaultSession["user"];
+	}
+}
+
+const devLoginSchema = z.object({
+	email: z.string().email(),
+});
+
+// Signs in as whoever you say you are, creating the account on first use
+const devLogin = Credentials({
+	id: "dev",
+	name: "Dev login",
+	credentials: {
+		email: { label: "Email", type: "email", placeholder: "you@example.com" },
+	},
+	authorize: async (credentials) => {
+		const parsed = devLoginSchema.safeParse(credentials);
+		if (!parsed.success) {
+			return null;
+		}
+
+		const email = parsed.data.email.toLowerCase();
+		const [user] = await db
+			.insert(users)
+			.values({ email, name: email.split("@")[0] })
+			.onConflictDoUpdate({ target: users.email, set: { email } })
+			.returning();
+
+		return user ?? null;
+	},
+});
+
+const providers: Provider[] = [];
+if (env.AUTH_GITHUB_ID && env.AUTH_GITHUB_SECRET) {
+	providers.push(
+		GitHub({
+			clientId: env.AUTH_GITHUB_ID,
+			clientSecret: env.AUTH_GITHUB_SECRET,
+		}),
+	);
+}
+if (env.AUTH_DEV_LOGIN) {
+	providers.push(devLogin);
+}
+
+/**
+ * The user's current role, promoting them to admin if their email is in `ADMIN_EMAILS`. Looked up
+ * on every session check, so role changes apply without signing in again.
+ */
+async function getRole(userId: string): Promise<Role | undefined> {
+	const user = await db.query.users.findFirst({
+		where: eq(users.id, userId),
+		columns: { email: true, role: true },
+	});
+	if (!user) {
+		return undefined;
+	}
+
+	// `ADMIN_EMAILS` is lowercased, and providers don't agree on the case of addresses
+	if (
+		user.role !== "admin" &&
+		env.ADMIN_EMAILS.includes(user.email.toLowerCase())
+	) {
+		await db.update(users).set({ role: "admin" }).where(eq(users.id, userId));
+		return "admin";
+	}
+	return user.role;
+}
+
+/**
+ * Options for NextAuth.js used to configure adapters, providers, callbacks, etc.
+ *
+ * Sessions are JWTs, as the dev login's credentials provider doesn't support database sessions;
+ * OAuth users are still stored through the adapter.
+ *
+ * @see https://next-auth.js.org/configuration/options
+ */
+export const authConfig = {
+	providers,
+	adapter: DrizzleAdapter(db, {
+		usersTable: users,
+		accountsTable: accounts,
+		sessionsTable: sessions,
+		verificationTokensTable: verificationTokens,
+	}),
+	session: { strategy: "jwt" },
+	callbacks: {
+		jwt: async ({ token }) => {
+			// A deleted user's token stops working
+			const role = token.sub ? await getRole(token.sub) : undefined;
+			return role ? { ...token, role } : null;
+		},
+		session: ({ session, token }) => ({
+			...session,
+			user: {
+				...session.user,
+				id: token.sub as string,
+				role: token.role as Role,
+			},
+		}),
+	},
+} satisfies NextAuthConfig;
@@ -0,0 +1,42 @@
+import type { UIMessage } from "ai";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+import { db } from "~/server/db";
+import {
+	MessageConflictError,
+	loadMessages,
+	saveMessages,
+} from "./conversations";
+import { users } from "./schema";
+
+vi.mock("~/server/db", async () => ({
+	db: await (await import("~/server/db/testing")).createTestDb(),
+}));
+
+const message = (id: string, text: string): UIMessage => ({
+	id,
+	role: "user",
+	content: text,
+	parts: [{ type: "text", text }],
+});
+
+beforeAll(async () => {
+	await db.insert(users).values([
+		{ id: "owner", email: "owner@example.com" },
+		{ id: "other", email: "other@example.com" },
+	]);
+});
+
+describe("saveMessages", () => {
+	it("leaves the messages of another conversation alone", async () => {
+		await saveMessages("owner", "conversation-1", [message("m-1", "Mine")]);
+
+		await expect(
+			saveMessages("other", "conversation-2", [message("m-1", "Taken")]),
+		).rejects.toThrow(MessageConflictError);
+
+		const [stored] = await loadMessages("conversation-1");
+		expect(stored?.message.content).toBe("Mine");
+		expect(await loadMessages("conversation-2")).toEqual([]);
+	});
+});
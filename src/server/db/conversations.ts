@@ -0,0 +1,228 @@
+import { type UIMessage, generateId } from "ai";
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+
+import type { ImportedConversation } from "~/lib/conversationImport";
+import type { GenerationSettings } from "~/lib/generationSettings";
+import type { MessageNode } from "~/lib/messageTree";
+import { getMessageText, getModelAnnotation } from "~/lib/messages";
+import { type UsageAnnotation, getMessageUsage, splitUsage } from "~/lib/usage";
+import { type SessionUser, canAccess } from "~/server/auth/access";
+import { db } from "./index";
+import { conversations, messages } from "./schema";
+
+/**
+ * Loads every message of a conversation, all branches included, in creation order.
+ */
+export async function loadMessages(
+	conversationId: string,
+): Promise<MessageNode[]> {
+	const rows = await db.query.messages.findMany({
+		where: eq(messages.conversationId, conversationId),
+		orderBy: [asc(messages.createdAt)],
+	});
+
+	return rows.map((row) => ({
+		// JSONB turns dates into strings, the column keeps the real one
+		message: { ...row.message, createdAt: row.createdAt },
+		parentId: row.parentId,
+	}));
+}
+
+/**
+ * Whether `user` may continue the conversation: it is theirs, or hasn't been stored yet.
+ */
+export async function canUseConversation(
+	conversationId: string,
+	user: SessionUser,
+): Promise<boolean> {
+	const conversation = await db.query.conversations.findFirst({
+		where: eq(conversations.id, conversationId),
+		columns: { userId: true },
+	});
+
+	return !conversation || canAccess(user, conversation.userId);
+}
+
+/**
+ * A message sent as part of one conversation that is stored with another. Ids come from the
+ * client, so they can't be trusted to be new.
+ */
+export class MessageConflictError extends Error {}
+
+function toMessageRow(
+	conversationId: string,
+	message: UIMessage,
+	parentId: string | null,
+) {
+	const usage = getMessageUsage(message);
+
+	return {
+		conversationId,
+		parentId,
+		role: message.role,
+		model: getModelAnnotation(message) ?? null,
+		content: getMessageText(message),
+		message,
+		promptTokens: usage?.promptTokens ?? null,
+		completionTokens: usage?.completionTokens ?? null,
+		reasoningTokens: usage?.reasoningTokens ?? null,
+		cachedPromptTokens: usage?.cachedPromptTokens ?? null,
+		cost: usage?.cost ?? null,
+		createdAt: message.createdAt ? new Date(message.createdAt) : new Date(),
+	};
+}
+
+/**
+ * Stores the branch `path` of a conversation, creating the conversation if it doesn't exist yet.
+ * Each message is upserted with the message before it as its parent; messages on other branches
+ * are left alone, so regenerated answers and edited prompts become siblings. The end of the path
+ * becomes the conversation's active branch, and `settings`, when given, its generation settings.
+ * A new conversation belongs to `userId`.
+ *
+ * The path comes from the client, so its usage annotations are ignored: messages keep the usage
+ * stored with them, and the last one gains `usage`, what generating it was measured at. A message
+ * of another conversation is never touched; it fails the save with a `MessageConflictError`.
+ */
+export async function saveMessages(
+	userId: string,
+	conversationId: string,
+	path: UIMessage[],
+	{
+		settings,
+		usage,
+	}: { settings?: GenerationSettings; usage?: UsageAnnotation } = {},
+) {
+	const activeLeafId = path.at(-1)?.id ?? null;
+
+	await db.transaction(async (tx) => {
+		await tx
+			.insert(conversations)
+			.values({ id: conversationId, userId, activeLeafId, settings })
+			.onConflictDoUpdate({
+				target: conversations.id,
+				set: { activeLeafId, settings, updatedAt: new Date() },
+			});
+
+		const stored = await tx.query.messages.findMany({
+			where: inArray(
+				messages.id,
+				path.map(({ id }) => id),
+			),
+			columns: { id: true, conversationId: true, message: true },
+		});
+		const foreign = stored.find((row) => row.conversationId !== conversationId);
+		if (foreign) {
+			throw new MessageConflictError(
+				`Message ${foreign.id} belongs to another conversation`,
+			);
+		}
+		const storedUsage = new Map(
+			stored.map((row) => [row.id, splitUsage(row.message).usage]),
+		);
+
+		for (const [index, sent] of path.entries()) {
+			const { message } = splitUsage(sent);
+			const measured = [
+				...(storedUsage.get(message.id) ?? []),
+				...(usage && index === path.length - 1 ? [usage] : []),
+			];
+			const row = toMessageRow(
+				conversationId,
+				measured.length > 0
+					? {
+							...message,
+							annotations: [...(message.annotations ?? []), ...measured],
+						}
+					: message,
+				path[index - 1]?.id ?? null,
+			);
+
+			await tx
+				.insert(messages)
+				.values({ id: message.id, ...row })
+				.onConflictDoUpdate({
+					target: messages.id,
+					set: row,
+					// Should one have been stored elsewhere since the check, it fails the insert
+					where: eq(messages.conversationId, conversationId),
+				});
+		}
+	});
+}
+
+/**
+ * The conversation's name and summary, with the last message the summary covers.
+ */
+export async function loadDigest(conversationId: string) {
+	return db.query.conversations.findFirst({
+		where: eq(conversations.id, conversationId),
+		columns: { name: true, summary: true, summaryMessageId: true },
+	});
+}
+
+/**
+ * Names a conversation, unless it was named (e.g. renamed by the user) in the meantime.
+ */
+export async function saveTitle(conversationId: string, title: string) {
+	await db
+		.update(conversations)
+		.set({ name: title })
+		.where(
+			and(eq(conversations.id, conversationId), isNull(conversations.name)),
+		);
+}
+
+/**
+ * Stores the summary of a branch of the conversation, up to and including `messageId`.
+ */
+export async function saveSummary(
+	conversationId: string,
+	summary: string,
+	messageId: string,
+) {
+	await db
+		.update(conversations)
+		.set({ summary, summaryMessageId: messageId })
+		.where(eq(conversations.id, conversationId));
+}
+
+/**
+ * Creates a conversation from imported messages, all branches at once. Messages get fresh ids, so
+ * the same export can be imported any number of times; parents and the active branch follow.
+ * Returns the new conversation's id.
+ */
+export async function importConversation(
+	userId: string,
+	conversation: ImportedConversation,
+): Promise<string> {
+	const conversationId = generateId();
+	const ids = new Map(
+		conversation.messages.map(({ message }) => [message.id, generateId()]),
+	);
+	const newId = (id: string | null) => (id ? (ids.get(id) ?? null) : null);
+
+	await db.transaction(async (tx) => {
+		await tx.insert(conversations).values({
+			id: conversationId,
+			userId,
+			name: conversation.name,
+			settings: conversation.settings,
+			activeLeafId: newId(conversation.activeLeafId),
+		});
+
+		// The usage of an imported conversation can't be checked, so it isn't carried over
+		for (const { message, parentId } of conversation.messages) {
+			const id = newId(message.id) as string;
+			await tx.insert(messages).values({
+				id,
+				...toMessageRow(
+					conversationId,
+					{ ...splitUsage(message).message, id },
+					newId(parentId),
+				),
+			});
+		}
+	});
+
+	return conversationId;
+}
@@ -1,8 +1,19 @@
-// Example model schema from the Drizzle docs
+// Model schema declarations
 // https://orm.drizzle.team/docs/sql-schema-declaration
 
+import type { UIMessage } from "ai";
 import { sql } from "drizzle-orm";
-import { index, pgTableCreator } from "drizzle-orm/pg-core";
+import {
+	customType,
+	index,
+	pgTableCreator,
+	primaryKey,
+	uniqueIndex,
+} from "drizzle-orm/pg-core";
+import type { AdapterAccount } from "next-auth/adapters";
+import type { GenerationSettings } from "~/lib/generationSettings";
+import { EMBEDDING_DIMENSIONS, type KnowledgeFileType } from "~/lib/knowledge";
+import type { LimitMetric } from "~/lib/rateLimits";
 
 /**
  * This is an example of how to use the multi-project schema feature of Drizzle ORM. Use the same
@@ -12,16 +23,398 @@ import { index, pgTableCreator } from "drizzle-orm/pg-core";
  */
 export const createTable = pgTableCreator((name) => `chatbot-next_${name}`);
 
-export const posts = createTable(
-	"post",
+export const roles = ["admin", "member"] as const;
+export type Role = (typeof roles)[number];
+
+export const users = createTable("user", (d) => ({
+	id: d
+		.varchar({ length: 255 })
+		.notNull()
+		.primaryKey()
+		.$defaultFn(() => crypto.randomUUID()),
+	name: d.varchar({ length: 255 }),
+	email: d.varchar({ length: 255 }).notNull().unique(),
+	emailVerified: d
+		.timestamp({ mode: "date", withTimezone: true })
+		.default(sql`CURRENT_TIMESTAMP`),
+	image: d.varchar({ length: 255 }),
+	role: d.varchar({ length: 16 }).$type<Role>().notNull().default("member"),
+}));
+
+export const accounts = createTable(
+	"account",
+	(d) => ({
+		userId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		type: d.varchar({ length: 255 }).$type<AdapterAccount["type"]>().notNull(),
+		provider: d.varchar({ length: 255 }).notNull(),
+		providerAccountId: d.varchar({ length: 255 }).notNull(),
+		refresh_token: d.text(),
+		access_token: d.text(),
+		expires_at: d.integer(),
+		token_type: d.varchar({ length: 255 }),
+		scope: d.varchar({ length: 255 }),
+		id_token: d.text(),
+		session_state: d.varchar({ length: 255 }),
+	}),
+	(t) => [
+		primaryKey({ columns: [t.provider, t.providerAccountId] }),
+		index("account_user_id_idx").on(t.userId),
+	],
+);
+
+export const sessions = createTable(
+	"session",
+	(d) => ({
+		sessionToken: d.varchar({ length: 255 }).notNull().primaryKey(),
+		userId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		expires: d.timestamp({ mode: "date", withTimezone: true }).notNull(),
+	}),
+	(t) => [index("session_user_id_idx").on(t.userId)],
+);
+
+export const verificationTokens = createTable(
+	"verification_token",
+	(d) => ({
+		identifier: d.varchar({ length: 255 }).notNull(),
+		token: d.varchar({ length: 255 }).notNull(),
+		expires: d.timestamp({ mode: "date", withTimezone: true }).notNull(),
+	}),
+	(t) => [primaryKey({ columns: [t.identifier, t.token] })],
+);
+
+export const conversations = createTable(
+	"conversation",
 	(d) => ({
-		id: d.integer().primaryKey().generatedByDefaultAsIdentity(),
+		id: d.varchar({ length: 64 }).primaryKey(),
+		// Null for conversations from before accounts, which only admins can see
+		userId: d
+			.varchar({ length: 255 })
+			.references(() => users.id, { onDelete: "cascade" }),
 		name: d.varchar({ length: 256 }),
+		// Written in the background by the summary model, see `~/app/api/chat/summaries`
+		summary: d.text(),
+		// Last message `summary` covers; it is rewritten once its branch has grown enough
+		summaryMessageId: d.varchar({ length: 64 }),
+		// Last message of the branch that was shown most recently
+		activeLeafId: d.varchar({ length: 64 }),
+		settings: d.jsonb().$type<GenerationSettings>().notNull().default({}),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		updatedAt: d.timestamp({ withTimezone: true }).$onUpdate(() => new Date()),
+	}),
+	(t) => [
+		index("conversation_updated_at_idx").on(t.updatedAt),
+		index("conversation_user_idx").on(t.userId),
+	],
+);
+
+const tsvector = customType<{ data: string }>({
+	dataType: () => "tsvector",
+});
+
+// What full-text search looks at besides the message text, straight from the stored `UIMessage`
+export const REASONING_PATH = `$.parts[*] ? (@.type == "reasoning").reasoning`;
+export const TOOL_RESULT_PATH = `$.parts[*] ? (@.type == "tool-invocation").toolInvocation.result`;
+
+/**
+ * Messages are stored as the full `UIMessage` the client sees, parts and annotations included, so
+ * reasoning details and tool invocations survive a reload untouched. `model`, `content` and the
+ * token counts are denormalized copies for listing and querying without unpacking the JSON.
+ *
+ * `parentId` makes a conversation a tree: edited user messages and regenerated answers are stored
+ * as siblings of the message they replace.
+ */
+export const messages = createTable(
+	"message",
+	(d) => ({
+		id: d.varchar({ length: 64 }).primaryKey(),
+		conversationId: d
+			.varchar({ length: 64 })
+			.notNull()
+			.references(() => conversations.id, { onDelete: "cascade" }),
+		parentId: d.varchar({ length: 64 }),
+		role: d.varchar({ length: 16 }).$type<UIMessage["role"]>().notNull(),
+		model: d.varchar({ length: 128 }),
+		content: d.text().notNull().default(""),
+		message: d.jsonb().$type<UIMessage>().notNull(),
+		// Totals of the message's usage annotations; null for user messages
+		promptTokens: d.integer(),
+		completionTokens: d.integer(),
+		reasoningTokens: d.integer(),
+		cachedPromptTokens: d.integer(),
+		// USD
+		cost: d.doublePrecision(),
+		// Weighted by source, so search can leave sources out with `ts_filter`: A is the message text,
+		// B its reasoning, C its tool results. Computed from the columns above, old rows included
+		searchVector: tsvector().generatedAlwaysAs(
+			sql.raw(`setweight(to_tsvector('english', "content"), 'A')
+				|| setweight(jsonb_to_tsvector('english', jsonb_path_query_array("message", '${REASONING_PATH}'), '["string"]'), 'B')
+				|| setweight(jsonb_to_tsvector('english', jsonb_path_query_array("message", '${TOOL_RESULT_PATH}'), '["string", "numeric"]'), 'C')`),
+		),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	}),
+	(t) => [
+		index("message_conversation_idx").on(t.conversationId, t.createdAt),
+		index("message_parent_idx").on(t.parentId),
+		index("message_search_idx").using("gin", t.searchVector),
+	],
+);
+
+/**
+ * A compare-mode pick: several models answered the same prompt (the answers are siblings in the
+ * message tree) and the user continued with `winnerMessageId`. The models are copied from the
+ * answers, so the record outlives edits to the conversation.
+ */
+export const comparisons = createTable(
+	"comparison",
+	(d) => ({
+		id: d.varchar({ length: 64 }).primaryKey(),
+		userId: d
+			.varchar({ length: 255 })
+			.references(() => users.id, { onDelete: "cascade" }),
+		conversationId: d
+			.varchar({ length: 64 })
+			.notNull()
+			.references(() => conversations.id, { onDelete: "cascade" }),
+		promptMessageId: d.varchar({ length: 64 }).notNull(),
+		winnerMessageId: d.varchar({ length: 64 }).notNull(),
+		winnerModel: d.varchar({ length: 128 }),
+		candidates: d
+			.jsonb()
+			.$type<{ messageId: string; model: string | null }[]>()
+			.notNull(),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	}),
+	(t) => [
+		index("comparison_user_idx").on(t.userId),
+		index("comparison_winner_model_idx").on(t.winnerModel),
+	],
+);
+
+/**
+ * Files uploaded from the composer. The content lives in the attachment store on disk (see
+ * `~/server/attachments`); messages reference it by URL.
+ */
+export const attachments = createTable("attachment", (d) => ({
+	id: d.varchar({ length: 64 }).primaryKey(),
+	// Who uploaded it; only they can read it
+	userId: d
+		.varchar({ length: 255 })
+		.references(() => users.id, { onDelete: "cascade" }),
+	name: d.varchar({ length: 256 }).notNull(),
+	contentType: d.varchar({ length: 128 }).notNull(),
+	size: d.integer().notNull(),
+	createdAt: d
+		.timestamp({ withTimezone: true })
+		.default(sql`CURRENT_TIMESTAMP`)
+		.notNull(),
+}));
+
+/**
+ * Rate limit counters, one per user, limit scope, metric and window (see `~/server/limits`). The
+ * window is identified by when it ends; rows of ended windows are cleared as new ones are written.
+ */
+export const usageCounters = createTable(
+	"usage_counter",
+	(d) => ({
+		userId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		scope: d.varchar({ length: 64 }).notNull(),
+		metric: d.varchar({ length: 16 }).$type<LimitMetric>().notNull(),
+		resetsAt: d.timestamp({ withTimezone: true }).notNull(),
+		amount: d.doublePrecision().notNull().default(0),
+	}),
+	(t) => [
+		primaryKey({ columns: [t.userId, t.scope, t.metric, t.resetsAt] }),
+		index("usage_counter_resets_idx").on(t.resetsAt),
+	],
+);
+
+// `cancelling` until the generation has stopped; the others after `streaming` are final
+export const streamStatuses = [
+	"streaming",
+	"cancelling",
+	"done",
+	"cancelled",
+	"error",
+] as const;
+export type StreamStatus = (typeof streamStatuses)[number];
+
+/**
+ * An answer being generated, buffered so a client can reattach to it after a reload (see
+ * `~/server/streams`). `messageId` is the message being answered: the prompt, or the assistant
+ * message a tool approval continues. Streams are cleared a day after they started.
+ */
+export const streams = createTable(
+	"stream",
+	(d) => ({
+		id: d.varchar({ length: 64 }).primaryKey(),
+		conversationId: d
+			.varchar({ length: 64 })
+			.notNull()
+			.references(() => conversations.id, { onDelete: "cascade" }),
+		userId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		messageId: d.varchar({ length: 64 }).notNull(),
+		status: d
+			.varchar({ length: 16 })
+			.$type<StreamStatus>()
+			.notNull()
+			.default("streaming"),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	}),
+	(t) => [
+		index("stream_message_idx").on(t.messageId),
+		index("stream_created_at_idx").on(t.createdAt),
+	],
+);
+
+/**
+ * The data stream parts of a stream, in order.
+ */
+export const streamChunks = createTable(
+	"stream_chunk",
+	(d) => ({
+		streamId: d
+			.varchar({ length: 64 })
+			.notNull()
+			.references(() => streams.id, { onDelete: "cascade" }),
+		index: d.integer().notNull(),
+		content: d.text().notNull(),
+	}),
+	(t) => [primaryKey({ columns: [t.streamId, t.index] })],
+);
+
+/**
+ * Reusable prompts with `{{variable}}` placeholders (see `~/lib/promptTemplates`). Shared templates
+ * are listed for everyone; only the owner edits them. The content lives in versions, so a prompt
+ * sent from a template can always be traced to the text it was sent with.
+ */
+export const promptTemplates = createTable(
+	"prompt_template",
+	(d) => ({
+		id: d.varchar({ length: 64 }).primaryKey(),
+		userId: d
+			.varchar({ length: 255 })
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		name: d.varchar({ length: 128 }).notNull(),
+		description: d.varchar({ length: 512 }),
+		shared: d.boolean().notNull().default(false),
+		// The latest of its versions
+		version: d.integer().notNull().default(1),
 		createdAt: d
 			.timestamp({ withTimezone: true })
 			.default(sql`CURRENT_TIMESTAMP`)
 			.notNull(),
 		updatedAt: d.timestamp({ withTimezone: true }).$onUpdate(() => new Date()),
 	}),
-	(t) => [index("name_idx").on(t.name)],
+	(t) => [
+		index("prompt_template_user_idx").on(t.userId),
+		index("prompt_template_shared_idx").on(t.shared),
+	],
+);
+
+/**
+ * What a template said at each of its versions. Versions are never changed, only added.
+ */
+export const promptTemplateVersions = createTable(
+	"prompt_template_version",
+	(d) => ({
+		templateId: d
+			.varchar({ length: 64 })
+			.notNull()
+			.references(() => promptTemplates.id, { onDelete: "cascade" }),
+		version: d.integer().notNull(),
+		body: d.text().notNull(),
+		// Catalog model and settings a prompt from the template is best sent with, if any
+		model: d.varchar({ length: 128 }),
+		settings: d.jsonb().$type<GenerationSettings>(),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+	}),
+	(t) => [primaryKey({ columns: [t.templateId, t.version] })],
+);
+
+/**
+ * Documents in the knowledge base (see `~/server/knowledge`): uploads, which only their owner's
+ * answers draw on, and the files of the knowledge directories, which everyone's do. An upload keeps
+ * its file in the attachment store, for the sources under an answer to link to.
+ */
+export const knowledgeDocuments = createTable(
+	"knowledge_document",
+	(d) => ({
+		id: d.varchar({ length: 64 }).primaryKey(),
+		// Null for the files of the knowledge directories
+		userId: d
+			.varchar({ length: 255 })
+			.references(() => users.id, { onDelete: "cascade" }),
+		name: d.varchar({ length: 256 }).notNull(),
+		// Where the file is, for the files of the knowledge directories
+		path: d.varchar({ length: 1024 }),
+		attachmentId: d
+			.varchar({ length: 64 })
+			.references(() => attachments.id, { onDelete: "set null" }),
+		type: d.varchar({ length: 16 }).$type<KnowledgeFileType>().notNull(),
+		// SHA-256 of the file, so a sync skips the files that haven't changed
+		hash: d.varchar({ length: 64 }).notNull(),
+		createdAt: d
+			.timestamp({ withTimezone: true })
+			.default(sql`CURRENT_TIMESTAMP`)
+			.notNull(),
+		updatedAt: d.timestamp({ withTimezone: true }).$onUpdate(() => new Date()),
+	}),
+	(t) => [
+		index("knowledge_document_user_idx").on(t.userId),
+		uniqueIndex("knowledge_document_path_idx").on(t.path),
+	],
+);
+
+/**
+ * The pieces documents are split into, each embedded on its own (needs the pgvector extension).
+ * `embedder` says which embedder the vector is from, as only vectors of the same one compare.
+ */
+export const knowledgeChunks = createTable(
+	"knowledge_chunk",
+	(d) => ({
+		documentId: d
+			.varchar({ length: 64 })
+			.notNull()
+			.references(() => knowledgeDocuments.id, { onDelete: "cascade" }),
+		index: d.integer().notNull(),
+		heading: d.text(),
+		content: d.text().notNull(),
+		embedder: d.varchar({ length: 64 }).notNull(),
+		embedding: d.vector({ dimensions: EMBEDDING_DIMENSIONS }).notNull(),
+	}),
+	(t) => [
+		primaryKey({ columns: [t.documentId, t.index] }),
+		index("knowledge_chunk_embedding_idx").using(
+			"hnsw",
+			t.embedding.op("vector_cosine_ops"),
+		),
+	],
 );
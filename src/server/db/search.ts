@@ -0,0 +1,104 @@
+import type { UIMessage } from "ai";
+import { type SQL, and, desc, eq, gte, like, lte, sql } from "drizzle-orm";
+
+import { HIGHLIGHT_END, HIGHLIGHT_START } from "~/lib/search";
+import { type SessionUser, ownedBy } from "~/server/auth/access";
+import { db } from "./index";
+import {
+	REASONING_PATH,
+	TOOL_RESULT_PATH,
+	conversations,
+	messages,
+} from "./schema";
+
+export type SearchFilters = {
+	query: string;
+	// Whose conversations are searched
+	user: SessionUser;
+	// A catalog model id, e.g. `openai:smart`. Like `provider`, it only matches assistant messages
+	model?: string;
+	provider?: string;
+	role?: UIMessage["role"];
+	from?: Date;
+	to?: Date;
+	includeReasoning?: boolean;
+	includeToolResults?: boolean;
+	limit?: number;
+};
+
+export type SearchResult = {
+	conversationId: string;
+	conversationName: string | null;
+	messageId: string;
+	role: UIMessage["role"];
+	model: string | null;
+	createdAt: Date;
+	snippet: string;
+	rank: number;
+};
+
+// The strings and numbers at (or anywhere below) a JSON path of the stored message, joined for
+// `ts_headline`
+const textAt = (path: string) =>
+	sql`coalesce((select string_agg(value #>> '{}', ' ') from jsonb_array_elements(jsonb_path_query_array(${messages.message}, ${`strict ${path}.** ? (@.type() == "string" || @.type() == "number")`}::jsonpath))), '')`;
+
+/**
+ * Full-text search over the messages of the user's conversations, best matches first. The query takes
+ * web search syntax (`"exact phrase"`, `or`, `-excluded`). Message text is always searched; the
+ * reasoning and tool results only when asked for.
+ */
+export async function searchMessages(
+	filters: SearchFilters,
+): Promise<SearchResult[]> {
+	const query = sql`websearch_to_tsquery('english', ${filters.query})`;
+
+	// Weights of the searched sources, see `messages.searchVector`
+	const weights = [
+		"a",
+		filters.includeReasoning && "b",
+		filters.includeToolResults && "c",
+	].filter(Boolean);
+	const vector = sql`ts_filter(${messages.searchVector}, ${`{${weights.join(",")}}`}::"char"[])`;
+
+	const document = sql.join(
+		[
+			messages.content,
+			filters.includeReasoning && textAt(REASONING_PATH),
+			filters.includeToolResults && textAt(TOOL_RESULT_PATH),
+		].filter((part): part is SQL | typeof messages.content => !!part),
+		sql` || ' … ' || `,
+	);
+
+	const conditions = [
+		// The unfiltered vector is what the index covers
+		sql`${messages.searchVector} @@ ${query}`,
+		sql`${vector} @@ ${query}`,
+		ownedBy(conversations.userId, filters.user),
+		filters.model ? eq(messages.model, filters.model) : undefined,
+		filters.provider
+			? like(messages.model, `${filters.provider}:%`)
+			: undefined,
+		filters.role ? eq(messages.role, filters.role) : undefined,
+		filters.from ? gte(messages.createdAt, filters.from) : undefined,
+		filters.to ? lte(messages.createdAt, filters.to) : undefined,
+	];
+
+	const rank = sql<number>`ts_rank(${vector}, ${query})`;
+
+	return db
+		.select({
+			conversationId: messages.conversationId,
+			conversationName: conversations.name,
+			messageId: messages.id,
+			role: messages.role,
+			model: messages.model,
+			createdAt: messages.createdAt,
+			snippet: sql<string>`ts_headline('english', ${document}, ${query}, ${`StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=30, MinWords=12`})`,
+			rank,
+		})
+		.from(messages)
+		.innerJoin(conversations, eq(messages.conversationId, conversations.id))
+		.where(and(...conditions))
+		.orderBy(desc(rank), desc(messages.createdAt))
+		.limit(filters.limit ?? 50);
+}
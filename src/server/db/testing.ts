@@ -0,0 +1,34 @@
+import { createRequire } from "node:module";
+import { PGlite } from "@electric-sql/pglite";
+import { vector } from "@electric-sql/pglite/vector";
+import { drizzle } from "drizzle-orm/pglite";
+
+import * as schema from "./schema";
+
+// The ES module build of drizzle-kit's API can't load its own dependencies
+const { generateDrizzleJson, generateMigration } = createRequire(
+	import.meta.url,
+)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+/**
+ * An empty database with the app's schema, in memory, for tests: PGlite is Postgres compiled to
+ * WebAssembly, so no server has to run. Tests swap it in for `db`:
+ *
+ * vi.mock("~/server/db", async () => ({
+ *   db: await (await import("~/server/db/testing")).createTestDb(),
+ * }));
+ */
+export async function createTestDb() {
+	const client = new PGlite({ extensions: { vector } });
+	await client.exec("CREATE EXTENSION IF NOT EXISTS vector");
+
+	const statements = await generateMigration(
+		generateDrizzleJson({}),
+		generateDrizzleJson(schema),
+	);
+	for (const statement of statements) {
+		await client.exec(statement);
+	}
+
+	return drizzle(client, { schema });
+}
@@ -0,0 +1,101 @@
+import { openai } from "@ai-sdk/openai";
+import { embedMany } from "ai";
+
+import { env } from "~/env";
+import { EMBEDDING_DIMENSIONS } from "~/lib/knowledge";
+
+/**
+ * Turns texts into vectors whose cosine similarity says how related they are. Vectors of different
+ * embedders aren't comparable, so each chunk records the `id` of the one that embedded it.
+ */
+export type Embedder = {
+	id: string;
+	embed: (texts: string[]) => Promise<number[][]>;
+};
+
+// Short, frequent words say little about what a text is about
+const STOP_WORDS = new Set(
+	"a an and are as at be but by can do does for from has have how i if in into is it its of on or so that the their them then there these they this to was we were what when where which who why will with you your".split(
+		" ",
+	),
+);
+
+// 32-bit FNV-1a
+function hash(text: string): number {
+	let value = 0x811c9dc5;
+	for (let index = 0; index < text.length; index++) {
+		value ^= text.charCodeAt(index);
+		value = Math.imul(value, 0x01000193);
+	}
+	return value >>> 0;
+}
+
+const tokenize = (text: string) =>
+	(
+		text
+			.toLowerCase()
+			.normalize("NFKD")
+			.match(/[\p{L}\p{N}]+/gu) ?? []
+	)
+		.filter((word) => !STOP_WORDS.has(word))
+		// Enough stemming for plurals to meet their singulars
+		.map((word) =>
+			word.length > 3 && word.endsWith("s") && !word.endsWith("ss")
+				? word.slice(0, -1)
+				: word,
+		);
+
+function hashEmbedding(text: string): number[] {
+	const words = tokenize(text);
+	const counts = new Map<string, number>();
+	const add = (feature: string, weight: number) =>
+		counts.set(feature, (counts.get(feature) ?? 0) + weight);
+	for (const [index, word] of words.entries()) {
+		add(word, 1);
+		// Pairs of words carry some of the meaning of phrases
+		const next = words[index + 1];
+		if (next) {
+			add(`${word} ${next}`, 0.5);
+		}
+	}
+
+	const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+	for (const [feature, count] of counts) {
+		const featureHash = hash(feature);
+		// The sign spreads out the collisions of features hashed to the same dimension
+		const sign = featureHash & 0x80000000 ? -1 : 1;
+		const dimension = featureHash % EMBEDDING_DIMENSIONS;
+		vector[dimension] = (vector[dimension] ?? 0) + sign * (1 + Math.log(count));
+	}
+
+	const norm = Math.hypot(...vector);
+	return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+/**
+ * Feature hashing of words and word pairs: deterministic, free and offline, so development and
+ * tests don't need a provider. It matches words rather than meaning; use a model for real
+ * documents.
+ */
+export const localEmbedder: Embedder = {
+	id: "local-hash-v1",
+	embed: async (texts) => texts.map(hashEmbedding),
+};
+
+const openaiModel = "text-embedding-3-small";
+
+export const openaiEmbedder: Embedder = {
+	id: `openai:${openaiModel}`,
+	embed: async (texts) => {
+		const { embeddings } = await embedMany({
+			model: openai.embedding(openaiModel, {
+				dimensions: EMBEDDING_DIMENSIONS,
+			}),
+			values: texts,
+		});
+		return embeddings;
+	},
+};
+
+export const embedder =
+	env.KNOWLEDGE_EMBEDDER === "openai" ? openaiEmbedder : localEmbedder;
@@ -0,0 +1,48 @@
+import { deflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+
+import { extractText } from "./extract";
+
+// A PDF of just content streams, which is all the extraction reads
+const pdf = (...streams: { dictionary: string; data: Buffer }[]) =>
+	Buffer.concat([
+		Buffer.from("%PDF-1.4\n"),
+		...streams.flatMap(({ dictionary, data }, index) => [
+			Buffer.from(`${index + 1} 0 obj\n${dictionary}\nstream\n`),
+			data,
+			Buffer.from("\nendstream\nendobj\n"),
+		]),
+	]);
+
+const page = (text: string) => Buffer.from(`BT /F1 12 Tf (${text}) Tj ET`);
+
+describe("extractText of PDFs", () => {
+	it("reads plain and deflated content streams", () => {
+		const data = pdf(
+			{ dictionary: "<< >>", data: page("Plain text") },
+			{
+				dictionary: "<< /Filter /FlateDecode >>",
+				data: deflateSync(page("Deflated text")),
+			},
+		);
+
+		expect(extractText("pdf", data)).toBe("Plain text\nDeflated text");
+	});
+
+	it("gives up on a stream that inflates beyond reason", () => {
+		const data = pdf(
+			{
+				dictionary: "<< /Filter /FlateDecode >>",
+				data: deflateSync(
+					Buffer.concat([
+						page("Never read"),
+						Buffer.alloc(32 * 1024 * 1024, " "),
+					]),
+				),
+			},
+			{ dictionary: "<< >>", data: page("Still read") },
+		);
+
+		expect(extractText("pdf", data)).toBe("Still read");
+	});
+});
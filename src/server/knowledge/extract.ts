@@ -0,0 +1,157 @@
+import { inflateSync } from "node:zlib";
+
+import type { KnowledgeFileType } from "~/lib/knowledge";
+
+// What a deflated stream may grow to. Far above what a page of text takes; a stream that inflates
+// beyond it is given up on rather than filling the memory
+const MAX_INFLATED_BYTES = 16 * 1024 * 1024;
+
+// Content streams draw text between `BT` and `ET`; anything else in them is graphics
+const TEXT_OBJECT = /\bBT\b([\s\S]*?)\bET\b/g;
+// A string, an array of strings and spacing, or an operator that moves to a new line
+const TEXT_TOKEN =
+	/\((?:\\[\s\S]|[^\\)])*\)|<[0-9A-Fa-f\s]*>|\[|\]|-?\d*\.?\d+|T\*|Td|TD|Tm|Tj|TJ|'|"/g;
+
+const ESCAPES: Record<string, string> = {
+	n: "\n",
+	r: "\r",
+	t: "\t",
+	b: "\b",
+	f: "\f",
+};
+
+// A literal string, `(...)`, as the characters it holds. Nested parentheses stay as they are
+function decodeLiteral(literal: string): string {
+	return literal
+		.slice(1, -1)
+		.replace(/\\([nrtbf()\\]|[0-7]{1,3}|\r?\n)/g, (_, sequence: string) => {
+			if (/^[0-7]+$/.test(sequence)) {
+				return String.fromCharCode(Number.parseInt(sequence, 8));
+			}
+			if (sequence.startsWith("\r") || sequence.startsWith("\n")) {
+				return "";
+			}
+			return ESCAPES[sequence] ?? sequence;
+		});
+}
+
+// A hex string, `<...>`, read one byte per character. Fonts with two-byte codes come out as
+// noise and are dropped with the rest of the unreadable text
+function decodeHex(hex: string): string {
+	const digits = hex.slice(1, -1).replace(/\s/g, "");
+	let text = "";
+	for (let index = 0; index < digits.length; index += 2) {
+		text += String.fromCharCode(
+			Number.parseInt(digits.slice(index, index + 2).padEnd(2, "0"), 16),
+		);
+	}
+	return text;
+}
+
+function readTextObjects(content: string): string {
+	let text = "";
+	let inArray = false;
+
+	for (const [, body = ""] of content.matchAll(TEXT_OBJECT)) {
+		for (const [token] of body.matchAll(TEXT_TOKEN)) {
+			if (token.startsWith("(")) {
+				text += decodeLiteral(token);
+			} else if (token.startsWith("<")) {
+				text += decodeHex(token);
+			} else if (token === "[") {
+				inArray = true;
+			} else if (token === "]") {
+				inArray = false;
+			} else if (inArray) {
+				// Spacing in thousandths of the font size; a wide gap is a space between words
+				if (Number(token) < -200 && !text.endsWith(" ")) {
+					text += " ";
+				}
+			} else if (["T*", "Td", "TD", "Tm", "'", '"'].includes(token)) {
+				if (!text.endsWith("\n")) {
+					text += "\n";
+				}
+			}
+		}
+		text += "\n";
+	}
+
+	return text;
+}
+
+/**
+ * The text of a PDF, read from its content streams, uncompressed or deflated. This covers PDFs
+ * written with standard fonts, e.g. exported from a word processor; scanned pages and fonts with
+ * custom encodings have no text to read here.
+ */
+function extractPdfText(data: Uint8Array): string {
+	const pdf = Buffer.from(data);
+	const raw = pdf.toString("latin1");
+	let text = "";
+
+	for (const match of raw.matchAll(/(?<!end)stream\r?\n/g)) {
+		const start = match.index + match[0].length;
+		const end = raw.indexOf("endstream", start);
+		if (end < 0) {
+			continue;
+		}
+
+		// The stream's dictionary comes right before it
+		const dictionary = raw.slice(
+			raw.lastIndexOf("obj", match.index),
+			match.index,
+		);
+		let content: string;
+		try {
+			const bytes = pdf.subarray(start, end);
+			content = dictionary.includes("/FlateDecode")
+				? inflateSync(bytes, {
+						finishFlush: 2,
+						maxOutputLength: MAX_INFLATED_BYTES,
+					}).toString("latin1")
+				: /\/Filter/.test(dictionary)
+					? ""
+					: bytes.toString("latin1");
+		} catch {
+			// Corrupt, or past `MAX_INFLATED_BYTES`
+			continue;
+		}
+		text += readTextObjects(content);
+	}
+
+	return (
+		text
+			// Control characters stand in for ligatures and the like
+			// biome-ignore lint/suspicious/noControlCharactersInRegex: see above
+			.replace(/[\u0000-\u0008\u000b-\u001f]/g, "")
+			.replace(/[^\S\n]+/g, " ")
+			.replace(/ ?\n ?/g, "\n")
+			.replace(/\n{3,}/g, "\n\n")
+			.trim()
+	);
+}
+
+// Mostly letters and the usual punctuation, rather than the bytes of an encoding we can't read
+const isReadable = (text: string) =>
+	text.length > 0 &&
+	(text.match(/[\p{L}\p{N}\s.,;:!?'"()-]/gu)?.length ?? 0) / text.length > 0.8;
+
+/**
+ * The text of a knowledge base file. Throws if there is none to read.
+ */
+export function extractText(type: KnowledgeFileType, data: Uint8Array): string {
+	const text =
+		type === "pdf"
+			? extractPdfText(data)
+			: new TextDecoder("utf-8").decode(data).replace(/^\uFEFF/, "");
+
+	if (!text.trim() || (type === "pdf" && !isReadable(text))) {
+		throw new Error(
+			type === "pdf"
+				? "No readable text in this PDF; scanned pages and some font encodings aren't supported"
+				: "The file is empty",
+		);
+	}
+
+	return text;
+}
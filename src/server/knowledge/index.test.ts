@@ -0,0 +1,143 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+import { knowledgePrompt } from "~/lib/knowledge";
+import { db } from "~/server/db";
+import { users } from "~/server/db/schema";
+import {
+	deleteDocument,
+	listDocuments,
+	loadSharedDocument,
+	searchKnowledge,
+	syncKnowledgeDirs,
+	uploadDocument,
+} from ".";
+import { loadAttachment } from "../attachments";
+
+// A knowledge directory of one file, named by the environment before `~/env` is loaded
+const shared = vi.hoisted(async () => {
+	const { mkdtempSync, writeFileSync } = await import("node:fs");
+	const { tmpdir } = await import("node:os");
+	const path = await import("node:path");
+
+	const dir = mkdtempSync(path.join(tmpdir(), "knowledge-"));
+	const content =
+		"# Deployments\n\nReleases go out on Tuesdays, after the staging checks pass.\n\n# Rollbacks\n\nA broken release is rolled back with the previous image tag.\n";
+	writeFileSync(path.join(dir, "runbook.md"), content);
+	process.env.KNOWLEDGE_DIRS = dir;
+
+	return { content };
+});
+
+vi.mock("~/server/db", async () => ({
+	db: await (await import("~/server/db/testing")).createTestDb(),
+}));
+
+const owner = { id: "owner", role: "member" as const };
+const other = { id: "other", role: "member" as const };
+
+const upload = (name: string, text: string) =>
+	uploadDocument(owner, {
+		name,
+		contentType: "text/markdown",
+		data: new TextEncoder().encode(text),
+	});
+
+beforeAll(async () => {
+	await db.insert(users).values([
+		{ id: owner.id, email: "owner@example.com" },
+		{ id: other.id, email: "other@example.com" },
+	]);
+	await upload(
+		"recipes.md",
+		"# Pancakes\n\nWhisk flour, milk and eggs, then fry the batter in butter.\n\n# Soup\n\nSimmer the vegetables in stock for an hour.",
+	);
+	await upload(
+		"garden.md",
+		"# Tomatoes\n\nWater the tomatoes every morning and stake them as they grow.",
+	);
+});
+
+describe("searchKnowledge", () => {
+	it("finds the passages closest to the query, numbered for citing", async () => {
+		const sources = await searchKnowledge(owner, "how do I make pancakes", 3);
+
+		expect(sources[0]).toMatchObject({
+			number: 1,
+			documentName: "recipes.md",
+			heading: "Pancakes",
+			url: expect.stringMatching(/^\/api\/attachments\/file-/),
+		});
+		expect(sources.map(({ number }) => number)).toEqual(
+			sources.map((_, index) => index + 1),
+		);
+		for (const [index, source] of sources.slice(1).entries()) {
+			expect(source.score).toBeLessThanOrEqual(sources[index]?.score ?? 1);
+		}
+
+		// Cited in the prompt by the same numbers
+		expect(knowledgePrompt(sources)).toContain(
+			"[1] recipes.md › Pancakes\nWhisk flour, milk and eggs, then fry the batter in butter.",
+		);
+	});
+
+	it("leaves out passages that have nothing to do with the query", async () => {
+		expect(await searchKnowledge(owner, "quantum chromodynamics", 3)).toEqual(
+			[],
+		);
+	});
+
+	it("only searches the user's own uploads", async () => {
+		expect(await searchKnowledge(other, "pancakes", 3)).toEqual([]);
+	});
+});
+
+describe("shared documents", () => {
+	it("are indexed from the knowledge directories for everyone, with a link", async () => {
+		expect(await syncKnowledgeDirs()).toMatchObject({ added: 1, errors: [] });
+		// Unchanged files are left alone
+		expect(await syncKnowledgeDirs()).toMatchObject({ added: 0, updated: 0 });
+
+		const [source] = await searchKnowledge(other, "rolled back release", 3);
+		expect(source).toMatchObject({
+			heading: "Rollbacks",
+			url: `/api/knowledge/${source?.documentId}`,
+		});
+
+		const [document] = await listDocuments(other);
+		expect(document).toMatchObject({ shared: true, url: source?.url });
+	});
+
+	it("are served from the directory, unlike uploads", async () => {
+		const documents = await listDocuments(owner);
+		const runbook = documents.find((document) => document.shared);
+		const upload = documents.find((document) => !document.shared);
+
+		const loaded = await loadSharedDocument(runbook?.id ?? "");
+		expect(loaded).toMatchObject({
+			name: "runbook.md",
+			contentType: "text/markdown",
+		});
+		expect(loaded?.data.toString("utf8")).toBe((await shared).content);
+
+		expect(await loadSharedDocument(upload?.id ?? "")).toBeUndefined();
+		expect(await loadSharedDocument("kdoc-missing")).toBeUndefined();
+	});
+});
+
+describe("deleteDocument", () => {
+	it("removes the user's upload with its stored file", async () => {
+		const { id, url } = await upload("notes.md", "# Notes\n\nNothing to keep.");
+		const attachmentId = url.split("/").at(-1) ?? "";
+		expect(await loadAttachment(attachmentId, owner)).toBeDefined();
+
+		// Only by its owner
+		await deleteDocument(other, id);
+		expect(await loadAttachment(attachmentId, owner)).toBeDefined();
+
+		await deleteDocument(owner, id);
+		expect(
+			(await listDocuments(owner)).map((document) => document.id),
+		).not.toContain(id);
+		expect(await loadAttachment(attachmentId, owner)).toBeUndefined();
+	});
+});
@@ -0,0 +1,469 @@
+import { createHash } from "node:crypto";
+import { readFile, readdir } from "node:fs/promises";
+import path from "node:path";
+import { createIdGenerator } from "ai";
+import {
+	and,
+	asc,
+	cosineDistance,
+	count,
+	desc,
+	eq,
+	gt,
+	inArray,
+	isNotNull,
+	isNull,
+	ne,
+	or,
+	sql,
+} from "drizzle-orm";
+
+import { env } from "~/env";
+import { ATTACHMENT_URL_PREFIX } from "~/lib/attachments";
+import {
+	type Chunk,
+	KNOWLEDGE_URL_PREFIX,
+	type KnowledgeFileType,
+	type KnowledgeSource,
+	chunkDocument,
+	getKnowledgeFileType,
+} from "~/lib/knowledge";
+import { deleteAttachment, saveAttachment } from "../attachments";
+import type { SessionUser } from "../auth/access";
+import { db } from "../db";
+import { knowledgeChunks, knowledgeDocuments } from "../db/schema";
+import { embedder } from "./embedders";
+import { extractText } from "./extract";
+
+const generateDocumentId = createIdGenerator({ prefix: "kdoc", size: 16 });
+
+// Texts per embedding request
+const EMBED_BATCH_SIZE = 64;
+// Passages less similar to the prompt than this are left out, however few are found
+const MIN_SIMILARITY = 0.1;
+
+/**
+ * A document as listed in the knowledge base panel.
+ */
+export type KnowledgeDocument = {
+	id: string;
+	name: string;
+	type: KnowledgeFileType;
+	// From a knowledge directory, rather than uploaded
+	shared: boolean;
+	url: string;
+	chunks: number;
+	createdAt: Date;
+};
+
+export type SyncResult = {
+	added: number;
+	updated: number;
+	removed: number;
+	// Chunks embedded again as the embedder changed
+	reembedded: number;
+	errors: { path: string; error: string }[];
+};
+
+// Documents whose passages `user`'s answers draw on: their uploads and the shared files
+const searchableBy = (user: SessionUser) =>
+	or(eq(knowledgeDocuments.userId, user.id), isNull(knowledgeDocuments.userId));
+
+const contentTypes: Record<KnowledgeFileType, string> = {
+	markdown: "text/markdown",
+	text: "text/plain",
+	pdf: "application/pdf",
+};
+
+// Uploads are stored as attachments; the files of the knowledge directories are read where they are
+const urlOf = (documentId: string, attachmentId: string | null) =>
+	attachmentId
+		? `${ATTACHMENT_URL_PREFIX}${attachmentId}`
+		: `${KNOWLEDGE_URL_PREFIX}${documentId}`;
+
+const hashOf = (data: Uint8Array) =>
+	createHash("sha256").update(data).digest("hex");
+
+// The document and its headings go along, as a passage often leaves out what it is about
+const embeddingInput = (name: string, chunk: Chunk) =>
+	`${[name, chunk.heading].filter(Boolean).join(" › ")}\n\n${chunk.content}`;
+
+async function embedAll(texts: string[]): Promise<number[][]> {
+	const embeddings: number[][] = [];
+	for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+		embeddings.push(
+			...(await embedder.embed(texts.slice(start, start + EMBED_BATCH_SIZE))),
+		);
+	}
+	return embeddings;
+}
+
+// Reads, chunks and embeds a file, before anything is written
+async function prepare(
+	name: string,
+	type: KnowledgeFileType,
+	data: Uint8Array,
+) {
+	const chunks = chunkDocument(extractText(type, data), type);
+	const embeddings = await embedAll(
+		chunks.map((chunk) => embeddingInput(name, chunk)),
+	);
+
+	return chunks.map((chunk, index) => ({
+		index,
+		heading: chunk.heading,
+		content: chunk.content,
+		embedder: embedder.id,
+		embedding: embeddings[index] ?? [],
+	}));
+}
+
+/**
+ * Adds an uploaded file to `user`'s knowledge base. The file is stored like an attachment, for
+ * sources to link to. Throws if it has no text to read.
+ */
+export async function uploadDocument(
+	user: SessionUser,
+	file: { name: string; contentType: string; data: Uint8Array },
+): Promise<KnowledgeDocument> {
+	const type = getKnowledgeFileType(file.name, file.contentType);
+	if (!type) {
+		throw new Error("Only Markdown, text and PDF files can be added");
+	}
+
+	const chunks = await prepare(file.name, type, file.data);
+	// Served by its type, which browsers leave out for Markdown
+	const attachment = await saveAttachment({
+		userId: user.id,
+		...file,
+		contentType: contentTypes[type],
+	});
+	const id = generateDocumentId();
+
+	await db.transaction(async (tx) => {
+		await tx.insert(knowledgeDocuments).values({
+			id,
+			userId: user.id,
+			name: file.name.slice(0, 256),
+			attachmentId: attachment.id,
+			type,
+			hash: hashOf(file.data),
+		});
+		if (chunks.length > 0) {
+			await tx
+				.insert(knowledgeChunks)
+				.values(chunks.map((chunk) => ({ ...chunk, documentId: id })));
+		}
+	});
+
+	return {
+		id,
+		name: file.name,
+		type,
+		shared: false,
+		url: attachment.url,
+		chunks: chunks.length,
+		createdAt: new Date(),
+	};
+}
+
+/**
+ * The documents `user`'s answers draw on, shared ones first.
+ */
+export async function listDocuments(
+	user: SessionUser,
+): Promise<KnowledgeDocument[]> {
+	const rows = await db
+		.select({
+			id: knowledgeDocuments.id,
+			name: knowledgeDocuments.name,
+			type: knowledgeDocuments.type,
+			userId: knowledgeDocuments.userId,
+			attachmentId: knowledgeDocuments.attachmentId,
+			createdAt: knowledgeDocuments.createdAt,
+			chunks: count(knowledgeChunks.index),
+		})
+		.from(knowledgeDocuments)
+		.leftJoin(
+			knowledgeChunks,
+			eq(knowledgeChunks.documentId, knowledgeDocuments.id),
+		)
+		.where(searchableBy(user))
+		.groupBy(knowledgeDocuments.id)
+		.orderBy(
+			desc(isNull(knowledgeDocuments.userId)),
+			asc(knowledgeDocuments.name),
+		);
+
+	return rows.map(({ userId, attachmentId, ...document }) => ({
+		...document,
+		shared: userId === null,
+		url: urlOf(document.id, attachmentId),
+	}));
+}
+
+/**
+ * Removes one of `user`'s uploads, with the stored file. The files of the knowledge directories go
+ * when they are deleted there.
+ */
+export async function deleteDocument(user: SessionUser, id: string) {
+	const [deleted] = await db
+		.delete(knowledgeDocuments)
+		.where(
+			and(
+				eq(knowledgeDocuments.id, id),
+				eq(knowledgeDocuments.userId, user.id),
+			),
+		)
+		.returning({ attachmentId: knowledgeDocuments.attachmentId });
+
+	// Stored for this document alone; sources that cited it stop linking anywhere, as they would
+	// for a shared file that was deleted
+	if (deleted?.attachmentId) {
+		await deleteAttachment(deleted.attachmentId);
+	}
+}
+
+/**
+ * A file of the knowledge directories, as it is there now, for sources to link to. Undefined if
+ * it isn't one, or is gone.
+ */
+export async function loadSharedDocument(id: string) {
+	const document = await db.query.knowledgeDocuments.findFirst({
+		where: and(
+			eq(knowledgeDocuments.id, id),
+			isNull(knowledgeDocuments.userId),
+			isNotNull(knowledgeDocuments.path),
+		),
+		columns: { name: true, type: true, path: true },
+	});
+	if (!document?.path) {
+		return undefined;
+	}
+
+	// Only from the directories still configured
+	const file = path.resolve(document.path);
+	const inKnowledgeDir = env.KNOWLEDGE_DIRS.some((dir) => {
+		const relative = path.relative(path.resolve(dir), file);
+		return !relative.startsWith("..") && !path.isAbsolute(relative);
+	});
+	if (!inKnowledgeDir) {
+		return undefined;
+	}
+
+	const data = await readFile(file).catch(() => undefined);
+	return (
+		data && {
+			name: path.basename(document.path),
+			contentType: contentTypes[document.type],
+			data,
+		}
+	);
+}
+
+// The knowledge base files in `dir` and below, skipping hidden directories and dependencies
+async function findFiles(dir: string): Promise<string[]> {
+	const entries = await readdir(dir, { withFileTypes: true });
+	const files = await Promise.all(
+		entries.map(async (entry) => {
+			const entryPath = path.join(dir, entry.name);
+			if (entry.name.startsWith(".") || entry.name === "node_modules") {
+				return [];
+			}
+			if (entry.isDirectory()) {
+				return findFiles(entryPath);
+			}
+			return entry.isFile() && getKnowledgeFileType(entry.name, "")
+				? [entryPath]
+				: [];
+		}),
+	);
+	return files.flat();
+}
+
+// Embeds the chunks of another embedder again, e.g. after `KNOWLEDGE_EMBEDDER` changed
+async function reembedStale(): Promise<number> {
+	const stale = await db
+		.select({
+			documentId: knowledgeChunks.documentId,
+			index: knowledgeChunks.index,
+			heading: knowledgeChunks.heading,
+			content: knowledgeChunks.content,
+			name: knowledgeDocuments.name,
+		})
+		.from(knowledgeChunks)
+		.innerJoin(
+			knowledgeDocuments,
+			eq(knowledgeDocuments.id, knowledgeChunks.documentId),
+		)
+		.where(ne(knowledgeChunks.embedder, embedder.id));
+
+	const embeddings = await embedAll(
+		stale.map((chunk) => embeddingInput(chunk.name, chunk)),
+	);
+	for (const [position, chunk] of stale.entries()) {
+		await db
+			.update(knowledgeChunks)
+			.set({ embedder: embedder.id, embedding: embeddings[position] ?? [] })
+			.where(
+				and(
+					eq(knowledgeChunks.documentId, chunk.documentId),
+					eq(knowledgeChunks.index, chunk.index),
+				),
+			);
+	}
+
+	return stale.length;
+}
+
+/**
+ * Brings the shared documents in line with the knowledge directories: new and changed files are
+ * (re)indexed, and deleted ones removed. Also embeds every chunk the current embedder didn't.
+ * A file that fails is reported and skipped.
+ */
+export async function syncKnowledgeDirs(): Promise<SyncResult> {
+	const result: SyncResult = {
+		added: 0,
+		updated: 0,
+		removed: 0,
+		reembedded: 0,
+		errors: [],
+	};
+
+	const existing = new Map(
+		(
+			await db
+				.select({
+					id: knowledgeDocuments.id,
+					path: knowledgeDocuments.path,
+					hash: knowledgeDocuments.hash,
+				})
+				.from(knowledgeDocuments)
+				.where(isNotNull(knowledgeDocuments.path))
+		).map((document) => [document.path, document]),
+	);
+
+	const found = new Set<string>();
+	for (const dir of env.KNOWLEDGE_DIRS) {
+		let files: string[];
+		try {
+			files = await findFiles(path.resolve(dir));
+		} catch (error) {
+			result.errors.push({
+				path: dir,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			continue;
+		}
+
+		for (const file of files) {
+			// As shown to users, e.g. `docs/architecture.md`
+			const filePath = path.relative(process.cwd(), file);
+			found.add(filePath);
+			try {
+				const data = await readFile(file);
+				const hash = hashOf(data);
+				const document = existing.get(filePath);
+				if (document?.hash === hash) {
+					continue;
+				}
+
+				const type = getKnowledgeFileType(file, "") as KnowledgeFileType;
+				const chunks = await prepare(filePath, type, data);
+				const id = document?.id ?? generateDocumentId();
+				await db.transaction(async (tx) => {
+					if (document) {
+						await tx
+							.update(knowledgeDocuments)
+							.set({ hash })
+							.where(eq(knowledgeDocuments.id, id));
+						await tx
+							.delete(knowledgeChunks)
+							.where(eq(knowledgeChunks.documentId, id));
+					} else {
+						await tx.insert(knowledgeDocuments).values({
+							id,
+							name: filePath,
+							path: filePath,
+							type,
+							hash,
+						});
+					}
+					if (chunks.length > 0) {
+						await tx
+							.insert(knowledgeChunks)
+							.values(chunks.map((chunk) => ({ ...chunk, documentId: id })));
+					}
+				});
+				result[document ? "updated" : "added"]++;
+			} catch (error) {
+				result.errors.push({
+					path: filePath,
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+	}
+
+	const removed = [...existing.values()].filter(
+		(document) => document.path && !found.has(document.path),
+	);
+	if (removed.length > 0) {
+		await db.delete(knowledgeDocuments).where(
+			inArray(
+				knowledgeDocuments.id,
+				removed.map((document) => document.id),
+			),
+		);
+	}
+	result.removed = removed.length;
+	result.reembedded = await reembedStale();
+
+	return result;
+}
+
+/**
+ * The passages of `user`'s knowledge base closest to `query`, numbered for citing.
+ */
+export async function searchKnowledge(
+	user: SessionUser,
+	query: string,
+	limit: number,
+): Promise<KnowledgeSource[]> {
+	const [embedding] = await embedder.embed([query]);
+	if (!embedding) {
+		return [];
+	}
+
+	const similarity = sql<number>`1 - (${cosineDistance(knowledgeChunks.embedding, embedding)})`;
+	const rows = await db
+		.select({
+			documentId: knowledgeDocuments.id,
+			documentName: knowledgeDocuments.name,
+			attachmentId: knowledgeDocuments.attachmentId,
+			heading: knowledgeChunks.heading,
+			content: knowledgeChunks.content,
+			score: similarity,
+		})
+		.from(knowledgeChunks)
+		.innerJoin(
+			knowledgeDocuments,
+			eq(knowledgeDocuments.id, knowledgeChunks.documentId),
+		)
+		.where(
+			and(
+				searchableBy(user),
+				eq(knowledgeChunks.embedder, embedder.id),
+				gt(similarity, MIN_SIMILARITY),
+			),
+		)
+		.orderBy(cosineDistance(knowledgeChunks.embedding, embedding))
+		.limit(limit);
+
+	return rows.map(({ attachmentId, score, ...row }, index) => ({
+		...row,
+		number: index + 1,
+		url: urlOf(row.documentId, attachmentId),
+		score: Number(score),
+	}));
+}
@@ -0,0 +1,102 @@
+import { and, eq, lte, sql } from "drizzle-orm";
+
+import { env } from "~/env";
+import type { LimitMetric } from "~/lib/rateLimits";
+import { db } from "./db";
+import { usageCounters } from "./db/schema";
+
+/**
+ * A counter of one user against one limit, for the window ending at `resetsAt`.
+ */
+export type CounterKey = {
+	userId: string;
+	scope: string;
+	metric: LimitMetric;
+	resetsAt: Date;
+};
+
+/**
+ * Where rate limit counters are kept. `add` returns the new total, so a check and an increment can
+ * be one atomic step.
+ */
+export type LimitStore = {
+	get: (key: CounterKey) => Promise<number>;
+	add: (key: CounterKey, amount: number) => Promise<number>;
+};
+
+const postgresStore: LimitStore = {
+	get: async (key) => {
+		const row = await db.query.usageCounters.findFirst({
+			where: and(
+				eq(usageCounters.userId, key.userId),
+				eq(usageCounters.scope, key.scope),
+				eq(usageCounters.metric, key.metric),
+				eq(usageCounters.resetsAt, key.resetsAt),
+			),
+			columns: { amount: true },
+		});
+		return row?.amount ?? 0;
+	},
+
+	add: async (key, amount) => {
+		await db
+			.delete(usageCounters)
+			.where(
+				and(
+					eq(usageCounters.userId, key.userId),
+					lte(usageCounters.resetsAt, new Date()),
+				),
+			);
+
+		const [row] = await db
+			.insert(usageCounters)
+			.values({ ...key, amount })
+			.onConflictDoUpdate({
+				target: [
+					usageCounters.userId,
+					usageCounters.scope,
+					usageCounters.metric,
+					usageCounters.resetsAt,
+				],
+				set: { amount: sql`${usageCounters.amount} + ${amount}` },
+			})
+			.returning({ amount: usageCounters.amount });
+		return row?.amount ?? amount;
+	},
+};
+
+/**
+ * Keep the counters across HMR updates in development, like the database connection.
+ */
+const globalForLimits = globalThis as unknown as {
+	limitCounters: Map<string, { resetsAt: Date; amount: number }> | undefined;
+};
+
+const memoryCounters =
+	globalForLimits.limitCounters ??
+	new Map<string, { resetsAt: Date; amount: number }>();
+globalForLimits.limitCounters = memoryCounters;
+
+const counterId = (key: CounterKey) =>
+	[key.userId, key.scope, key.metric, key.resetsAt.toISOString()].join("|");
+
+const memoryStore: LimitStore = {
+	get: async (key) => memoryCounters.get(counterId(key))?.amount ?? 0,
+
+	add: async (key, amount) => {
+		const now = new Date();
+		for (const [id, counter] of memoryCounters) {
+			if (counter.resetsAt <= now) {
+				memoryCounters.delete(id);
+			}
+		}
+
+		const id = counterId(key);
+		const total = (memoryCounters.get(id)?.amount ?? 0) + amount;
+		memoryCounters.set(id, { resetsAt: key.resetsAt, amount: total });
+		return total;
+	},
+};
+
+export const limitStore: LimitStore =
+	env.RATE_LIMIT_STORE === "memory" ? memoryStore : postgresStore;
@@ -0,0 +1,230 @@
+import { and, asc, desc, eq, gte, lt } from "drizzle-orm";
+
+import { env } from "~/env";
+import { type SessionUser, canAccess } from "./auth/access";
+import { db } from "./db";
+import {
+	type StreamStatus,
+	conversations,
+	streamChunks,
+	streams,
+} from "./db/schema";
+
+// How long a stream can be come back to
+const STREAM_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type StreamInfo = {
+	id: string;
+	conversationId: string;
+	userId: string;
+	messageId: string;
+	status: StreamStatus;
+};
+
+export const isFinal = (status: StreamStatus) =>
+	status !== "streaming" && status !== "cancelling";
+
+/**
+ * Where streams are buffered, as the data stream's parts in order. `append` writes parts from
+ * `offset` on and returns the stream's status, so the writer learns about a cancel as it goes.
+ */
+export type StreamStore = {
+	create: (stream: Omit<StreamInfo, "status">) => Promise<void>;
+	append: (
+		id: string,
+		offset: number,
+		chunks: string[],
+	) => Promise<StreamStatus | undefined>;
+	read: (id: string, offset: number) => Promise<string[]>;
+	finish: (id: string, status: StreamStatus) => Promise<void>;
+	// Asks the writer to stop, unless the stream has already ended
+	cancel: (id: string) => Promise<void>;
+	get: (id: string) => Promise<StreamInfo | undefined>;
+	// The latest stream answering the message
+	findByMessage: (messageId: string) => Promise<StreamInfo | undefined>;
+};
+
+const streamColumns = {
+	id: true,
+	conversationId: true,
+	userId: true,
+	messageId: true,
+	status: true,
+} as const;
+
+const postgresStore: StreamStore = {
+	create: async (stream) => {
+		await db
+			.delete(streams)
+			.where(lt(streams.createdAt, new Date(Date.now() - STREAM_TTL_MS)));
+		await db.insert(streams).values(stream);
+	},
+
+	append: async (id, offset, chunks) => {
+		if (chunks.length > 0) {
+			await db.insert(streamChunks).values(
+				chunks.map((content, index) => ({
+					streamId: id,
+					index: offset + index,
+					content,
+				})),
+			);
+		}
+		return (await postgresStore.get(id))?.status;
+	},
+
+	read: async (id, offset) => {
+		const rows = await db.query.streamChunks.findMany({
+			where: and(
+				eq(streamChunks.streamId, id),
+				gte(streamChunks.index, offset),
+			),
+			orderBy: [asc(streamChunks.index)],
+			columns: { content: true },
+		});
+		return rows.map(({ content }) => content);
+	},
+
+	finish: async (id, status) => {
+		await db.update(streams).set({ status }).where(eq(streams.id, id));
+	},
+
+	cancel: async (id) => {
+		await db
+			.update(streams)
+			.set({ status: "cancelling" })
+			.where(and(eq(streams.id, id), eq(streams.status, "streaming")));
+	},
+
+	get: (id) =>
+		db.query.streams.findFirst({
+			where: eq(streams.id, id),
+			columns: streamColumns,
+		}),
+
+	findByMessage: (messageId) =>
+		db.query.streams.findFirst({
+			where: eq(streams.messageId, messageId),
+			orderBy: [desc(streams.createdAt)],
+			columns: streamColumns,
+		}),
+};
+
+type MemoryStream = StreamInfo & { createdAt: number; chunks: string[] };
+
+/**
+ * Keep the streams across HMR updates in development, like the database connection. Aborts are
+ * per process either way: only the process generating an answer can stop it right away.
+ */
+const globalForStreams = globalThis as unknown as {
+	memoryStreams: Map<string, MemoryStream> | undefined;
+	streamAborts: Map<string, AbortController> | undefined;
+};
+
+const memoryStreams =
+	globalForStreams.memoryStreams ?? new Map<string, MemoryStream>();
+globalForStreams.memoryStreams = memoryStreams;
+
+const aborts =
+	globalForStreams.streamAborts ?? new Map<string, AbortController>();
+globalForStreams.streamAborts = aborts;
+
+const toInfo = ({
+	createdAt: _createdAt,
+	chunks: _chunks,
+	...info
+}: MemoryStream) => info;
+
+const memoryStore: StreamStore = {
+	create: async (stream) => {
+		for (const [id, { createdAt }] of memoryStreams) {
+			if (createdAt < Date.now() - STREAM_TTL_MS) {
+				memoryStreams.delete(id);
+			}
+		}
+		memoryStreams.set(stream.id, {
+			...stream,
+			status: "streaming",
+			createdAt: Date.now(),
+			chunks: [],
+		});
+	},
+
+	append: async (id, offset, chunks) => {
+		const stream = memoryStreams.get(id);
+		stream?.chunks.splice(offset, chunks.length, ...chunks);
+		return stream?.status;
+	},
+
+	read: async (id, offset) => memoryStreams.get(id)?.chunks.slice(offset) ?? [],
+
+	finish: async (id, status) => {
+		const stream = memoryStreams.get(id);
+		if (stream) {
+			stream.status = status;
+		}
+	},
+
+	cancel: async (id) => {
+		const stream = memoryStreams.get(id);
+		if (stream?.status === "streaming") {
+			stream.status = "cancelling";
+		}
+	},
+
+	get: async (id) => {
+		const stream = memoryStreams.get(id);
+		return stream && toInfo(stream);
+	},
+
+	findByMessage: async (messageId) => {
+		const latest = [...memoryStreams.values()]
+			.filter((stream) => stream.messageId === messageId)
+			.sort((a, b) => b.createdAt - a.createdAt)[0];
+		return latest && toInfo(latest);
+	},
+};
+
+export const streamStore: StreamStore =
+	env.STREAM_STORE === "memory" ? memoryStore : postgresStore;
+
+/**
+ * Lets `cancelStream` stop a generation running in this process without waiting for the writer to
+ * notice. The controller is forgotten once it aborts or the stream ends.
+ */
+export function trackAbort(id: string, controller: AbortController) {
+	aborts.set(id, controller);
+	controller.signal.addEventListener("abort", () => aborts.delete(id), {
+		once: true,
+	});
+}
+
+export const untrackAbort = (id: string) => aborts.delete(id);
+
+/**
+ * Stops a generation: right away if it runs in this process, otherwise as soon as its writer next
+ * flushes.
+ */
+export async function cancelStream(id: string) {
+	await streamStore.cancel(id);
+	aborts.get(id)?.abort();
+}
+
+/**
+ * The stream answering the last message of the conversation's active branch, unless the
+ * conversation is someone else's.
+ */
+export async function findLeafStream(
+	conversationId: string,
+	user: SessionUser,
+): Promise<StreamInfo | undefined> {
+	const conversation = await db.query.conversations.findFirst({
+		where: eq(conversations.id, conversationId),
+		columns: { userId: true, activeLeafId: true },
+	});
+	if (!conversation?.activeLeafId || !canAccess(user, conversation.userId)) {
+		return undefined;
+	}
+
+	return streamStore.findByMessage(conversation.activeLeafId);
+}
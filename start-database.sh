@@ -80,4 +80,11 @@ $DOCKER_CMD run -d \
   -e POSTGRES_PASSWORD="$DB_PASSWORD" \
   -e POSTGRES_DB="$DB_NAME" \
   -p "$DB_PORT":5432 \
-  docker.io/postgres && echo "Database container '$DB_CONTAINER_NAME' was successfully created"
+  docker.io/pgvector/pgvector:pg17 && echo "Database container '$DB_CONTAINER_NAME' was successfully created"
+
+# The knowledge base stores its embeddings with pgvector
+until $DOCKER_CMD exec "$DB_CONTAINER_NAME" pg_isready -U postgres -d "$DB_NAME" >/dev/null 2>&1; do
+  sleep 1
+done
+$DOCKER_CMD exec "$DB_CONTAINER_NAME" psql -U postgres -d "$DB_NAME" -c "CREATE EXTENSION IF NOT EXISTS vector" >/dev/null &&
+  echo "Enabled the pgvector extension"
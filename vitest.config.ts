@@ -0,0 +1,24 @@
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+	resolve: {
+		alias: { "~": fileURLToPath(new URL("./src", import.meta.url)) },
+	},
+	test: {
+		include: ["src/**/*.test.ts"],
+		// Every provider is enabled, with keys that are never sent anywhere: the tests only reach
+		// the mock provider. Tests that need the database use `~/server/db/testing` rather than this
+		// one
+		env: {
+			NODE_ENV: "test",
+			DATABASE_URL: "postgresql://postgres@localhost:5432/chatbot-next-test",
+			ATTACHMENT_DIR: path.join(tmpdir(), "chatbot-next-test", "attachments"),
+			CHAT_PROVIDERS: "openai,anthropic,mock",
+			OPENAI_API_KEY: "test",
+			ANTHROPIC_API_KEY: "test",
+		},
+	},
+});